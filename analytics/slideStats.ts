@@ -0,0 +1,67 @@
+import { DeckInfo, PdfPageImage, SlideMatch } from '../types';
+import { normalizeSegments } from '../postprocess/segments';
+import { deckTitle } from '../postprocess/titles';
+
+// --- Per-Slide Analytics ---
+// Folds the segment list into one row per deck page: how long it was on screen,
+// how often the speaker came back to it, and which pages were never shown.
+
+// 'skipped': unshown, but pages before and after it in the same deck were shown
+export type SlideStatus = 'shown' | 'skipped' | 'never-shown';
+
+export interface SlideStats {
+  deckId: number;
+  pageNumber: number;
+  slideTitle: string;
+  status: SlideStatus;
+  visits: number;
+  dwellSeconds: number;
+  firstSeconds: number | null;
+}
+
+export interface DeckStats {
+  deckId: number;
+  shownPages: number;
+  pageCount: number;
+  dwellSeconds: number;
+}
+
+// `deckPages` supplies titles for pages that were never shown
+export const computeSlideStats = (matches: SlideMatch[], decks: DeckInfo[], duration: number, deckPages: PdfPageImage[] = []): SlideStats[] => {
+  const segments = normalizeSegments(matches, duration);
+
+  return decks.flatMap(deck => {
+    const pages: SlideStats[] = Array.from({ length: deck.pageCount }, (_, i) => {
+      const visits = segments.filter(s => s.deckId === deck.deckId && s.pageNumber === i + 1);
+      return {
+        deckId: deck.deckId,
+        pageNumber: i + 1,
+        slideTitle: visits.find(v => v.slideTitle)?.slideTitle || deckTitle(deckPages, deck.deckId, i + 1),
+        status: visits.length > 0 ? 'shown' : 'never-shown',
+        visits: visits.length,
+        dwellSeconds: visits.reduce((sum, v) => sum + (v.endSeconds! - v.seconds), 0),
+        firstSeconds: visits.length > 0 ? visits[0].seconds : null,
+      };
+    });
+
+    const shown = pages.filter(p => p.status === 'shown').map(p => p.pageNumber);
+    if (shown.length > 0) {
+      const [first, last] = [shown[0], shown[shown.length - 1]];
+      pages.forEach(p => {
+        if (p.status === 'never-shown' && p.pageNumber > first && p.pageNumber < last) p.status = 'skipped';
+      });
+    }
+    return pages;
+  });
+};
+
+export const summarizeDecks = (stats: SlideStats[], decks: DeckInfo[]): DeckStats[] =>
+  decks.map(deck => {
+    const pages = stats.filter(s => s.deckId === deck.deckId);
+    return {
+      deckId: deck.deckId,
+      shownPages: pages.filter(p => p.status === 'shown').length,
+      pageCount: deck.pageCount,
+      dwellSeconds: pages.reduce((sum, p) => sum + p.dwellSeconds, 0),
+    };
+  });
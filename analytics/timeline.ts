@@ -0,0 +1,101 @@
+import { SlideMatch, VideoFrameImage } from '../types';
+
+// --- Talk Timeline ---
+// Lays the result rows out on one time axis: a band per row, the gaps where no
+// slide was detected, and the long stretches nobody should trust without a look.
+
+export interface TimelineBand {
+  index: number; // Row in the results list
+  start: number;
+  end: number;
+  deckId: number;
+  pageNumber: number;
+  confidence: string;
+}
+
+export interface TimelineSpan {
+  start: number;
+  end: number;
+}
+
+export interface TimelineLayout {
+  duration: number; // Length of the axis; at least the last band's end
+  bands: TimelineBand[];
+  gaps: TimelineSpan[];     // No slide on screen (speaker-only segments, breaks)
+  weakRuns: TimelineSpan[]; // Long stretches of Low-confidence rows and gaps
+}
+
+// Shorter gaps are sampling noise rather than a segment without slides
+const MIN_GAP_SECONDS = 1;
+// Weak stretches at least this long are flagged
+export const WEAK_RUN_SECONDS = 60;
+
+const isLow = (confidence: string) => (confidence || 'low').toLowerCase() === 'low';
+
+// `results` is time-ordered; a row without an end lasts until the next one
+export const buildTimeline = (results: SlideMatch[], duration: number): TimelineLayout => {
+  const total = Math.max(duration, 0, ...results.map(m => m.endSeconds ?? m.seconds));
+  const bands: TimelineBand[] = results.map((m, i) => {
+    const limit = i + 1 < results.length ? results[i + 1].seconds : total;
+    return {
+      index: i,
+      start: m.seconds,
+      end: Math.max(m.seconds, Math.min(m.endSeconds ?? limit, limit)),
+      deckId: m.deckId,
+      pageNumber: m.pageNumber,
+      confidence: m.confidence,
+    };
+  });
+
+  const gaps: TimelineSpan[] = [];
+  let covered = 0;
+  bands.forEach(band => {
+    if (band.start - covered >= MIN_GAP_SECONDS) gaps.push({ start: covered, end: band.start });
+    covered = Math.max(covered, band.end);
+  });
+  if (total - covered >= MIN_GAP_SECONDS) gaps.push({ start: covered, end: total });
+
+  // Low rows and gaps that touch merge into one stretch
+  const weak = [...gaps, ...bands.filter(b => isLow(b.confidence))].sort((a, b) => a.start - b.start);
+  const merged: TimelineSpan[] = [];
+  weak.forEach(span => {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end + MIN_GAP_SECONDS) last.end = Math.max(last.end, span.end);
+    else merged.push({ start: span.start, end: span.end });
+  });
+
+  return { duration: total, bands, gaps, weakRuns: merged.filter(s => s.end - s.start >= WEAK_RUN_SECONDS) };
+};
+
+// Band containing `seconds`, or null in a gap
+export const bandAt = (layout: TimelineLayout, seconds: number): TimelineBand | null =>
+  layout.bands.find(b => b.start <= seconds && seconds < b.end) ?? null;
+
+// Row on screen at `seconds`; in a gap, the closest row. -1 without rows
+export const rowAt = (layout: TimelineLayout, seconds: number): number => {
+  const inside = bandAt(layout, seconds);
+  if (inside) return inside.index;
+  let best = -1;
+  let bestDistance = Infinity;
+  layout.bands.forEach(band => {
+    const distance = seconds < band.start ? band.start - seconds : seconds - band.end;
+    if (distance < bestDistance) {
+      best = band.index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+// Sampled frame closest to `seconds`; frames are time-ordered
+export const nearestFrame = (frames: VideoFrameImage[], seconds: number): VideoFrameImage | null => {
+  if (frames.length === 0) return null;
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].timestamp < seconds) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && seconds - frames[lo - 1].timestamp < frames[lo].timestamp - seconds ? frames[lo - 1] : frames[lo];
+};
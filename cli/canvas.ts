@@ -0,0 +1,67 @@
+import { Canvas, DOMMatrix, ImageData, Path2D, createCanvas, loadImage } from '@napi-rs/canvas';
+import { GrayImage } from '../utils/image';
+import { DeckCanvasPlatform } from '../decks/render';
+
+// --- Canvas for Node ---
+// @napi-rs/canvas stands in for the browser canvas: pdf.js renders into it,
+// the local matcher decodes frames with it and image / .pptx decks are drawn on it.
+
+// pdf.js looks these up on globalThis (it would otherwise try the `canvas` package)
+export const installCanvasGlobals = () => {
+  const scope = globalThis as any;
+  scope.DOMMatrix ??= DOMMatrix;
+  scope.ImageData ??= ImageData;
+  scope.Path2D ??= Path2D;
+};
+
+// pdf.js creates its scratch canvases through this factory
+export class NodeCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = createCanvas(Math.max(1, width), Math.max(1, height));
+    return { canvas, context: canvas.getContext('2d') };
+  }
+  reset(target: any, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+  destroy(target: any) {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+// Node counterpart of dataUrlToGray
+export const decodeGray = async (dataUrl: string, width: number, height: number): Promise<GrayImage> => {
+  const img = await loadImage(Buffer.from(dataUrl.split(',')[1], 'base64'));
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    // ITU-R BT.601 luma
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return { width, height, data: gray };
+};
+
+// Node counterpart of the browser canvas used for image and .pptx decks
+export const nodeDeckCanvas: DeckCanvasPlatform = {
+  createCanvas: (width, height) => {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') as unknown as CanvasRenderingContext2D };
+  },
+  decodeImage: async ({ bytes }) => {
+    try {
+      const img = await loadImage(Buffer.from(bytes));
+      return { source: img as unknown as CanvasImageSource, width: img.width, height: img.height };
+    } catch {
+      return null;
+    }
+  },
+  toJpeg: async (canvas, quality) =>
+    `data:image/jpeg;base64,${(await (canvas as Canvas).encode('jpeg', Math.round(quality * 100))).toString('base64')}`,
+};
@@ -0,0 +1,35 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { PdfPageImage } from '../types';
+import { DeckFile, detectDeckFormat, loadDeck } from '../decks/formats';
+import { nodeDeckCanvas } from './canvas';
+import { rasterizePdfFile } from './pdf';
+import { t } from '../i18n';
+
+// --- Deck Loading (Node) ---
+// A deck path is a PDF, a .pptx, a zip of slide images, or a folder of them.
+
+const readDir = async (dir: string, prefix = ''): Promise<DeckFile[]> => {
+  const entries = await readdir(join(dir, prefix), { withFileTypes: true });
+  const nested = await Promise.all(entries.map(e => {
+    const name = prefix ? `${prefix}/${e.name}` : e.name;
+    return e.isDirectory() ? readDir(dir, name) : [{ name, read: () => readFile(join(dir, name)) }];
+  }));
+  return nested.flat();
+};
+
+export const loadDeckPath = async (
+  path: string,
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  const isFolder = (await stat(path)).isDirectory();
+  const files = isFolder ? await readDir(path) : [{ name: basename(path), read: () => readFile(path) }];
+  const detected = detectDeckFormat(files.map(f => f.name));
+  // A folder is only ever an image set
+  const format = isFolder && detected !== 'images' ? null : detected;
+  if (!format) throw new Error(`${path}: ${t('error.deckFormat')}`);
+  if (format === 'pdf') return rasterizePdfFile(path, deckId, onProgress, signal);
+  return loadDeck(nodeDeckCanvas, format, files, deckId, onProgress, signal);
+};
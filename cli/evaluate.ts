@@ -0,0 +1,266 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { SlideMatch } from '../types';
+import { MatcherKind } from '../matchers';
+import { exportResults } from '../exporters';
+import { describeError } from '../providers/errors';
+import { GroundTruth, parseGroundTruth } from '../evaluation/groundTruth';
+import { DEFAULT_TOLERANCE, EvaluationReport, evaluateMatches, matchesFromDocument } from '../evaluation/evaluate';
+import { DEFAULT_SAMPLING } from '../video/sampling';
+import { LOCALES, MessageKey, t } from '../i18n';
+import { Talk } from './manifest';
+import {
+  MATCHER_KINDS, TalkOptions, analyzeTalk, applyCliLocale, loadReplay, positiveNumber, resolveApiKey, withChildSignal
+} from './talk';
+
+// --- Sync Accuracy Evaluation ---
+// npm run evaluate -- --fixtures fixtures --matcher local --matcher gemini:gemini-2.5-pro
+// npm run evaluate -- --truth keynote.truth.json before.json after.json
+//
+// A fixtures folder holds *.truth.json files next to the video and PDFs they name.
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+const TRUTH_SUFFIX = '.truth.json';
+
+const usage = () => t('cli.evaluateUsage', {
+  suffix: TRUTH_SUFFIX,
+  matchers: MATCHER_KINDS.join(' | '),
+  maxFrames: DEFAULT_SAMPLING.maxFrames,
+  tolerance: DEFAULT_TOLERANCE,
+  locales: LOCALES.map(l => l.locale).join(' | '),
+});
+
+interface RunSpec {
+  label: string;   // Column in the report: matcher[:model] or the results file name
+  options?: TalkOptions;
+  file?: string;
+}
+
+interface Fixture {
+  name: string;
+  truth: GroundTruth;
+  talk?: Talk; // Missing in --truth mode
+}
+
+interface Row {
+  fixture: string;
+  run: string;
+  report?: EvaluationReport;
+  error?: string;
+}
+
+const parseCli = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      fixtures: { type: 'string' },
+      truth: { type: 'string' },
+      matcher: { type: 'string', multiple: true },
+      'api-key': { type: 'string' },
+      'base-url': { type: 'string' },
+      replay: { type: 'string' },
+      'max-frames': { type: 'string' },
+      'token-budget': { type: 'string' },
+      'no-refine': { type: 'boolean', default: false },
+      'no-verify': { type: 'boolean', default: false },
+      ffmpeg: { type: 'string' },
+      tolerance: { type: 'string' },
+      save: { type: 'string' },
+      json: { type: 'string' },
+      lang: { type: 'string' },
+      quiet: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+  if (!!values.fixtures === !!values.truth) throw new Error(t('cli.evaluateModeMissing'));
+  const tolerance = positiveNumber('tolerance', values.tolerance) ?? DEFAULT_TOLERANCE;
+  const common = { tolerance, save: values.save ? resolve(values.save) : undefined, json: values.json, quiet: values.quiet! };
+
+  // Existing results against one ground-truth file
+  if (values.truth) {
+    if (positionals.length === 0) throw new Error(t('cli.truthResultsMissing'));
+    const truth = parseGroundTruth(await readFile(values.truth, 'utf8'), values.truth);
+    return {
+      ...common,
+      fixtures: [{ name: basename(values.truth, TRUTH_SUFFIX), truth }] as Fixture[],
+      runs: positionals.map((file): RunSpec => ({ label: basename(file), file: resolve(file) })),
+    };
+  }
+
+  const dir = resolve(values.fixtures!);
+  const names = (await readdir(dir)).filter(f => f.endsWith(TRUTH_SUFFIX)).sort();
+  if (names.length === 0) throw new Error(t('cli.noFixtures', { dir, suffix: TRUTH_SUFFIX }));
+  const fixtures = await Promise.all(names.map(async (name): Promise<Fixture> => {
+    const truth = parseGroundTruth(await readFile(join(dir, name), 'utf8'), name);
+    if (!truth.video.fileName) throw new Error(t('cli.fixtureVideoMissing', { name }));
+    const fixtureName = basename(name, TRUTH_SUFFIX);
+    return {
+      name: fixtureName,
+      truth,
+      talk: {
+        name: fixtureName,
+        videos: [join(dir, truth.video.fileName)],
+        // Deck ids follow the list order, as in the app
+        decks: [...truth.decks].sort((a, b) => a.deckId - b.deckId).map(d => ({ file: join(dir, d.fileName), label: d.label })),
+      },
+    };
+  }));
+
+  const replay = values.replay ? await loadReplay(values.replay) : undefined;
+  const runs = (values.matcher ?? ['gemini']).map((spec): RunSpec => {
+    const [kind, ...model] = spec.split(':');
+    const matcher = kind as MatcherKind;
+    if (!MATCHER_KINDS.includes(matcher)) throw new Error(t('cli.unknownMatcher', { value: kind }));
+    const apiKey = resolveApiKey(matcher, values['api-key']);
+    if (matcher === 'gemini' && !apiKey) throw new Error(t('cli.geminiKeyMissing'));
+    if (matcher === 'openai' && (!values['base-url'] || model.length === 0)) throw new Error(t('cli.evaluateOpenaiSettingsMissing'));
+    if (matcher === 'mock' && !replay) throw new Error(t('cli.replayMissing'));
+    return {
+      label: spec,
+      options: {
+        matcher,
+        apiKey,
+        model: model.length > 0 ? model.join(':') : undefined,
+        baseUrl: values['base-url'],
+        replay,
+        sampling: {
+          ...DEFAULT_SAMPLING,
+          maxFrames: positiveNumber('max-frames', values['max-frames']) ?? DEFAULT_SAMPLING.maxFrames,
+          tokenBudget: positiveNumber('token-budget', values['token-budget']),
+        },
+        refine: !values['no-refine'],
+        verify: !values['no-verify'],
+        ffmpeg: values.ffmpeg ?? process.env.FFMPEG_PATH ?? 'ffmpeg',
+        quiet: values.quiet!,
+      },
+    };
+  });
+  return { ...common, fixtures, runs };
+};
+
+type ParsedCli = NonNullable<Awaited<ReturnType<typeof parseCli>>>;
+
+// Predicted transitions for one fixture and run; analyses are saved when asked to
+const predict = async (fixture: Fixture, run: RunSpec, cli: ParsedCli, signal: AbortSignal): Promise<SlideMatch[]> => {
+  if (run.file) return matchesFromDocument(JSON.parse(await readFile(run.file, 'utf8')));
+
+  const result = await withChildSignal(signal, s => analyzeTalk(fixture.talk!, run.options!, s));
+  if (cli.save) {
+    await mkdir(cli.save, { recursive: true });
+    const file = join(cli.save, `${fixture.name}.${run.label.replace(/[^\w.-]+/g, '_')}.json`);
+    await writeFile(file, exportResults('json', result.matches, {
+      decks: result.decks,
+      duration: result.duration,
+      videoFileName: fixture.truth.video.fileName ?? undefined,
+      matcher: run.options!.matcher,
+      sampling: run.options!.sampling,
+      frameCount: result.videoFrames.length,
+    }), 'utf8');
+  }
+  return result.matches;
+};
+
+// --- Report Table ---
+
+const percent = (v: number | null | undefined) => (v === null || v === undefined ? '—' : `${(v * 100).toFixed(1)}%`);
+const secs = (v: number | undefined) => (v === undefined ? '—' : v.toFixed(2));
+
+// CJK characters take two terminal columns
+const displayWidth = (text: string) => [...text].reduce((w, ch) => w + (/[\u1100-\uffff]/.test(ch) ? 2 : 1), 0);
+const pad = (text: string, width: number) => text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+
+const COLUMNS: { title: MessageKey; value: (r: EvaluationReport) => string }[] = [
+  { title: 'cli.column.pageAccuracy', value: r => percent(r.pageAccuracy) },
+  { title: 'cli.column.timeAccuracy', value: r => percent(r.timeAccuracy) },
+  { title: 'cli.column.recall', value: r => percent(r.recall) },
+  { title: 'cli.column.precision', value: r => percent(r.precision) },
+  { title: 'cli.column.missedSpurious', value: r => `${r.missed.length}/${r.spurious.length}` },
+  { title: 'cli.column.meanError', value: r => secs(r.timing?.mean) },
+  { title: 'cli.column.medianError', value: r => secs(r.timing?.median) },
+];
+
+const mean = (values: (number | null | undefined)[]) => {
+  const known = values.filter((v): v is number => typeof v === 'number');
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : null;
+};
+
+const formatTable = (rows: Row[], runs: RunSpec[]): string => {
+  const lines: string[][] = [[t('cli.column.fixture'), t('cli.column.run'), ...COLUMNS.map(c => t(c.title))]];
+  rows.forEach(row => lines.push(row.report
+    ? [row.fixture, row.run, ...COLUMNS.map(c => c.value(row.report!))]
+    : [row.fixture, row.run, t('cli.failed', { message: row.error! })]));
+
+  // Per-run averages over fixtures, the line to compare
+  const fixtureCount = new Set(rows.map(r => r.fixture)).size;
+  if (fixtureCount > 1) {
+    runs.forEach(run => {
+      const reports = rows.filter(r => r.run === run.label && r.report).map(r => r.report!);
+      if (reports.length === 0) return;
+      lines.push([t('cli.average'), run.label,
+        percent(mean(reports.map(r => r.pageAccuracy))),
+        percent(mean(reports.map(r => r.timeAccuracy))),
+        percent(mean(reports.map(r => r.recall))),
+        percent(mean(reports.map(r => r.precision))),
+        `${reports.reduce((a, r) => a + r.missed.length, 0)}/${reports.reduce((a, r) => a + r.spurious.length, 0)}`,
+        secs(mean(reports.map(r => r.timing?.mean)) ?? undefined),
+        secs(mean(reports.map(r => r.timing?.median)) ?? undefined),
+      ]);
+    });
+  }
+
+  // Failure messages run past the columns instead of widening them
+  const full = lines.filter(l => l.length === lines[0].length);
+  const widths = lines[0].map((_, i) => Math.max(...full.map(l => displayWidth(l[i]))));
+  return lines.map(l => l.map((cell, i) => pad(cell, widths[i])).join('  ').trimEnd()).join('\n') + '\n';
+};
+
+const main = async (): Promise<number> => {
+  let cli: Awaited<ReturnType<typeof parseCli>>;
+  try {
+    applyCliLocale(process.argv.slice(2));
+    cli = await parseCli(process.argv.slice(2));
+  } catch (e: any) {
+    process.stderr.write(`${e.message}\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+  if (!cli) {
+    process.stdout.write(usage());
+    return EXIT_OK;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const rows: Row[] = [];
+  for (const fixture of cli.fixtures) {
+    for (const run of cli.runs) {
+      if (controller.signal.aborted) break;
+      try {
+        const predicted = await predict(fixture, run, cli, controller.signal);
+        rows.push({ fixture: fixture.name, run: run.label, report: evaluateMatches(predicted, fixture.truth, cli.tolerance) });
+      } catch (e: any) {
+        if (controller.signal.aborted) break;
+        rows.push({ fixture: fixture.name, run: run.label, error: describeError(e) });
+      }
+    }
+  }
+  if (controller.signal.aborted) {
+    process.stderr.write(`${t('cli.interrupted')}\n`);
+    return EXIT_INTERRUPTED;
+  }
+
+  process.stdout.write(formatTable(rows, cli.runs));
+  if (cli.json) {
+    await writeFile(cli.json, JSON.stringify({ tolerance: cli.tolerance, results: rows }, null, 2) + '\n', 'utf8');
+  }
+  return rows.some(r => r.error) ? EXIT_FAILED : EXIT_OK;
+};
+
+main().then(code => { process.exitCode = code; });
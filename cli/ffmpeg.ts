@@ -0,0 +1,215 @@
+import { spawn } from 'node:child_process';
+import { VideoFrameImage } from '../types';
+import { abortError } from '../utils/abort';
+import { formatTime } from '../utils/time';
+import { GrayGrabber } from '../video/bisect';
+import { VideoExtraction } from '../video/frames';
+import { FrameGrabber } from '../pipeline/verify';
+import {
+  FRAME_QUALITY, FRAME_WIDTH, SCAN_WIDTH, SamplingOptions, ScanPoint, VERIFY_QUALITY,
+  detectCuts, grayDiff, planSampleTimes, scanInterval
+} from '../video/sampling';
+import { Quad, detectSlideRegion, isFullFrame, regionSize } from '../video/region';
+import { t } from '../i18n';
+
+// --- Video Frame Extraction (ffmpeg) ---
+// Same two passes as the browser extractor, decoded by a locally installed ffmpeg.
+
+export interface VideoInfo {
+  duration: number; // Seconds
+  width: number;
+  height: number;
+}
+
+// Runs ffmpeg and collects stdout; `onData` sees each chunk as it arrives
+const runFfmpeg = (
+  ffmpeg: string,
+  args: string[],
+  signal?: AbortSignal,
+  onData?: (chunk: Buffer) => void
+): Promise<{ stdout: Buffer; stderr: string; code: number | null }> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const child = spawn(ffmpeg, ['-hide_banner', ...args], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const onAbort = () => child.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      onData?.(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', (e: NodeJS.ErrnoException) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(e.code === 'ENOENT' ? new Error(t('cli.ffmpegMissing', { path: ffmpeg })) : e);
+    });
+    child.on('close', (code) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) return reject(abortError());
+      resolve({ stdout: Buffer.concat(chunks), stderr, code });
+    });
+  });
+};
+
+const checked = async (result: Promise<{ stdout: Buffer; stderr: string; code: number | null }>) => {
+  const { stdout, stderr, code } = await result;
+  if (code !== 0) {
+    throw new Error(t('cli.ffmpegFailed', { code: String(code), message: stderr.trim().split('\n').slice(-3).join(' ') }));
+  }
+  return stdout;
+};
+
+// `ffmpeg -i` without an output prints the stream info and exits non-zero; only the banner matters
+export const probeVideo = async (ffmpeg: string, path: string): Promise<VideoInfo> => {
+  const { stderr } = await runFfmpeg(ffmpeg, ['-i', path]);
+  const duration = stderr.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  const size = stderr.match(/Video:.*?\b(\d{2,5})x(\d{2,5})\b/);
+  if (!duration || !size) {
+    throw new Error(t('cli.videoInfo', { path }));
+  }
+  return {
+    duration: Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]),
+    width: Number(size[1]),
+    height: Number(size[2]),
+  };
+};
+
+const scaledHeight = (info: VideoInfo, width: number) =>
+  Math.max(1, Math.round((info.height * Math.min(width, info.width)) / info.width));
+
+// Output size of a frame `width` wide: the whole frame, or the corrected slide region
+const frameSize = (info: VideoInfo, width: number, region?: Quad | null) => {
+  if (isFullFrame(region)) return { w: Math.min(width, info.width), h: scaledHeight(info, width) };
+  const { width: w, height: h } = regionSize(region!, info.width, info.height, width);
+  return { w, h };
+};
+
+// Filter chain scaling to `size`; ffmpeg's perspective filter takes the corners as TL, TR, BL, BR
+const scaleFilter = (info: VideoInfo, size: { w: number; h: number }, region?: Quad | null) => {
+  const scale = `scale=${size.w}:${size.h}`;
+  if (isFullFrame(region)) return scale;
+  const [tl, tr, br, bl] = region!;
+  const corners = [tl, tr, bl, br].map(p => `${(p.x * info.width).toFixed(1)}:${(p.y * info.height).toFixed(1)}`).join(':');
+  return `perspective=${corners}:interpolation=linear,${scale}`;
+};
+
+// One raw gray frame at `time`, `width` pixels wide (of the slide region when one is set)
+export const createGrayGrabber = (
+  ffmpeg: string,
+  path: string,
+  info: VideoInfo,
+  width: number,
+  signal?: AbortSignal,
+  region?: Quad | null
+): GrayGrabber => {
+  const size = frameSize(info, width, region);
+  return async (time: number) => checked(runFfmpeg(ffmpeg, [
+    '-v', 'error', '-ss', time.toFixed(3), '-i', path, '-frames:v', '1',
+    '-vf', `${scaleFilter(info, size, region)},format=gray`, '-f', 'rawvideo', '-pix_fmt', 'gray', 'pipe:1',
+  ], signal));
+};
+
+// Resolution and sample points for automatic region detection
+const DETECT_WIDTH = 160;
+const DETECT_AT = [0.25, 0.5, 0.75];
+
+// First slide region found at a few points in the talk, or null for the whole frame
+export const detectVideoRegion = async (ffmpeg: string, path: string, info: VideoInfo, signal?: AbortSignal): Promise<Quad | null> => {
+  const grab = createGrayGrabber(ffmpeg, path, info, DETECT_WIDTH, signal);
+  const { w, h } = frameSize(info, DETECT_WIDTH);
+  for (const at of DETECT_AT) {
+    const gray = await grab(info.duration * at);
+    if (gray.length < w * h) continue;
+    const region = detectSlideRegion(gray, w, h);
+    if (region) return region;
+  }
+  return null;
+};
+
+// Canvas JPEG quality (0..1) to the mjpeg qscale ffmpeg expects (2 best .. 31 worst)
+const toQscale = (quality: number) => Math.round(2 + (1 - quality) * 29);
+
+// Pass-2 filter for frames `width` wide; the height keeps the aspect ratio (even, for mjpeg)
+const jpegFilter = (info: VideoInfo, width: number, region?: Quad | null) =>
+  isFullFrame(region) ? `scale=${Math.min(width, info.width)}:-2` : scaleFilter(info, frameSize(info, width, region), region);
+
+// One JPEG at `time`; empty past the last decodable frame
+const grabJpeg = (ffmpeg: string, path: string, time: number, filter: string, quality: number, signal?: AbortSignal) =>
+  checked(runFfmpeg(ffmpeg, [
+    '-v', 'error', '-ss', time.toFixed(3), '-i', path, '-frames:v', '1',
+    '-vf', filter, '-q:v', String(toQscale(quality)),
+    '-f', 'image2', '-c:v', 'mjpeg', 'pipe:1',
+  ], signal));
+
+const toDataUrl = (jpeg: Buffer) => `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+
+// Sharp single frames for the verification pass; every grab is its own ffmpeg run
+export const createJpegGrabber = (
+  ffmpeg: string,
+  path: string,
+  info: VideoInfo,
+  width: number,
+  signal?: AbortSignal,
+  region?: Quad | null
+): FrameGrabber => {
+  const filter = jpegFilter(info, width, region);
+  return {
+    grab: async (time: number) => {
+      const jpeg = await grabJpeg(ffmpeg, path, time, filter, VERIFY_QUALITY, signal);
+      return jpeg.length > 0 ? toDataUrl(jpeg) : '';
+    },
+    close: () => {},
+  };
+};
+
+export const extractVideoFramesWithFfmpeg = async (
+  ffmpeg: string,
+  path: string,
+  options: SamplingOptions,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal,
+  region?: Quad | null
+): Promise<VideoExtraction> => {
+  const info = await probeVideo(ffmpeg, path);
+  const { duration } = info;
+
+  // Pass 1 (0-40%): one decode at the scan rate, tiny gray frames on stdout
+  const interval = scanInterval(duration, options);
+  const scanSize = frameSize(info, SCAN_WIDTH, region);
+  const frameBytes = scanSize.w * scanSize.h;
+  let received = 0;
+  const raw = await checked(runFfmpeg(ffmpeg, [
+    '-v', 'error', '-i', path,
+    '-vf', `fps=1/${interval},${scaleFilter(info, scanSize, region)},format=gray`, '-f', 'rawvideo', '-pix_fmt', 'gray', 'pipe:1',
+  ], signal, (chunk) => {
+    received += chunk.length;
+    onProgress(Math.min(1, (received / frameBytes) * interval / duration) * 40);
+  }));
+
+  const scan: ScanPoint[] = [];
+  for (let offset = 0, k = 0; offset + frameBytes <= raw.length; offset += frameBytes, k++) {
+    const gray = raw.subarray(offset, offset + frameBytes);
+    const previous = k > 0 ? raw.subarray(offset - frameBytes, offset) : null;
+    scan.push({ time: k * interval, diff: previous ? grayDiff(gray, previous) : 0 });
+  }
+  const times = planSampleTimes(duration, detectCuts(scan, options), options);
+
+  // Pass 2 (40-100%): one JPEG per planned time
+  const frames: VideoFrameImage[] = [];
+  const frameFilter = jpegFilter(info, FRAME_WIDTH, region);
+  for (let i = 0; i < times.length; i++) {
+    const jpeg = await grabJpeg(ffmpeg, path, times[i], frameFilter, FRAME_QUALITY, signal);
+    // A time at the very end can fall past the last decodable frame
+    if (jpeg.length > 0) {
+      frames.push({
+        timestamp: times[i],
+        timeString: formatTime(times[i]),
+        dataUrl: toDataUrl(jpeg),
+      });
+    }
+    onProgress(40 + ((i + 1) / times.length) * 60);
+  }
+  return { frames, duration };
+};
@@ -0,0 +1,255 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { MatcherKind } from '../matchers';
+import { EXPORT_FORMATS, ExportContext, ExportFormat, exportResults, exportResultsByPart } from '../exporters';
+import { DEFAULT_GEMINI_MODEL } from '../providers/gemini';
+import { describeError } from '../providers/errors';
+import { DEFAULT_SAMPLING } from '../video/sampling';
+import { isMultiPart } from '../video/parts';
+import { formatTime } from '../utils/time';
+import { LOCALES, getLocale, isLocale, t } from '../i18n';
+import { Talk, loadManifest, parseRegion, talkName } from './manifest';
+import {
+  MATCHER_KINDS, TalkOptions, analyzeTalk, applyCliLocale, loadReplay, positiveNumber, resolveApiKey, withChildSignal
+} from './talk';
+
+// --- Batch Command Line ---
+// npm run cli -- --video talk.mp4 --deck a.pdf --deck b.pdf --out exports
+// npm run cli -- --video part1.mp4 --video part2.mp4 --deck a.pdf --split-parts
+// npm run cli -- --manifest conference.json --matcher local
+
+// Exit codes, stable for scripts
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;      // At least one talk could not be processed
+const EXIT_USAGE = 2;       // Bad options or manifest
+const EXIT_PARTIAL = 3;     // Every talk finished, but some model output was cut off
+const EXIT_INTERRUPTED = 130;
+
+// Ground truth is meant to be corrected by hand first, so it is only written on request
+const DEFAULT_FORMATS = EXPORT_FORMATS.map(f => f.format).filter(f => f !== 'ground-truth');
+
+const usage = () => t('cli.usage', {
+  matchers: MATCHER_KINDS.join(' | '),
+  defaultModel: DEFAULT_GEMINI_MODEL,
+  formats: EXPORT_FORMATS.map(f => f.format).join(','),
+  chapterFormats: EXPORT_FORMATS.filter(f => f.chapters).map(f => f.format).join(', '),
+  maxFrames: DEFAULT_SAMPLING.maxFrames,
+  locales: LOCALES.map(l => l.locale).join(' | '),
+  exitOk: EXIT_OK,
+  exitFailed: EXIT_FAILED,
+  exitUsage: EXIT_USAGE,
+  exitPartial: EXIT_PARTIAL,
+  exitInterrupted: EXIT_INTERRUPTED,
+});
+
+interface CliOptions extends TalkOptions {
+  out: string;
+  formats: ExportFormat[];
+  splitParts: boolean; // Chapter formats of multi-part talks once per part
+}
+
+const parseCli = async (argv: string[]): Promise<{ talks: Talk[]; options: CliOptions } | null> => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      video: { type: 'string', multiple: true },
+      deck: { type: 'string', multiple: true },
+      label: { type: 'string', multiple: true },
+      manifest: { type: 'string' },
+      matcher: { type: 'string', default: 'gemini' },
+      'api-key': { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      replay: { type: 'string' },
+      out: { type: 'string', default: '.' },
+      format: { type: 'string' },
+      'split-parts': { type: 'boolean', default: false },
+      'max-frames': { type: 'string' },
+      'token-budget': { type: 'string' },
+      'max-tokens': { type: 'string' },
+      'max-cost': { type: 'string' },
+      lang: { type: 'string' },
+      'output-language': { type: 'string' },
+      'no-refine': { type: 'boolean', default: false },
+      'no-verify': { type: 'boolean', default: false },
+      captions: { type: 'string' },
+      region: { type: 'string' },
+      transcribe: { type: 'boolean', default: false },
+      ffmpeg: { type: 'string' },
+      quiet: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const matcher = values.matcher as MatcherKind;
+  if (!MATCHER_KINDS.includes(matcher)) {
+    throw new Error(t('cli.unknownMatcher', { value: values.matcher }));
+  }
+  const formats = values.format
+    ? values.format.split(',').map(f => f.trim() as ExportFormat)
+    : DEFAULT_FORMATS;
+  const unknown = formats.find(f => !EXPORT_FORMATS.some(spec => spec.format === f));
+  if (unknown) throw new Error(t('cli.unknownFormat', { value: unknown }));
+  const outputLanguage = values['output-language'] ?? getLocale();
+  if (!isLocale(outputLanguage)) throw new Error(t('cli.unknownOutputLanguage', { value: outputLanguage }));
+
+  let talks: Talk[];
+  if (values.manifest) {
+    if (values.video || values.deck || values.captions || values.region) {
+      throw new Error(t('cli.manifestExclusive'));
+    }
+    talks = await loadManifest(values.manifest);
+  } else {
+    if (!values.video?.length || !values.deck?.length) throw new Error(t('cli.inputsMissing'));
+    talks = [{
+      name: talkName(values.video[0]),
+      videos: values.video.map(video => resolve(video)),
+      decks: values.deck.map((file, i) => ({ file: resolve(file), label: values.label?.[i] })),
+      captions: values.captions ? resolve(values.captions) : undefined,
+      region: values.region ? parseRegion(values.region) : undefined,
+    }];
+  }
+
+  const apiKey = resolveApiKey(matcher, values['api-key']);
+  if (matcher === 'gemini' && !apiKey) throw new Error(t('cli.geminiKeyMissing'));
+  if (matcher === 'openai' && (!values['base-url'] || !values.model)) throw new Error(t('cli.openaiSettingsMissing'));
+  if (matcher === 'mock' && !values.replay) throw new Error(t('cli.replayMissing'));
+  const replay = values.replay ? await loadReplay(values.replay) : undefined;
+  // Transcription always goes to Gemini, whichever matcher is used
+  const geminiKey = matcher === 'gemini' ? apiKey : resolveApiKey('gemini');
+  if (values.transcribe && !geminiKey) throw new Error(t('cli.transcribeKeyMissing'));
+
+  return {
+    talks,
+    options: {
+      matcher,
+      apiKey,
+      model: values.model,
+      baseUrl: values['base-url'],
+      replay,
+      out: resolve(values.out!),
+      formats,
+      splitParts: values['split-parts']!,
+      sampling: {
+        ...DEFAULT_SAMPLING,
+        maxFrames: positiveNumber('max-frames', values['max-frames']) ?? DEFAULT_SAMPLING.maxFrames,
+        tokenBudget: positiveNumber('token-budget', values['token-budget']),
+      },
+      refine: !values['no-refine'],
+      verify: !values['no-verify'],
+      budget: {
+        maxTokens: positiveNumber('max-tokens', values['max-tokens']),
+        maxCostUsd: positiveNumber('max-cost', values['max-cost']),
+      },
+      outputLanguage,
+      transcribe: values.transcribe
+        ? { apiKey: geminiKey!, model: matcher === 'gemini' && values.model ? values.model : DEFAULT_GEMINI_MODEL }
+        : undefined,
+      ffmpeg: values.ffmpeg ?? process.env.FFMPEG_PATH ?? 'ffmpeg',
+      quiet: values.quiet!,
+    },
+  };
+};
+
+const runTalk = async (talk: Talk, options: CliOptions, signal: AbortSignal): Promise<{ partial: boolean }> => {
+  const run = await analyzeTalk(talk, options, signal);
+
+  const outDir = talk.out ?? options.out;
+  await mkdir(outDir, { recursive: true });
+  const ctx: ExportContext = {
+    decks: run.decks,
+    duration: run.duration,
+    videoFileName: basename(talk.videos[0]),
+    parts: run.parts,
+    matcher: options.matcher,
+    sampling: options.sampling,
+    frameCount: run.videoFrames.length,
+    pages: run.pdfImages,
+    transcript: run.transcript,
+  };
+  const write = async (file: string, text: string) => {
+    await writeFile(file, text, 'utf8');
+    if (!options.quiet) process.stderr.write(`[${talk.name}] ${t('cli.wrote', { file })}\n`);
+  };
+  for (const format of options.formats) {
+    const spec = EXPORT_FORMATS.find(f => f.format === format)!;
+    if (options.splitParts && spec.chapters && isMultiPart(run.parts)) {
+      for (const { part, text } of exportResultsByPart(format, run.matches, ctx)) {
+        await write(join(outDir, `${talk.name}.part${part.part}.${spec.extension}`), text);
+      }
+    } else {
+      await write(join(outDir, `${talk.name}.${spec.extension}`), exportResults(format, run.matches, ctx));
+    }
+  }
+  if (run.transcriptError) {
+    process.stderr.write(`[${talk.name}] ${t('cli.transcriptFailed', { message: run.transcriptError })}\n`);
+  }
+  if (run.repairs.length > 0 && !options.quiet) {
+    process.stderr.write(`[${talk.name}] ${t('cli.repairs', { count: run.repairs.length })}\n`);
+  }
+  if (run.verification && run.verification.records.length > 0 && !options.quiet) {
+    const count = (verdict: string) => run.verification!.records.filter(r => r.verdict === verdict).length;
+    const summary = t('cli.verification', {
+      count: run.verification.records.length,
+      confirmed: count('confirmed'),
+      corrected: count('corrected'),
+      rejected: count('rejected'),
+    });
+    const failed = run.verification.records.filter(r => r.verdict === 'failed');
+    const failures = failed.length > 0
+      ? t('cli.verificationFailed', { count: failed.length, time: formatTime(failed[0].seconds), detail: failed[0].detail })
+      : '';
+    process.stderr.write(`[${talk.name}] ${summary}${failures}\n`);
+  }
+  return { partial: run.outcome.partial };
+};
+
+const main = async (): Promise<number> => {
+  let parsed: Awaited<ReturnType<typeof parseCli>>;
+  try {
+    applyCliLocale(process.argv.slice(2));
+    parsed = await parseCli(process.argv.slice(2));
+  } catch (e: any) {
+    process.stderr.write(`${e.message}\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+  if (!parsed) {
+    process.stdout.write(usage());
+    return EXIT_OK;
+  }
+
+  const { talks, options } = parsed;
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  let failed = 0;
+  let partial = 0;
+  // One talk at a time: each run already keeps ffmpeg and the model busy
+  for (const talk of talks) {
+    if (controller.signal.aborted) break;
+    try {
+      const result = await withChildSignal(controller.signal, signal => runTalk(talk, options, signal));
+      if (result.partial) partial++;
+    } catch (e: any) {
+      if (controller.signal.aborted) break;
+      failed++;
+      process.stderr.write(`[${talk.name}] ${t('cli.failed', { message: describeError(e) })}\n`);
+    }
+  }
+
+  if (controller.signal.aborted) {
+    process.stderr.write(`${t('cli.interrupted')}\n`);
+    return EXIT_INTERRUPTED;
+  }
+  if (talks.length > 1 && !options.quiet) {
+    const summary = t('cli.summary', { done: talks.length - failed, total: talks.length });
+    process.stderr.write(`${summary}${partial ? t('cli.summaryPartial', { count: partial }) : ''}\n`);
+  }
+  if (failed > 0) return EXIT_FAILED;
+  if (partial > 0) return EXIT_PARTIAL;
+  return EXIT_OK;
+};
+
+main().then(code => { process.exitCode = code; });
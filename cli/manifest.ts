@@ -0,0 +1,75 @@
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { Quad } from '../video/region';
+import { t } from '../i18n';
+
+// --- Batch Manifest ---
+// {
+//   "talks": [
+//     { "name": "keynote", "video": "keynote.mp4", "decks": ["intro.pdf", { "file": "demo.pdf", "label": "Demo" }], "out": "exports/keynote", "captions": "keynote.vtt" },
+//     { "name": "workshop", "video": ["workshop-am.mp4", "workshop-pm.mp4"], "decks": ["workshop.pdf"] }
+//   ]
+// }
+// Paths are relative to the manifest file; a deck is a PDF, .pptx, zip of images
+// or folder of images, and a list of videos is one talk recorded in parts, in
+// playing order. `name`, `out`, `captions` and `region` are optional.
+
+export interface TalkDeck {
+  file: string;
+  label?: string;
+}
+
+export interface Talk {
+  name: string;   // Base name of the export files
+  videos: string[]; // Parts of one recording, in order; usually just one
+  decks: TalkDeck[];
+  out?: string;   // Output directory; the --out option when missing
+  captions?: string; // WebVTT / SRT file used as the transcript, on the combined timeline of the parts
+  region?: Quad | 'auto'; // Slide area in the video, see parseRegion
+}
+
+// "auto", or eight numbers 0..1: the x,y of the top-left, top-right, bottom-right
+// and bottom-left corners as fractions of the video frame
+export const parseRegion = (value: string): Quad | 'auto' => {
+  if (value.trim() === 'auto') return 'auto';
+  const n = value.split(',').map(v => Number(v.trim()));
+  if (n.length !== 8 || n.some(v => !Number.isFinite(v) || v < 0 || v > 1)) {
+    throw new Error(t('cli.badRegion', { value }));
+  }
+  return [0, 1, 2, 3].map(i => ({ x: n[i * 2], y: n[i * 2 + 1] })) as Quad;
+};
+
+export const talkName = (video: string) => basename(video, extname(video));
+
+export const loadManifest = async (path: string): Promise<Talk[]> => {
+  let doc: any;
+  try {
+    doc = JSON.parse(await readFile(path, 'utf8'));
+  } catch (e: any) {
+    throw new Error(t('cli.manifestUnreadable', { path, message: e.message }));
+  }
+  if (!Array.isArray(doc?.talks) || doc.talks.length === 0) {
+    throw new Error(t('cli.manifestNoTalks', { path }));
+  }
+
+  const base = dirname(resolve(path));
+  return doc.talks.map((talk: any, i: number): Talk => {
+    const videos: unknown[] = typeof talk?.video === 'string' ? [talk.video] : Array.isArray(talk?.video) ? talk.video : [];
+    if (videos.length === 0 || videos.some(v => typeof v !== 'string') || !Array.isArray(talk.decks) || talk.decks.length === 0) {
+      throw new Error(t('cli.manifestBadTalk', { index: i + 1 }));
+    }
+    const decks = talk.decks.map((deck: any, j: number): TalkDeck => {
+      const file = typeof deck === 'string' ? deck : deck?.file;
+      if (typeof file !== 'string') throw new Error(t('cli.manifestDeckPath', { index: i + 1, deck: j + 1 }));
+      return { file: resolve(base, file), label: typeof deck === 'string' ? undefined : deck.label };
+    });
+    return {
+      name: typeof talk.name === 'string' ? talk.name : talkName(videos[0] as string),
+      videos: videos.map(v => resolve(base, v as string)),
+      decks,
+      out: typeof talk.out === 'string' ? resolve(base, talk.out) : undefined,
+      captions: typeof talk.captions === 'string' ? resolve(base, talk.captions) : undefined,
+      region: typeof talk.region === 'string' ? parseRegion(talk.region) : undefined,
+    };
+  });
+};
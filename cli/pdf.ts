@@ -0,0 +1,65 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { PdfPageImage } from '../types';
+import { abortError } from '../utils/abort';
+import { summarizeTextLayer } from '../decks/textLayer';
+import { NodeCanvasFactory, installCanvasGlobals } from './canvas';
+
+// --- PDF Deck Rasterization (Node) ---
+// pdf.js legacy build, same page size and JPEG quality as the browser worker.
+
+const PAGE_WIDTH = 512;
+const PAGE_QUALITY = 70; // @napi-rs/canvas takes 0-100
+
+const require = createRequire(import.meta.url);
+
+const loadPdfjs = () => {
+  installCanvasGlobals();
+  return require('pdfjs-dist/legacy/build/pdf.js');
+};
+
+export const rasterizePdfFile = async (
+  path: string,
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  const pdfjsLib = loadPdfjs();
+  const pdfjsRoot = dirname(require.resolve('pdfjs-dist/package.json'));
+  const canvasFactory = new NodeCanvasFactory();
+
+  const pdf = await pdfjsLib.getDocument({
+    data: new Uint8Array(await readFile(path)),
+    cMapUrl: join(pdfjsRoot, 'cmaps') + '/',
+    cMapPacked: true,
+    standardFontDataUrl: join(pdfjsRoot, 'standard_fonts') + '/',
+    canvasFactory,
+    disableFontFace: true,
+  }).promise;
+
+  try {
+    const images: PdfPageImage[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      if (signal?.aborted) throw abortError();
+      const page = await pdf.getPage(i);
+      const base = page.getViewport({ scale: 1.0 });
+      const viewport = page.getViewport({ scale: Math.min(1.0, PAGE_WIDTH / base.width) });
+      const { canvas, context } = canvasFactory.create(Math.round(viewport.width), Math.round(viewport.height));
+      await page.render({ canvasContext: context, viewport }).promise;
+      const jpeg = await canvas.encode('jpeg', PAGE_QUALITY);
+      const { items } = await page.getTextContent();
+      images.push({
+        deckId,
+        pageNumber: i,
+        dataUrl: `data:image/jpeg;base64,${jpeg.toString('base64')}`,
+        ...summarizeTextLayer(items, base.height),
+      });
+      page.cleanup();
+      onProgress((i / pdf.numPages) * 100);
+    }
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
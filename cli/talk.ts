@@ -0,0 +1,218 @@
+import { openAsBlob } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { ProcessingStatus, VideoPart } from '../types';
+import { MATCHER_CHOICES, MatcherKind, createMatcher } from '../matchers';
+import { MockResponse } from '../providers/mock';
+import { FEATURE_HEIGHT, FEATURE_WIDTH } from '../matchers/similarity';
+import { PipelineResult, runPipeline } from '../pipeline/run';
+import { AnalysisBudget, BudgetFit, describeAdjustment, formatUsd } from '../pipeline/budget';
+import { bisectTransitions, REFINE_DEFAULTS } from '../video/bisect';
+import { SamplingOptions, VERIFY_WIDTH } from '../video/sampling';
+import { combineFrameGrabbers, extractParts, layoutParts, routeByPart, sequenceTranscribers } from '../video/parts';
+import { Transcriber } from '../transcripts/types';
+import { createCaptionTranscriber } from '../transcripts/captions';
+import { createGeminiTranscriber } from '../transcripts/gemini';
+import { decodeGray } from './canvas';
+import { createGrayGrabber, createJpegGrabber, detectVideoRegion, extractVideoFramesWithFfmpeg, probeVideo } from './ffmpeg';
+import { Talk } from './manifest';
+import { loadDeckPath } from './decks';
+import { Locale, isLocale, localeFromEnvironment, setLocale, t } from '../i18n';
+
+// --- One Talk, Headless ---
+// Runs the analysis pipeline for one talk with ffmpeg and pdf.js. Shared by the
+// batch command line and the evaluation script.
+
+// `mock` replays recorded responses and is not offered in the UI
+export const MATCHER_KINDS: MatcherKind[] = [...MATCHER_CHOICES.map(c => c.kind), 'mock'];
+
+export interface TalkOptions {
+  matcher: MatcherKind;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  replay?: MockResponse[];
+  sampling: SamplingOptions;
+  refine: boolean;
+  verify: boolean; // Second look at Medium/Low rows (model matchers)
+  budget?: AnalysisBudget; // Ceiling for model matchers
+  outputLanguage?: Locale; // Language of reasoning and titles (default: the message language)
+  transcribe?: { apiKey: string; model: string }; // Gemini transcription for talks without captions
+  ffmpeg: string;
+  quiet: boolean;
+}
+
+// Message and prompt language: --lang, else the locale variables. Read ahead of the
+// other options so that their errors come out in it.
+export const applyCliLocale = (argv: string[]) => {
+  setLocale(localeFromEnvironment(process.env));
+  const { values } = parseArgs({ args: argv, strict: false, allowPositionals: true, options: { lang: { type: 'string' } } });
+  if (values.lang === undefined) return;
+  if (!isLocale(values.lang)) throw new Error(t('cli.unknownLanguage', { value: String(values.lang) }));
+  setLocale(values.lang);
+};
+
+// A JSON array of responses, or a saved project (its rawResponses)
+export const loadReplay = async (path: string): Promise<MockResponse[]> => {
+  let doc: any;
+  try {
+    doc = JSON.parse(await readFile(path, 'utf8'));
+  } catch (e: any) {
+    throw new Error(t('cli.replayUnreadable', { path, message: e.message }));
+  }
+  const responses = Array.isArray(doc) ? doc : doc?.rawResponses;
+  if (!Array.isArray(responses)) throw new Error(t('cli.replayInvalid', { path }));
+  return responses;
+};
+
+export const positiveNumber = (name: string, value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(t('cli.positiveNumber', { name, value }));
+  return n;
+};
+
+// Explicit key, or the environment variable for the matcher's provider
+export const resolveApiKey = (matcher: MatcherKind, explicit?: string) =>
+  explicit ?? (matcher === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY ?? process.env.API_KEY);
+
+// Prints step changes and every 10% of progress to stderr
+export const createStatusLogger = (prefix: string, quiet: boolean) => {
+  let status: ProcessingStatus = { step: 'idle', message: '', progress: 0 };
+  let lastDecile = -1;
+  return (update: (prev: ProcessingStatus) => ProcessingStatus) => {
+    const next = update(status);
+    const decile = Math.floor(next.progress / 10);
+    if (!quiet && (next.step !== status.step || decile > lastDecile)) {
+      process.stderr.write(`${prefix} ${Math.round(next.progress).toString().padStart(3)}% ${next.message}\n`);
+      lastDecile = decile;
+    }
+    status = next;
+  };
+};
+
+// Runs `fn` with its own signal, aborted with `parent` and once `fn` settles:
+// a failed extraction stops the talk's other tasks too
+export const withChildSignal = async <T,>(parent: AbortSignal, fn: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  parent.addEventListener('abort', onAbort);
+  try {
+    return await fn(controller.signal);
+  } finally {
+    parent.removeEventListener('abort', onAbort);
+    controller.abort();
+  }
+};
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4', '.m4v': 'video/mp4', '.mov': 'video/quicktime', '.webm': 'video/webm', '.mkv': 'video/x-matroska',
+  '.mp3': 'audio/mpeg', '.m4a': 'audio/mp4', '.wav': 'audio/wav',
+};
+
+// Captions win over Gemini transcription, which hears each part on its own
+const createTalkTranscriber = async (talk: Talk, parts: VideoPart[], options: TalkOptions): Promise<Transcriber | null> => {
+  if (talk.captions) {
+    const file = talk.captions;
+    return createCaptionTranscriber(basename(file), () => readFile(file, 'utf8'));
+  }
+  if (options.transcribe) {
+    const transcribers = await Promise.all(talk.videos.map(async (video, i) => {
+      const mimeType = VIDEO_MIME_TYPES[extname(video).toLowerCase()] ?? 'video/mp4';
+      return createGeminiTranscriber({
+        ...options.transcribe!,
+        media: await openAsBlob(video, { type: mimeType }),
+        mimeType,
+        duration: parts[i].duration,
+      });
+    }));
+    return transcribers.length === 1 ? transcribers[0] : sequenceTranscribers(parts, transcribers);
+  }
+  return null;
+};
+
+// Runs are not interactive: the estimate is printed and the run goes ahead
+const logEstimate = (prefix: string, quiet: boolean) => ({ estimate, adjustments, withinBudget }: BudgetFit) => {
+  if (quiet) return true;
+  const input = estimate.inputTokens.toLocaleString();
+  const cost = estimate.costUsd === null ? '' : t('cli.estimateCost', { cost: formatUsd(estimate.costUsd) });
+  process.stderr.write(`${prefix} ${t('cli.estimate', {
+    requests: estimate.requests,
+    input: estimate.exact ? input : t('cli.estimateApprox', { count: input }),
+    output: estimate.maxOutputTokens.toLocaleString(),
+  })}${cost}\n`);
+  if (adjustments.length > 0) {
+    const list = adjustments.map(describeAdjustment).join(t('common.listSeparator'));
+    process.stderr.write(`${prefix} ${t('cli.budgetAdjusted', { adjustments: list })}\n`);
+  }
+  if (!withinBudget) process.stderr.write(`${prefix} ${t('cli.overBudget')}\n`);
+  return true;
+};
+
+export const analyzeTalk = async (talk: Talk, options: TalkOptions, signal: AbortSignal): Promise<PipelineResult> => {
+  const decode = (dataUrl: string) => decodeGray(dataUrl, FEATURE_WIDTH, FEATURE_HEIGHT);
+  const matcher = createMatcher(options.matcher, {
+    apiKey: options.apiKey,
+    model: options.model,
+    baseUrl: options.baseUrl,
+    replay: options.replay,
+    decode,
+    outputLanguage: options.outputLanguage,
+  });
+  // Parts play back to back; a single video is a talk of one part
+  const infos = await Promise.all(talk.videos.map(video => probeVideo(options.ffmpeg, video)));
+  const parts = layoutParts(talk.videos.map((video, i) => ({ fileName: basename(video), duration: infos[i].duration })));
+  const transcriber = await createTalkTranscriber(talk, parts, options);
+
+  // The slide region is found once per talk (in the first part) and used for every frame
+  let region = talk.region === 'auto' ? undefined : talk.region;
+  if (talk.region === 'auto') {
+    region = (await detectVideoRegion(options.ffmpeg, talk.videos[0], infos[0], signal)) ?? undefined;
+    if (!options.quiet) {
+      process.stderr.write(region
+        ? `[${talk.name}] ${t('cli.regionDetected', { region: region.map(p => `${p.x.toFixed(3)},${p.y.toFixed(3)}`).join(',') })}\n`
+        : `[${talk.name}] ${t('cli.regionNotDetected')}\n`);
+    }
+  }
+
+  return runPipeline(
+    matcher,
+    {
+      extractVideo: (onProgress, signal) => extractParts(
+        parts,
+        (part, onProgress, signal) => extractVideoFramesWithFfmpeg(options.ffmpeg, talk.videos[part.part - 1], options.sampling, onProgress, signal, region),
+        onProgress,
+        signal
+      ),
+      decks: talk.decks.map((deck, i) => ({
+        label: deck.label || t('deck.defaultLabel', { position: i + 1 }),
+        fileName: basename(deck.file),
+        rasterize: (deckId, onProgress, signal) => loadDeckPath(deck.file, deckId, onProgress, signal),
+      })),
+      refine: options.refine
+        ? (matches, frames, onProgress, signal) => {
+            const grab = routeByPart(parts, talk.videos.map((video, i) =>
+              createGrayGrabber(options.ffmpeg, video, infos[i], REFINE_DEFAULTS.width, signal, region)
+            ));
+            return bisectTransitions(grab, matches, frames, onProgress, signal);
+          }
+        : undefined,
+      verify: options.verify
+        ? {
+            open: async (signal) => combineFrameGrabbers(parts, talk.videos.map((video, i) =>
+              createJpegGrabber(options.ffmpeg, video, infos[i], VERIFY_WIDTH, signal, region)
+            )),
+            decode,
+          }
+        : undefined,
+      transcribe: transcriber ? transcriber.transcribe : undefined,
+      budget: options.budget,
+    },
+    {
+      onStatus: createStatusLogger(`[${talk.name}]`, options.quiet),
+      confirmEstimate: logEstimate(`[${talk.name}]`, options.quiet),
+    },
+    signal
+  );
+};
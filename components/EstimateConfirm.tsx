@@ -0,0 +1,71 @@
+import React from 'react';
+import { AlertTriangle, Coins, Play, XCircle } from 'lucide-react';
+import { BudgetFit, describeAdjustment, estimateTotalTokens, formatUsd } from '../pipeline/budget';
+import { t } from '../i18n';
+
+// --- Pre-flight Estimate ---
+// Shown between extraction and the first model request; nothing is sent until confirmed.
+
+interface EstimateConfirmProps {
+  fit: BudgetFit;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const EstimateConfirm = ({ fit, onConfirm, onCancel }: EstimateConfirmProps) => {
+  const { estimate, adjustments, withinBudget } = fit;
+  const rows = [
+    { label: t('estimate.requests'), value: estimate.requests.toLocaleString() },
+    { label: t(estimate.exact ? 'estimate.inputTokens' : 'estimate.inputTokensApprox'), value: estimate.inputTokens.toLocaleString() },
+    { label: t('estimate.maxOutputTokens'), value: estimate.maxOutputTokens.toLocaleString() },
+    { label: t('estimate.maxCost'), value: estimate.costUsd === null ? t('estimate.noPricing') : formatUsd(estimate.costUsd) },
+  ];
+
+  return (
+    <div className="bg-slate-900 rounded-xl p-8 border border-slate-800 space-y-5">
+      <div className="flex items-center space-x-3">
+        <Coins className="w-6 h-6 text-amber-400" />
+        <h2 className="text-xl font-medium">{t('estimate.title')}</h2>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {rows.map(row => (
+          <div key={row.label} className="bg-slate-800/50 rounded p-3">
+            <div className="text-xs text-slate-500">{row.label}</div>
+            <div className="text-slate-200 font-mono">{row.value}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-slate-500 text-xs">
+        {t('estimate.totalNote', { tokens: estimateTotalTokens(estimate).toLocaleString() })}
+      </p>
+      {adjustments.length > 0 && (
+        <div className="text-sm text-slate-300">
+          <span className="text-slate-400">{t('estimate.adjusted')}</span>
+          {adjustments.map(describeAdjustment).join(t('common.listSeparator'))}
+        </div>
+      )}
+      {!withinBudget && (
+        <div className="flex items-center space-x-2 text-sm text-amber-400">
+          <AlertTriangle className="w-4 h-4" />
+          <span>{t('estimate.overBudget')}</span>
+        </div>
+      )}
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center space-x-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm text-slate-300"
+        >
+          <XCircle className="w-4 h-4" />
+          <span>{t('common.cancel')}</span>
+        </button>
+        <button
+          onClick={onConfirm}
+          className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-sm text-white font-medium"
+        >
+          <Play className="w-4 h-4 fill-current" />
+          <span>{t('estimate.start')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
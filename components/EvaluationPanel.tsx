@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Target } from 'lucide-react';
+import { DeckInfo, SlideMatch } from '../types';
+import { GroundTruth, parseGroundTruth } from '../evaluation/groundTruth';
+import { DEFAULT_TOLERANCE, evaluateMatches } from '../evaluation/evaluate';
+import { formatTimeMs } from '../utils/time';
+import { t } from '../i18n';
+
+// --- Evaluation Against Ground Truth ---
+// Scores the current results (edits included) against a loaded ground-truth file.
+
+const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const seconds = (value: number | undefined) => (value === undefined ? '—' : t('common.seconds', { value: value.toFixed(2) }));
+
+interface EvaluationPanelProps {
+  results: SlideMatch[];
+  decks: DeckInfo[];
+  onSeek: (seconds: number) => void;
+}
+
+export const EvaluationPanel = ({ results, decks, onSeek }: EvaluationPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [truth, setTruth] = useState<GroundTruth | null>(null);
+  const [truthName, setTruthName] = useState('');
+  const [error, setError] = useState('');
+  const [tolerance, setTolerance] = useState(DEFAULT_TOLERANCE);
+  const report = useMemo(() => (truth ? evaluateMatches(results, truth, tolerance) : null), [results, truth, tolerance]);
+
+  const loadTruth = async (file: File) => {
+    try {
+      setTruth(parseGroundTruth(await file.text(), t('truth.fileSource', { name: file.name })));
+      setTruthName(file.name);
+      setError('');
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const pageLabel = (m: { deckId: number; pageNumber: number }) =>
+    `${decks.find(d => d.deckId === m.deckId)?.label || `DECK ${m.deckId}`} #${m.pageNumber}`;
+
+  // Every disagreement, in time order
+  const issues = report
+    ? [
+        ...report.missed.map(m => ({ seconds: m.seconds, kind: t('evaluation.missed'), detail: pageLabel(m) })),
+        ...report.spurious.map(m => ({ seconds: m.seconds, kind: t('evaluation.spurious'), detail: pageLabel(m) })),
+        ...report.pairs.filter(p => !p.samePage).map(p => ({
+          seconds: p.predicted.seconds,
+          kind: t('evaluation.wrongPage'),
+          detail: t('evaluation.wrongPageDetail', { predicted: pageLabel(p.predicted), expected: pageLabel(p.truth) }),
+        })),
+      ].sort((a, b) => a.seconds - b.seconds)
+    : [];
+
+  const metrics = report
+    ? [
+        { label: t('evaluation.pageAccuracy'), value: percent(report.pageAccuracy) },
+        { label: t('evaluation.timeAccuracy'), value: percent(report.timeAccuracy) },
+        { label: t('evaluation.recall'), value: t('evaluation.recallValue', { percent: percent(report.recall), count: report.missed.length }) },
+        { label: t('evaluation.precision'), value: t('evaluation.precisionValue', { percent: percent(report.precision), count: report.spurious.length }) },
+        { label: t('evaluation.meanError'), value: seconds(report.timing?.mean) },
+        { label: t('evaluation.medianError'), value: seconds(report.timing?.median) },
+        { label: t('evaluation.maxError'), value: seconds(report.timing?.max) },
+        { label: t('evaluation.bias'), value: seconds(report.timing?.bias) },
+      ]
+    : [];
+
+  return (
+    <div className="mx-6 mt-4 border border-slate-800 rounded-lg">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center space-x-2 p-3 text-sm text-slate-300 hover:bg-slate-800/50"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Target className="w-4 h-4 text-rose-400" />
+        <span>{t('evaluation.title')}</span>
+        {report && (
+          <span className="text-slate-500">
+            {t('evaluation.summary', { percent: percent(report.pageAccuracy), missed: report.missed.length, spurious: report.spurious.length })}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="border-t border-slate-800 p-4 space-y-4 text-sm">
+          <div className="flex flex-wrap items-center gap-3 text-slate-400">
+            <label className="cursor-pointer px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded text-slate-200">
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && loadTruth(e.target.files[0])}
+              />
+              {truthName || t('evaluation.loadTruth')}
+            </label>
+            <label className="flex items-center gap-2">
+              <span>{t('evaluation.tolerance')}</span>
+              <input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={tolerance}
+                onChange={(e) => setTolerance(Math.max(0.1, Number(e.target.value) || DEFAULT_TOLERANCE))}
+                className="w-20 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+              />
+              <span>{t('common.secondsUnit')}</span>
+            </label>
+            <span className="text-slate-500 text-xs">{t('evaluation.truthHint')}</span>
+          </div>
+          {error && <p className="text-red-400">{error}</p>}
+          {truth && truth.decks.length !== decks.length && (
+            <p className="text-amber-400 text-xs">{t('evaluation.deckMismatch', { truth: truth.decks.length, current: decks.length })}</p>
+          )}
+          {report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {metrics.map(m => (
+                  <div key={m.label} className="bg-slate-800/50 rounded p-3">
+                    <div className="text-xs text-slate-500">{m.label}</div>
+                    <div className="text-slate-200 font-mono">{m.value}</div>
+                  </div>
+                ))}
+              </div>
+              {issues.length > 0 && (
+                <ul className="divide-y divide-slate-800 border border-slate-800 rounded max-h-72 overflow-y-auto">
+                  {issues.map((issue, i) => (
+                    <li
+                      key={i}
+                      onClick={() => onSeek(issue.seconds)}
+                      className="px-4 py-2 flex items-center space-x-3 cursor-pointer hover:bg-slate-800/30"
+                    >
+                      <span className="font-mono text-blue-400 w-24">{formatTimeMs(issue.seconds)}</span>
+                      <span className="px-2 py-0.5 rounded bg-rose-500/10 text-rose-400 text-xs w-20 text-center">{issue.kind}</span>
+                      <span className="text-slate-300 flex-1">{issue.detail}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FolderOpen, Copy, Trash2, FileVideo, FileText } from 'lucide-react';
+import { ProjectRecord } from '../storage/projects';
+import { getLocale, t } from '../i18n';
+
+// --- Saved Projects ---
+
+interface ProjectListProps {
+  projects: ProjectRecord[];
+  onOpen: (project: ProjectRecord) => void;
+  onDuplicate: (project: ProjectRecord) => void;
+  onDelete: (project: ProjectRecord) => void;
+}
+
+export const ProjectList = ({ projects, onOpen, onDuplicate, onDelete }: ProjectListProps) => {
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
+      <div className="p-6 border-b border-slate-800">
+        <h2 className="text-xl font-bold">{t('projects.title')}</h2>
+        <p className="text-slate-400 text-sm mt-1">{t('projects.subtitle')}</p>
+      </div>
+      <ul className="divide-y divide-slate-800">
+        {projects.map(project => (
+          <li key={project.id} className="p-4 flex items-center justify-between hover:bg-slate-800/30">
+            <div className="min-w-0">
+              <p className="font-medium text-slate-200 truncate">{project.name}</p>
+              <p className="text-slate-500 text-xs mt-1 flex items-center flex-wrap gap-x-3">
+                <span className="flex items-center space-x-1">
+                  <FileVideo className="w-3 h-3" />
+                  <span>{project.video.fileName}</span>
+                </span>
+                <span className="flex items-center space-x-1">
+                  <FileText className="w-3 h-3" />
+                  <span>{t('projects.deckCount', { count: project.decks.length })}</span>
+                </span>
+                <span>{t('projects.transitionCount', { count: project.results.length })}</span>
+                <span>{t('projects.updatedAt', { time: new Date(project.updatedAt).toLocaleString(getLocale()) })}</span>
+              </p>
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+              <button
+                onClick={() => onOpen(project)}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-md text-sm"
+              >
+                <FolderOpen className="w-4 h-4" />
+                <span>{t('projects.open')}</span>
+              </button>
+              <button
+                onClick={() => onDuplicate(project)}
+                title={t('projects.duplicate')}
+                className="p-2 rounded-md text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDelete(project)}
+                title={t('projects.delete')}
+                className="p-2 rounded-md text-slate-400 hover:text-red-400 hover:bg-slate-800"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
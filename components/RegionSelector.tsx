@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Crop, MousePointerClick, RotateCcw, ScanSearch } from 'lucide-react';
+import { FRAME_WIDTH } from '../video/sampling';
+import { FULL_FRAME, Point, Quad, detectSlideRegion, isFullFrame, regionSize, sourceWidthFor, warpRgba } from '../video/region';
+import { createCanvas, readGray, seek } from '../video/frames';
+import { formatTime } from '../utils/time';
+import { t } from '../i18n';
+
+// --- Slide Region Selector ---
+// Preview of the video with the slide quad on top. Corners can be dragged, clicked
+// in one by one, or found automatically; the corrected result is shown alongside.
+
+// Resolution used for automatic detection
+const DETECT_WIDTH = 160;
+
+// Clicked corners in any order -> TL, TR, BR, BL (by angle around the centre)
+const orderCorners = (points: Point[]): Quad => {
+  const cx = points.reduce((a, p) => a + p.x, 0) / points.length;
+  const cy = points.reduce((a, p) => a + p.y, 0) / points.length;
+  const sorted = [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+  // atan2 order starts at the left; rotate so the corner closest to the origin comes first
+  const start = sorted.reduce((best, p, i) => (p.x + p.y < sorted[best].x + sorted[best].y ? i : best), 0);
+  return [0, 1, 2, 3].map(k => sorted[(start + k) % 4]) as Quad;
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+interface RegionSelectorProps {
+  videoUrl: string;
+  region: Quad | null;
+  onChange: (region: Quad | null) => void;
+}
+
+export const RegionSelector = ({ videoUrl, region, onChange }: RegionSelectorProps) => {
+  const [open, setOpen] = useState(!isFullFrame(region));
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(0);
+  const [clicks, setClicks] = useState<Point[] | null>(null); // Collected corners while picking
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [message, setMessage] = useState('');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const quad = region ?? FULL_FRAME;
+
+  // Rectified preview of the current frame
+  const drawPreview = () => {
+    const video = videoRef.current;
+    const target = previewRef.current;
+    if (!video || !target || !video.videoWidth) return;
+    const { canvas, ctx } = createCanvas(video, sourceWidthFor(quad, video.videoWidth, FRAME_WIDTH));
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const { width, height } = regionSize(quad, video.videoWidth, video.videoHeight, FRAME_WIDTH);
+    const pixels = warpRgba(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height, quad, width, height);
+    target.width = width;
+    target.height = height;
+    target.getContext('2d')?.putImageData(new ImageData(pixels, width, height), 0, 0);
+  };
+
+  useEffect(drawPreview, [region, open]);
+
+  const scrub = async (seconds: number) => {
+    setTime(seconds);
+    if (!videoRef.current) return;
+    await seek(videoRef.current, seconds);
+    drawPreview();
+  };
+
+  const pointAt = (e: React.PointerEvent): Point => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const onSurfaceClick = (e: React.PointerEvent) => {
+    if (!clicks) return;
+    const next = [...clicks, pointAt(e)];
+    if (next.length < 4) {
+      setClicks(next);
+      return;
+    }
+    setClicks(null);
+    onChange(orderCorners(next));
+  };
+
+  const onHandleMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const next = [...quad] as Quad;
+    next[dragging] = pointAt(e);
+    onChange(next);
+  };
+
+  const detect = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const { canvas, ctx } = createCanvas(video, DETECT_WIDTH);
+    const found = detectSlideRegion(readGray(video, canvas, ctx), canvas.width, canvas.height);
+    setMessage(found ? '' : t('region.notFound'));
+    if (found) onChange(found);
+  };
+
+  return (
+    <div className="border border-slate-800 rounded-lg">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center space-x-2 p-3 text-sm text-slate-300 hover:bg-slate-800/50"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Crop className="w-4 h-4 text-cyan-400" />
+        <span>{t('region.title')}</span>
+        <span className="text-slate-500 text-xs">
+          {isFullFrame(region) ? t('region.fullFrame') : t('region.set')}
+        </span>
+      </button>
+      {open && (
+        <div className="border-t border-slate-800 p-4 space-y-3">
+          <p className="text-slate-500 text-xs">
+            {t('region.help')}
+          </p>
+          <div className="grid md:grid-cols-3 gap-4 items-start">
+            <div className="md:col-span-2 space-y-2">
+              <div
+                ref={surfaceRef}
+                onPointerUp={onSurfaceClick}
+                onPointerMove={onHandleMove}
+                className={`relative select-none touch-none ${clicks ? 'cursor-crosshair' : ''}`}
+              >
+                <video
+                  ref={videoRef}
+                  src={videoUrl}
+                  muted
+                  playsInline
+                  preload="auto"
+                  onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+                  onLoadedData={drawPreview}
+                  className="w-full rounded border border-slate-700 block"
+                />
+                <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                  {!clicks && (
+                    <polygon
+                      points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                      className="fill-cyan-400/10 stroke-cyan-400"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )}
+                  {clicks && clicks.length > 1 && (
+                    <polyline
+                      points={clicks.map(p => `${p.x},${p.y}`).join(' ')}
+                      className="fill-none stroke-cyan-400"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )}
+                </svg>
+                {(clicks ?? quad).map((p, i) => (
+                  <div
+                    key={i}
+                    onPointerDown={(e) => {
+                      if (clicks) return;
+                      e.stopPropagation();
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      setDragging(i);
+                    }}
+                    onPointerUp={(e) => {
+                      if (clicks) return;
+                      e.stopPropagation();
+                      setDragging(null);
+                    }}
+                    style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                    className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-cyan-500 shadow ${
+                      clicks ? 'pointer-events-none' : 'cursor-move'
+                    }`}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center gap-3 text-xs text-slate-400">
+                <input
+                  type="range"
+                  min={0}
+                  max={duration || 0}
+                  step={0.1}
+                  value={time}
+                  onChange={(e) => scrub(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="font-mono w-12 text-right">{formatTime(time)}</span>
+              </div>
+            </div>
+            <div className="space-y-3">
+              <div className="text-xs text-slate-400">{t('region.corrected')}</div>
+              <canvas ref={previewRef} className="w-full rounded border border-slate-700" />
+              <div className="flex flex-wrap gap-2 text-sm">
+                <button
+                  onClick={detect}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded"
+                >
+                  <ScanSearch className="w-4 h-4" />
+                  <span>{t('region.detect')}</span>
+                </button>
+                <button
+                  onClick={() => setClicks(clicks ? null : [])}
+                  className={`flex items-center space-x-1 px-3 py-1.5 rounded ${clicks ? 'bg-cyan-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+                >
+                  <MousePointerClick className="w-4 h-4" />
+                  <span>{clicks ? t('region.clicking', { count: clicks.length }) : t('region.pickCorners')}</span>
+                </button>
+                <button
+                  onClick={() => { setClicks(null); setMessage(''); onChange(null); }}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>{t('region.fullFrame')}</span>
+                </button>
+              </div>
+              {message && <p className="text-amber-400 text-xs">{message}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Wrench } from 'lucide-react';
+import { DeckInfo } from '../types';
+import { Repair, RepairKind } from '../postprocess/sequence';
+import { formatTime } from '../utils/time';
+import { MessageKey, t } from '../i18n';
+
+// --- Sequence Repair Log ---
+// Lists every change the post-processing stage made to the matcher output.
+
+const KIND_LABELS: Record<RepairKind, MessageKey> = {
+  'reordered': 'repairLog.reordered',
+  'unknown-deck': 'repairLog.unknownDeck',
+  'page-clamped': 'repairLog.pageClamped',
+  'duplicate': 'repairLog.duplicate',
+  'out-of-sequence': 'repairLog.outOfSequence',
+};
+
+interface RepairLogProps {
+  repairs: Repair[];
+  decks: DeckInfo[];
+}
+
+export const RepairLog = ({ repairs, decks }: RepairLogProps) => {
+  const [open, setOpen] = useState(false);
+  if (repairs.length === 0) return null;
+
+  return (
+    <div className="mx-6 mt-4 border border-slate-800 rounded-lg">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center space-x-2 p-3 text-sm text-slate-300 hover:bg-slate-800/50"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <Wrench className="w-4 h-4 text-amber-400" />
+        <span>{t('repairLog.title', { count: repairs.length })}</span>
+      </button>
+      {open && (
+        <ul className="divide-y divide-slate-800 border-t border-slate-800 text-sm">
+          {repairs.map((repair, i) => (
+            <li key={i} className="px-4 py-2 flex items-center space-x-3">
+              <span className="font-mono text-blue-400 w-14">{formatTime(repair.seconds)}</span>
+              <span className="px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 text-xs w-20 text-center">
+                {t(KIND_LABELS[repair.kind])}
+              </span>
+              <span className="text-slate-400 w-40 truncate">
+                {decks.find(d => d.deckId === repair.deckId)?.label || `DECK ${repair.deckId}`} #{repair.pageNumber}
+              </span>
+              <span className="text-slate-300 flex-1">{repair.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
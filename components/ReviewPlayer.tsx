@@ -0,0 +1,191 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Keyboard } from 'lucide-react';
+import { DeckInfo, PdfPageImage, SlideMatch, VideoPart } from '../types';
+import { formatTime } from '../utils/time';
+import { formatPartTime, isMultiPart, partAt } from '../video/parts';
+import { t } from '../i18n';
+
+// --- Review Player ---
+// Video on the left, the deck page active at the playback position on the right.
+// A multi-part talk plays one part at a time; times in and out are combined seconds.
+
+// Index of the last transition that started by `seconds` (results are time-ordered), or -1 before the first one
+const findStartedIndex = (results: SlideMatch[], seconds: number): number => {
+  let started = -1;
+  for (let i = 0; i < results.length; i++) {
+    if (results[i].seconds > seconds) break;
+    started = i;
+  }
+  return started;
+};
+
+// Index of the transition on screen at `seconds`, or -1 before the first one and in the gap
+// after a closed segment (as in `slideAt`)
+export const findActiveIndex = (results: SlideMatch[], seconds: number): number => {
+  const started = findStartedIndex(results, seconds);
+  const end = results[started]?.endSeconds;
+  return end !== undefined && end < seconds ? -1 : started;
+};
+
+// Pressing "previous" this long after a transition restarts it instead of going back
+const RESTART_THRESHOLD = 1.5;
+
+// Playback reports stay this far before the end of a part, so the cut is left to `ended`
+const PART_END_MARGIN = 0.01;
+
+interface ReviewPlayerProps {
+  videoUrls: string[]; // One per part
+  parts: VideoPart[];
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  results: SlideMatch[];
+  pdfImages: PdfPageImage[];
+  decks: DeckInfo[];
+  currentTime: number;
+  onTimeUpdate: (seconds: number) => void;
+  onSeek: (seconds: number) => void;
+}
+
+export const ReviewPlayer = ({ videoUrls, parts, videoRef, results, pdfImages, decks, currentTime, onTimeUpdate, onSeek }: ReviewPlayerProps) => {
+  const { part, local } = partAt(parts, currentTime);
+  const nextPart = parts[part.part] as VideoPart | undefined;
+  const toCombined = (seconds: number) =>
+    part.offset + (nextPart ? Math.min(seconds, Math.max(0, part.duration - PART_END_MARGIN)) : seconds);
+  // Set when a part ended while playing, so the next one starts playing too
+  const resumeRef = useRef(false);
+
+  const activeIndex = findActiveIndex(results, currentTime);
+  const active = activeIndex >= 0 ? results[activeIndex] : null;
+  // Previous/next step from the last transition even while a gap is on screen
+  const startedIndex = findStartedIndex(results, currentTime);
+  const started = startedIndex >= 0 ? results[startedIndex] : null;
+  const activeImage = active ? pdfImages.find(p => p.deckId === active.deckId && p.pageNumber === active.pageNumber) : null;
+  const activeDeck = active ? decks.find(d => d.deckId === active.deckId) : null;
+
+  const goNext = () => {
+    const next = results[startedIndex + 1];
+    if (next) onSeek(next.seconds);
+  };
+
+  const goPrevious = () => {
+    if (started && currentTime - started.seconds > RESTART_THRESHOLD) {
+      onSeek(started.seconds);
+    } else if (startedIndex > 0) {
+      onSeek(results[startedIndex - 1].seconds);
+    } else {
+      onSeek(0);
+    }
+  };
+
+  // Keyboard shortcuts: N or ] for the next transition, P or [ for the previous one
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.key === 'n' || e.key === 'N' || e.key === ']') {
+        e.preventDefault();
+        goNext();
+      } else if (e.key === 'p' || e.key === 'P' || e.key === '[') {
+        e.preventDefault();
+        goPrevious();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 grid lg:grid-cols-2 gap-6">
+      {/* Video */}
+      <div className="space-y-3">
+        <video
+          ref={videoRef}
+          src={videoUrls[part.part - 1]}
+          controls
+          className="w-full rounded-lg bg-black"
+          // Opened from a row click before the element existed, or a seek into another part: start there
+          onLoadedMetadata={(e) => {
+            e.currentTarget.currentTime = local;
+            if (resumeRef.current) e.currentTarget.play().catch(() => {});
+            resumeRef.current = false;
+          }}
+          onTimeUpdate={(e) => onTimeUpdate(toCombined(e.currentTarget.currentTime))}
+          onSeeked={(e) => onTimeUpdate(toCombined(e.currentTarget.currentTime))}
+          onEnded={() => {
+            if (!nextPart) return;
+            resumeRef.current = true;
+            onSeek(nextPart.offset);
+          }}
+        />
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={goPrevious}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-md"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              <span>{t('review.previous')}</span>
+            </button>
+            <button
+              onClick={goNext}
+              disabled={startedIndex + 1 >= results.length}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-md disabled:opacity-30 disabled:pointer-events-none"
+            >
+              <span>{t('review.next')}</span>
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <span className="flex items-center space-x-1 text-slate-500 text-xs">
+            <Keyboard className="w-4 h-4" />
+            <span>{t('review.shortcuts')}</span>
+          </span>
+        </div>
+      </div>
+
+      {/* Follow-along Slide */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-mono text-blue-400">
+            {formatTime(currentTime)}
+            {isMultiPart(parts) && <span className="ml-2 font-sans text-slate-500">{formatPartTime(parts, currentTime)}</span>}
+          </span>
+          {active && (
+            <span className="text-slate-400">
+              {activeIndex + 1} / {results.length}
+            </span>
+          )}
+        </div>
+        {active ? (
+          <>
+            {activeImage ? (
+              <img
+                src={activeImage.dataUrl}
+                alt={`${activeDeck?.label || `DECK ${active.deckId}`} - Page ${active.pageNumber}`}
+                className="w-full rounded-lg border border-slate-700"
+              />
+            ) : (
+              <div className="aspect-video rounded-lg border border-slate-800 flex items-center justify-center text-slate-600 italic">
+                {t('common.noPreview')}
+              </div>
+            )}
+            <div>
+              <p className="font-bold text-slate-200">{active.slideTitle || t('common.untitled')}</p>
+              <p className="text-slate-400 text-sm">
+                {t('review.activeSlide', {
+                  deck: activeDeck?.label || `DECK ${active.deckId}`,
+                  page: active.pageNumber,
+                  time: active.timestamp,
+                })}
+              </p>
+            </div>
+          </>
+        ) : (
+          <div className="aspect-video rounded-lg border border-dashed border-slate-800 flex items-center justify-center text-slate-600">
+            {started ? t('review.noSlideNow') : t('review.noSlideYet')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import { DeckInfo, PdfPageImage, SlideMatch } from '../types';
+import { SlideStatus, computeSlideStats, summarizeDecks } from '../analytics/slideStats';
+import { formatClock } from '../utils/time';
+import { MessageKey, t } from '../i18n';
+
+// --- Per-Slide Analytics ---
+// Dwell time and visit count for every deck page, plus pages the talk never showed.
+
+const STATUS_LABELS: Record<SlideStatus, { text: MessageKey; className: string }> = {
+  'shown': { text: 'analytics.shown', className: 'bg-emerald-500/10 text-emerald-400' },
+  'skipped': { text: 'analytics.skipped', className: 'bg-amber-500/10 text-amber-400' },
+  'never-shown': { text: 'analytics.neverShown', className: 'bg-slate-700/50 text-slate-400' },
+};
+
+interface SlideAnalyticsProps {
+  results: SlideMatch[];
+  decks: DeckInfo[];
+  pages: PdfPageImage[];
+  duration: number;
+  onSeek: (seconds: number) => void;
+}
+
+export const SlideAnalytics = ({ results, decks, pages, duration, onSeek }: SlideAnalyticsProps) => {
+  const [open, setOpen] = useState(false);
+  const stats = useMemo(() => computeSlideStats(results, decks, duration, pages), [results, decks, duration, pages]);
+  const summaries = useMemo(() => summarizeDecks(stats, decks), [stats, decks]);
+  if (stats.length === 0) return null;
+
+  // Bars are scaled to the longest-shown page
+  const maxDwell = Math.max(1, ...stats.map(s => s.dwellSeconds));
+  const unshown = stats.filter(s => s.status !== 'shown').length;
+
+  return (
+    <div className="mx-6 mt-4 border border-slate-800 rounded-lg">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center space-x-2 p-3 text-sm text-slate-300 hover:bg-slate-800/50"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <BarChart3 className="w-4 h-4 text-blue-400" />
+        <span>{t('analytics.title')}</span>
+        {unshown > 0 && <span className="text-slate-500">{t('analytics.unshown', { count: unshown })}</span>}
+      </button>
+      {open && (
+        <div className="border-t border-slate-800">
+          <div className="flex flex-wrap gap-4 px-4 py-3 text-xs text-slate-400">
+            {summaries.map(s => (
+              <span key={s.deckId}>
+                {t('analytics.deckSummary', {
+                  deck: decks.find(d => d.deckId === s.deckId)?.label || `DECK ${s.deckId}`,
+                  shown: s.shownPages,
+                  total: s.pageCount,
+                  time: formatClock(s.dwellSeconds),
+                })}
+              </span>
+            ))}
+          </div>
+          <ul className="divide-y divide-slate-800 border-t border-slate-800 text-sm max-h-96 overflow-y-auto">
+            {stats.map(s => (
+              <li
+                key={`${s.deckId}:${s.pageNumber}`}
+                onClick={() => s.firstSeconds !== null && onSeek(s.firstSeconds)}
+                className={`px-4 py-2 flex items-center space-x-3 ${s.firstSeconds !== null ? 'cursor-pointer hover:bg-slate-800/30' : ''}`}
+              >
+                <span className="text-slate-400 w-40 truncate">
+                  {decks.find(d => d.deckId === s.deckId)?.label || `DECK ${s.deckId}`} #{s.pageNumber}
+                </span>
+                <span className={`px-2 py-0.5 rounded text-xs w-16 text-center ${STATUS_LABELS[s.status].className}`}>
+                  {t(STATUS_LABELS[s.status].text)}
+                </span>
+                <span className="text-slate-300 flex-1 truncate">{s.slideTitle}</span>
+                <span className="text-slate-500 w-16 text-right">{s.visits > 1 ? t('analytics.visits', { count: s.visits }) : ''}</span>
+                <div className="w-32 h-2 bg-slate-800 rounded">
+                  <div className="h-2 bg-blue-500 rounded" style={{ width: `${(s.dwellSeconds / maxDwell) * 100}%` }} />
+                </div>
+                <span className="font-mono text-blue-400 w-16 text-right">{formatClock(s.dwellSeconds)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
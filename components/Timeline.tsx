@@ -0,0 +1,204 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { DeckInfo, PdfPageImage, SlideMatch, VideoFrameImage, VideoPart } from '../types';
+import { bandAt, buildTimeline, nearestFrame, rowAt } from '../analytics/timeline';
+import { deckColor } from './deckColors';
+import { formatClock, formatTime } from '../utils/time';
+import { formatPartTime, isMultiPart } from '../video/parts';
+import { t } from '../i18n';
+
+// --- Talk Timeline ---
+// The whole talk on one axis: deck-coloured bands, hatched gaps, a marker per
+// transition sized by confidence and a red underline on long weak stretches.
+// Hovering shows the nearest sampled frame next to the matched page. The parts
+// of a multi-part recording are labelled above the track and split by a dashed line.
+
+// Marker diameter in pixels per confidence level
+const MARKER_SIZES: Record<string, number> = { high: 10, medium: 7, low: 4 };
+
+// Hatching for segments without a slide
+const GAP_PATTERN = 'repeating-linear-gradient(135deg, rgba(148, 163, 184, 0.15) 0 4px, transparent 4px 8px)';
+
+// Tick spacing that gives at most MAX_TICKS labels
+const TICK_STEPS = [10, 30, 60, 120, 300, 600, 900, 1800, 3600];
+const MAX_TICKS = 8;
+
+interface TimelineProps {
+  results: SlideMatch[];
+  decks: DeckInfo[];
+  frames: VideoFrameImage[];
+  pages: PdfPageImage[];
+  duration: number;
+  parts?: VideoPart[];
+  selectedIndex: number | null;
+  onSelect?: (index: number, seconds: number) => void; // Missing while results are still streaming
+}
+
+export const Timeline = ({ results, decks, frames, pages, duration, parts, selectedIndex, onSelect }: TimelineProps) => {
+  const layout = useMemo(() => buildTimeline(results, duration), [results, duration]);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [hoverSeconds, setHoverSeconds] = useState<number | null>(null);
+  if (layout.duration <= 0 || results.length === 0) return null;
+
+  const percent = (seconds: number) => `${(seconds / layout.duration) * 100}%`;
+  const secondsAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * layout.duration;
+  };
+
+  const step = TICK_STEPS.find(s => layout.duration / s <= MAX_TICKS) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const ticks = Array.from({ length: Math.floor(layout.duration / step) + 1 }, (_, i) => i * step);
+
+  // Hover card contents
+  const hoverBand = hoverSeconds !== null ? bandAt(layout, hoverSeconds) : null;
+  const hoverFrame = hoverSeconds !== null ? nearestFrame(frames, hoverSeconds) : null;
+  const hoverPage = hoverBand ? pages.find(p => p.deckId === hoverBand.deckId && p.pageNumber === hoverBand.pageNumber) : null;
+  const deckLabel = (deckId: number) => decks.find(d => d.deckId === deckId)?.label || `DECK ${deckId}`;
+  const multiPart = isMultiPart(parts);
+
+  return (
+    <div className="mx-6 mt-4">
+      <div className="relative">
+        {/* Parts */}
+        {multiPart && (
+          <div className="relative h-4 text-[10px] text-slate-400">
+            {parts.map(part => (
+              <span key={part.part} title={part.fileName} className="absolute pl-1 truncate" style={{ left: percent(part.offset), width: percent(part.duration) }}>
+                {t('parts.label', { part: part.part })}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Markers */}
+        <div className="relative h-3">
+          {layout.bands.map(band => {
+            const size = MARKER_SIZES[(band.confidence || 'low').toLowerCase()] ?? MARKER_SIZES.low;
+            return (
+              <span
+                key={band.index}
+                className="absolute bottom-0 rounded-full bg-slate-200 -translate-x-1/2 pointer-events-none"
+                style={{ left: percent(band.start), width: size, height: size }}
+              />
+            );
+          })}
+        </div>
+
+        {/* Track */}
+        <div
+          ref={trackRef}
+          onMouseMove={(e) => setHoverSeconds(secondsAt(e.clientX))}
+          onMouseLeave={() => setHoverSeconds(null)}
+          onClick={(e) => {
+            const seconds = secondsAt(e.clientX);
+            const index = rowAt(layout, seconds);
+            if (index >= 0) onSelect?.(index, seconds);
+          }}
+          className={`relative h-8 mt-1 rounded bg-slate-800 overflow-hidden ${onSelect ? 'cursor-pointer' : ''}`}
+        >
+          {layout.gaps.map((gap, i) => (
+            <div
+              key={`gap-${i}`}
+              className="absolute inset-y-0"
+              style={{ left: percent(gap.start), width: percent(gap.end - gap.start), backgroundImage: GAP_PATTERN }}
+            />
+          ))}
+          {layout.bands.map(band => (
+            <div
+              key={band.index}
+              className={`absolute inset-y-0 border-l border-slate-950 ${deckColor(band.deckId).band} ${
+                band.index === selectedIndex ? 'opacity-100 ring-2 ring-inset ring-white'
+                  : (band.confidence || 'low').toLowerCase() === 'low' ? 'opacity-40' : 'opacity-80'
+              }`}
+              style={{ left: percent(band.start), width: percent(band.end - band.start) }}
+            />
+          ))}
+          {layout.weakRuns.map((run, i) => (
+            <div
+              key={`weak-${i}`}
+              className="absolute inset-y-0 border-y-2 border-red-500/70 bg-red-500/10 pointer-events-none"
+              style={{ left: percent(run.start), width: percent(run.end - run.start) }}
+            />
+          ))}
+          {multiPart && parts.slice(1).map(part => (
+            <div
+              key={`part-${part.part}`}
+              className="absolute inset-y-0 border-l-2 border-dashed border-white/70 pointer-events-none"
+              style={{ left: percent(part.offset) }}
+            />
+          ))}
+          {hoverSeconds !== null && (
+            <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: percent(hoverSeconds) }} />
+          )}
+        </div>
+
+        {/* Weak stretches */}
+        <div className="relative h-1.5 mt-0.5">
+          {layout.weakRuns.map((run, i) => (
+            <div
+              key={i}
+              title={t('timeline.weakRun', { from: formatTime(run.start), to: formatTime(run.end) })}
+              className="absolute inset-y-0 rounded bg-red-500"
+              style={{ left: percent(run.start), width: percent(run.end - run.start) }}
+            />
+          ))}
+        </div>
+
+        {/* Ticks */}
+        <div className="relative h-4 text-[10px] text-slate-500 font-mono">
+          {ticks.map(tick => (
+            <span key={tick} className="absolute -translate-x-1/2 first:translate-x-0" style={{ left: percent(tick) }}>
+              {formatClock(tick)}
+            </span>
+          ))}
+        </div>
+
+        {/* Hover card */}
+        {hoverSeconds !== null && (
+          <div
+            className="absolute top-full mt-1 z-20 -translate-x-1/2 bg-slate-950 border border-slate-700 rounded-lg p-2 shadow-xl pointer-events-none"
+            style={{ left: `clamp(11rem, ${percent(hoverSeconds)}, calc(100% - 11rem))` }}
+          >
+            <div className="flex space-x-2">
+              <figure className="w-40">
+                {hoverFrame
+                  ? <img src={hoverFrame.dataUrl} alt="" className="w-40 rounded border border-slate-800" />
+                  : <div className="w-40 h-24 rounded bg-slate-900" />}
+                <figcaption className="mt-1 text-xs text-slate-400 font-mono">
+                  {hoverFrame ? t('timeline.frame', { time: formatTime(hoverFrame.timestamp) }) : formatTime(hoverSeconds)}
+                  {multiPart && <div>{formatPartTime(parts, hoverFrame?.timestamp ?? hoverSeconds)}</div>}
+                </figcaption>
+              </figure>
+              <figure className="w-40">
+                {hoverPage
+                  ? <img src={hoverPage.dataUrl} alt="" className="w-40 rounded border border-slate-800" />
+                  : <div className="w-40 h-24 rounded bg-slate-900 flex items-center justify-center text-xs text-slate-500">{t('timeline.noSlide')}</div>}
+                <figcaption className="mt-1 text-xs text-slate-400 truncate">
+                  {hoverBand ? `${deckLabel(hoverBand.deckId)} #${hoverBand.pageNumber} · ${hoverBand.confidence}` : t('timeline.noSlide')}
+                </figcaption>
+              </figure>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 mt-1 text-xs text-slate-400">
+        {decks.map(deck => (
+          <span key={deck.deckId} className="flex items-center space-x-1">
+            <span className={`w-3 h-3 rounded-sm ${deckColor(deck.deckId).swatch}`} />
+            <span>{deck.label || `DECK ${deck.deckId}`}</span>
+          </span>
+        ))}
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-slate-800" style={{ backgroundImage: GAP_PATTERN }} />
+          <span>{t('timeline.noSlide')}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-1.5 rounded bg-red-500" />
+          <span>{t('timeline.weakLegend')}</span>
+        </span>
+        <span className="text-slate-500">{t('timeline.markerLegend')}</span>
+      </div>
+    </div>
+  );
+};
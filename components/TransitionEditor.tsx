@@ -0,0 +1,135 @@
+import React, { useEffect } from 'react';
+import { Undo2, Redo2, Plus, Trash2, Merge, Crosshair, X } from 'lucide-react';
+import { DeckInfo, PdfPageImage, SlideMatch } from '../types';
+import { formatTimePrecise } from '../utils/time';
+import { t } from '../i18n';
+
+// --- Transition Editor ---
+// Toolbar (undo / redo / insert) plus an edit panel for the selected row.
+
+const FRAME_STEP = 1 / 30; // One frame at 30 fps
+
+interface TransitionEditorProps {
+  selected: SlideMatch | null;
+  hasNext: boolean;
+  pdfImages: PdfPageImage[];
+  decks: DeckInfo[];
+  currentTime: number;
+  canInsert: boolean; // Needs the review player for a meaningful current time
+  canUndo: boolean;
+  canRedo: boolean;
+  onSetTime: (seconds: number) => void;
+  onReassign: (deckId: number, pageNumber: number) => void;
+  onInsert: () => void;
+  onDelete: () => void;
+  onMergeNext: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+export const TransitionEditor = (props: TransitionEditorProps) => {
+  const { selected, pdfImages, decks, currentTime, onUndo, onRedo } = props;
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onUndo, onRedo]);
+
+  const toolButton = 'flex items-center space-x-1 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-md text-sm disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onUndo} disabled={!props.canUndo} className={toolButton} title={t('editor.undoTitle')}>
+          <Undo2 className="w-4 h-4" />
+          <span>{t('editor.undo')}</span>
+        </button>
+        <button onClick={onRedo} disabled={!props.canRedo} className={toolButton} title={t('editor.redoTitle')}>
+          <Redo2 className="w-4 h-4" />
+          <span>{t('editor.redo')}</span>
+        </button>
+        <button onClick={props.onInsert} disabled={!props.canInsert} className={toolButton} title={t('editor.insertTitle')}>
+          <Plus className="w-4 h-4" />
+          <span>{t('editor.insertAt', { time: formatTimePrecise(currentTime) })}</span>
+        </button>
+        {!props.canInsert && <span className="text-slate-500 text-xs">{t('editor.insertHint')}</span>}
+      </div>
+
+      {selected ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-slate-200">{t('editor.title')}</h3>
+            <button onClick={props.onClose} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800" title={t('common.close')}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* Timestamp Nudging */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-lg text-blue-400 w-24">{formatTimePrecise(selected.seconds)}</span>
+            <button onClick={() => props.onSetTime(selected.seconds - 1)} className={toolButton}>-1s</button>
+            <button onClick={() => props.onSetTime(selected.seconds - FRAME_STEP)} className={toolButton}>{t('editor.frameBack')}</button>
+            <button onClick={() => props.onSetTime(selected.seconds + FRAME_STEP)} className={toolButton}>{t('editor.frameForward')}</button>
+            <button onClick={() => props.onSetTime(selected.seconds + 1)} className={toolButton}>+1s</button>
+            <button onClick={() => props.onSetTime(currentTime)} disabled={!props.canInsert} className={toolButton}>
+              <Crosshair className="w-4 h-4" />
+              <span>{t('editor.setToCurrent')}</span>
+            </button>
+            <div className="flex-1" />
+            <button onClick={props.onMergeNext} disabled={!props.hasNext} className={toolButton} title={t('editor.mergeNextTitle')}>
+              <Merge className="w-4 h-4" />
+              <span>{t('editor.mergeNext')}</span>
+            </button>
+            <button onClick={props.onDelete} className={`${toolButton} hover:text-red-400`}>
+              <Trash2 className="w-4 h-4" />
+              <span>{t('common.delete')}</span>
+            </button>
+          </div>
+
+          {/* Deck / Page Picker */}
+          <div className="space-y-4 max-h-80 overflow-y-auto pr-2">
+            {decks.map(deck => (
+              <div key={deck.deckId} className="space-y-2">
+                <p className="text-slate-400 text-sm">{deck.label}</p>
+                <div className="grid grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-2">
+                  {pdfImages.filter(img => img.deckId === deck.deckId).map(img => {
+                    const isCurrent = img.deckId === selected.deckId && img.pageNumber === selected.pageNumber;
+                    return (
+                      <button
+                        key={img.pageNumber}
+                        onClick={() => props.onReassign(img.deckId, img.pageNumber)}
+                        className={`relative rounded border-2 overflow-hidden ${isCurrent ? 'border-blue-500' : 'border-transparent hover:border-slate-500'}`}
+                      >
+                        <img src={img.dataUrl} alt={`${deck.label} - Page ${img.pageNumber}`} className="w-full" />
+                        <span className="absolute bottom-0 right-0 bg-slate-950/80 text-xs px-1">#{img.pageNumber}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-slate-500 text-sm">{t('editor.empty')}</p>
+      )}
+    </div>
+  );
+};
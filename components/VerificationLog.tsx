@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ScanSearch } from 'lucide-react';
+import { DeckInfo } from '../types';
+import { VerificationRecord, VerificationVerdict } from '../pipeline/verify';
+import { formatTime } from '../utils/time';
+import { MessageKey, t } from '../i18n';
+
+// --- Verification Log ---
+// What the second look at each uncertain row decided, with the model's reason.
+
+const VERDICTS: Record<VerificationVerdict, { label: MessageKey; badge: string }> = {
+  confirmed: { label: 'verification.confirmed', badge: 'bg-emerald-500/10 text-emerald-400' },
+  corrected: { label: 'verification.corrected', badge: 'bg-sky-500/10 text-sky-400' },
+  rejected: { label: 'verification.rejected', badge: 'bg-slate-500/10 text-slate-400' },
+  failed: { label: 'verification.failed', badge: 'bg-red-500/10 text-red-400' },
+};
+
+interface VerificationLogProps {
+  records: VerificationRecord[];
+  decks: DeckInfo[];
+}
+
+export const VerificationLog = ({ records, decks }: VerificationLogProps) => {
+  const [open, setOpen] = useState(false);
+  if (records.length === 0) return null;
+
+  const pageLabel = (page: { deckId: number; pageNumber: number }) =>
+    `${decks.find(d => d.deckId === page.deckId)?.label || `DECK ${page.deckId}`} #${page.pageNumber}`;
+
+  return (
+    <div className="mx-6 mt-4 border border-slate-800 rounded-lg">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center space-x-2 p-3 text-sm text-slate-300 hover:bg-slate-800/50"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <ScanSearch className="w-4 h-4 text-sky-400" />
+        <span>{t('verification.title', { count: records.length })}</span>
+      </button>
+      {open && (
+        <ul className="divide-y divide-slate-800 border-t border-slate-800 text-sm">
+          {records.map((record, i) => (
+            <li key={i} className="px-4 py-2 flex items-center space-x-3">
+              <span className="font-mono text-blue-400 w-14">{formatTime(record.seconds)}</span>
+              <span className={`px-2 py-0.5 rounded text-xs w-20 text-center ${VERDICTS[record.verdict].badge}`}>
+                {t(VERDICTS[record.verdict].label)}
+              </span>
+              <span className="text-slate-400 w-56 truncate">
+                {pageLabel(record.before)} · {record.before.confidence}
+                {record.after && ` → ${record.verdict === 'corrected' ? `${pageLabel(record.after)} · ` : ''}${record.after.confidence}`}
+              </span>
+              <span className="text-slate-300 flex-1">{record.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+// --- Deck Colours ---
+// Card, icon, badge and timeline colours, cycled by deck position.
+
+export const DECK_COLORS = [
+  { card: 'border-red-500 bg-red-500/10', icon: 'text-red-400', badge: 'bg-red-500/20 text-red-400', band: 'bg-red-500', swatch: 'bg-red-400' },
+  { card: 'border-orange-500 bg-orange-500/10', icon: 'text-orange-400', badge: 'bg-orange-500/20 text-orange-400', band: 'bg-orange-500', swatch: 'bg-orange-400' },
+  { card: 'border-emerald-500 bg-emerald-500/10', icon: 'text-emerald-400', badge: 'bg-emerald-500/20 text-emerald-400', band: 'bg-emerald-500', swatch: 'bg-emerald-400' },
+  { card: 'border-cyan-500 bg-cyan-500/10', icon: 'text-cyan-400', badge: 'bg-cyan-500/20 text-cyan-400', band: 'bg-cyan-500', swatch: 'bg-cyan-400' },
+  { card: 'border-violet-500 bg-violet-500/10', icon: 'text-violet-400', badge: 'bg-violet-500/20 text-violet-400', band: 'bg-violet-500', swatch: 'bg-violet-400' },
+  { card: 'border-pink-500 bg-pink-500/10', icon: 'text-pink-400', badge: 'bg-pink-500/20 text-pink-400', band: 'bg-pink-500', swatch: 'bg-pink-400' },
+];
+
+export const deckColor = (deckId: number) => DECK_COLORS[(deckId - 1) % DECK_COLORS.length];
@@ -0,0 +1,104 @@
+import { PdfPageImage } from '../types';
+import { abortError } from '../utils/abort';
+import { t } from '../i18n';
+import { readZip } from './zip';
+import { readPptx } from './pptx';
+import { DeckCanvasPlatform, imageMimeType, renderImagePage, renderSlide } from './render';
+
+// --- Deck Formats ---
+// Besides PDF, a deck can be a set of slide images (in natural file name order),
+// a zip of them, or a PowerPoint file. All of them become the same page list.
+
+export type DeckFormat = 'pdf' | 'images' | 'zip' | 'pptx';
+
+// One input file; `name` may include folders (zip entries, folder uploads)
+export interface DeckFile {
+  name: string;
+  read: () => Promise<Uint8Array>;
+}
+
+const SINGLE_FILE_FORMATS: Record<string, DeckFormat> = { pdf: 'pdf', pptx: 'pptx', zip: 'zip' };
+
+// "slide2" before "slide10"
+export const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Dotfiles and the resource forks macOS adds to zips and folders
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// null when the files are not a deck. Several files are an image set; other files among them are ignored.
+export const detectDeckFormat = (names: string[]): DeckFormat | null => {
+  if (names.length === 1) {
+    const format = SINGLE_FILE_FORMATS[names[0].split('.').pop()!.toLowerCase()];
+    if (format) return format;
+  }
+  return names.some(name => imageMimeType(name) && !isHidden(name)) ? 'images' : null;
+};
+
+const loadImages = async (
+  platform: DeckCanvasPlatform,
+  files: DeckFile[],
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  const images = files
+    .filter(f => imageMimeType(f.name) && !isHidden(f.name))
+    .sort((a, b) => naturalCompare(a.name, b.name));
+  if (images.length === 0) throw new Error(t('error.deckNoImages'));
+
+  const pages: PdfPageImage[] = [];
+  for (const [i, file] of images.entries()) {
+    if (signal?.aborted) throw abortError();
+    const dataUrl = await renderImagePage(platform, { bytes: await file.read(), mimeType: imageMimeType(file.name)! });
+    if (!dataUrl) throw new Error(t('error.deckImage', { name: file.name }));
+    pages.push({ deckId, pageNumber: i + 1, dataUrl, text: '', title: '' });
+    onProgress(((i + 1) / images.length) * 100);
+  }
+  return pages;
+};
+
+const loadPptx = async (
+  platform: DeckCanvasPlatform,
+  file: DeckFile,
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  const deck = await readPptx(readZip(await file.read()));
+  const pages: PdfPageImage[] = [];
+  for (const [i, slide] of deck.slides.entries()) {
+    if (signal?.aborted) throw abortError();
+    // PowerPoint's own picture of the first slide beats the simplified drawing
+    const thumbnail = i === 0 && deck.thumbnail ? await renderImagePage(platform, deck.thumbnail) : null;
+    pages.push({
+      deckId,
+      pageNumber: slide.pageNumber,
+      dataUrl: thumbnail ?? await renderSlide(platform, deck, slide),
+      text: slide.text,
+      title: slide.title,
+    });
+    onProgress(((i + 1) / deck.slides.length) * 100);
+  }
+  return pages;
+};
+
+// Every format except PDF, which each platform rasterizes with pdf.js itself
+export const loadDeck = async (
+  platform: DeckCanvasPlatform,
+  format: Exclude<DeckFormat, 'pdf'>,
+  files: DeckFile[],
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  switch (format) {
+    case 'images':
+      return loadImages(platform, files, deckId, onProgress, signal);
+    case 'zip': {
+      const entries = readZip(await files[0].read());
+      return loadImages(platform, entries.map(e => ({ name: e.name, read: e.read })), deckId, onProgress, signal);
+    }
+    case 'pptx':
+      return loadPptx(platform, files[0], deckId, onProgress, signal);
+  }
+};
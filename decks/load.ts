@@ -0,0 +1,53 @@
+import { PdfPageImage } from '../types';
+import { t } from '../i18n';
+import { rasterizePdf } from './pdf';
+import { DeckFile, detectDeckFormat, loadDeck } from './formats';
+import { DeckCanvasPlatform } from './render';
+
+// --- Deck Loading (browser) ---
+// Picks the loader for the files in one deck slot.
+
+const browserCanvas: DeckCanvasPlatform = {
+  createCanvas: (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error(t('error.canvas'));
+    return { canvas, context };
+  },
+  decodeImage: async ({ bytes, mimeType }) => {
+    try {
+      const bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }));
+      return { source: bitmap, width: bitmap.width, height: bitmap.height };
+    } catch {
+      return null;
+    }
+  },
+  toJpeg: async (canvas, quality) => (canvas as HTMLCanvasElement).toDataURL('image/jpeg', quality),
+};
+
+// Folder uploads carry the path inside the folder
+const filePath = (file: File) => file.webkitRelativePath || file.name;
+
+export const deckFormatOf = (files: File[]) => detectDeckFormat(files.map(filePath));
+
+// File name shown for the deck: the file, or the folder / first image of an image set
+export const deckFileName = (files: File[]) => {
+  if (files.length === 1) return files[0].name;
+  const folder = files[0]?.webkitRelativePath.split('/')[0];
+  return folder || t('deck.imageSet', { name: files[0]?.name ?? '', count: files.length });
+};
+
+export const loadDeckFiles = async (
+  files: File[],
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  const format = deckFormatOf(files);
+  if (!format) throw new Error(t('error.deckFormat'));
+  if (format === 'pdf') return rasterizePdf(files[0], deckId, onProgress, signal);
+  const deckFiles: DeckFile[] = files.map(file => ({ name: filePath(file), read: async () => new Uint8Array(await file.arrayBuffer()) }));
+  return loadDeck(browserCanvas, format, deckFiles, deckId, onProgress, signal);
+};
@@ -0,0 +1,35 @@
+import { PdfPageImage } from '../types';
+import { createWorkerClient } from '../utils/workerRpc';
+import { TextRun, summarizeTextLayer } from './textLayer';
+
+// --- PDF Deck Rasterization ---
+// Pages are rendered in a worker so large decks do not block the UI.
+
+export const PAGE_WIDTH = 512;     // Scale down: max width 512px
+export const PAGE_QUALITY = 0.7;
+const PAGE_CONCURRENCY = 4; // Pages rendered at the same time per deck
+
+export const rasterizePdf = async (
+  file: File,
+  deckId: number,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<PdfPageImage[]> => {
+  const data = await file.arrayBuffer();
+  const client = createWorkerClient(new Worker(new URL('../workers/pdf.worker.ts', import.meta.url)), signal);
+  try {
+    const pages = await client.call<{ pageNumber: number; dataUrl: string; textRuns: TextRun[]; pageHeight: number }[]>(
+      { data, maxWidth: PAGE_WIDTH, quality: PAGE_QUALITY, concurrency: PAGE_CONCURRENCY },
+      [data],
+      onProgress
+    );
+    return pages.map(({ pageNumber, dataUrl, textRuns, pageHeight }) => ({
+      deckId,
+      pageNumber,
+      dataUrl,
+      ...summarizeTextLayer(textRuns, pageHeight),
+    }));
+  } finally {
+    client.terminate();
+  }
+};
@@ -0,0 +1,241 @@
+import { ZipEntry } from './zip';
+import { imageMimeType } from './render';
+import { XmlElement, attr, child, childElements, findAll, findFirst, localName, parseXml, textContent } from './xml';
+import { t } from '../i18n';
+
+// --- PowerPoint Packages ---
+// Reads a .pptx without rendering it: slide order from the presentation part,
+// and per slide the placed pictures and text boxes, positioned as fractions of
+// the slide. ./render draws them into a page image; titles come from the title
+// placeholder, the way the PDF text layer supplies them for PDF decks.
+
+export interface SlideBox {
+  x: number; // Fractions of the slide width / height
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SlideImage {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export interface SlidePicture extends SlideImage {
+  box: SlideBox;
+}
+
+export interface SlideTextBlock {
+  box: SlideBox | null; // null: placed by the layout, which could not be resolved
+  role: 'title' | 'body';
+  paragraphs: { text: string; size?: number }[]; // size in points, when the slide sets one
+}
+
+export interface PptxSlide {
+  pageNumber: number;
+  pictures: SlidePicture[];
+  texts: SlideTextBlock[];
+  text: string;
+  title: string;
+}
+
+export interface PptxDeck {
+  aspect: number;   // Slide width / height
+  heightPt: number; // Slide height in points, for font sizes
+  slides: PptxSlide[];
+  thumbnail?: SlideImage; // First slide as saved by PowerPoint
+}
+
+const EMU_PER_POINT = 12700;
+// 16:9 at 13.333 x 7.5 in, PowerPoint's default
+const DEFAULT_SIZE = { cx: 12192000, cy: 6858000 };
+const MAX_TITLE_LENGTH = 120;
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// --- Package Parts ---
+
+const resolvePart = (from: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const createPackage = (entries: ZipEntry[]) => {
+  const byName = new Map(entries.map(e => [e.name, e]));
+  const xmlCache = new Map<string, Promise<XmlElement | null>>();
+
+  const readXml = (path: string) => {
+    if (!xmlCache.has(path)) {
+      const entry = byName.get(path);
+      xmlCache.set(path, entry ? entry.read().then(bytes => parseXml(new TextDecoder().decode(bytes))) : Promise.resolve(null));
+    }
+    return xmlCache.get(path)!;
+  };
+
+  // Relationship id -> { part path, type } for one part
+  const readRels = async (path: string) => {
+    const slash = path.lastIndexOf('/');
+    const rels = await readXml(`${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`);
+    const map = new Map<string, { target: string; type: string }>();
+    if (rels) {
+      findAll(rels, 'Relationship').forEach(r => {
+        if (attr(r, 'TargetMode') === 'External') return;
+        map.set(attr(r, 'Id') ?? '', { target: resolvePart(path, attr(r, 'Target') ?? ''), type: attr(r, 'Type') ?? '' });
+      });
+    }
+    return map;
+  };
+
+  const readImage = async (path: string): Promise<SlideImage | null> => {
+    const mimeType = imageMimeType(path);
+    const entry = byName.get(path);
+    return mimeType && entry ? { bytes: await entry.read(), mimeType } : null;
+  };
+
+  return { readXml, readRels, readImage };
+};
+
+// --- Geometry ---
+
+type Emu = { x: number; y: number; cx: number; cy: number };
+type Transform = (box: Emu) => Emu;
+
+const readXfrm = (xfrm: XmlElement | undefined): Emu | null => {
+  const off = child(xfrm, 'off');
+  const ext = child(xfrm, 'ext');
+  if (!off || !ext) return null;
+  return { x: Number(attr(off, 'x')) || 0, y: Number(attr(off, 'y')) || 0, cx: Number(attr(ext, 'cx')) || 0, cy: Number(attr(ext, 'cy')) || 0 };
+};
+
+// Group children are laid out in the group's own coordinate space
+const groupTransform = (group: XmlElement, parent: Transform): Transform => {
+  const xfrm = child(child(group, 'grpSpPr'), 'xfrm');
+  const outer = readXfrm(xfrm);
+  const chOff = child(xfrm, 'chOff');
+  const chExt = child(xfrm, 'chExt');
+  if (!outer || !chOff || !chExt) return parent;
+  const [cx0, cy0] = [Number(attr(chOff, 'x')) || 0, Number(attr(chOff, 'y')) || 0];
+  const sx = outer.cx / (Number(attr(chExt, 'cx')) || outer.cx || 1);
+  const sy = outer.cy / (Number(attr(chExt, 'cy')) || outer.cy || 1);
+  return (box) => parent({ x: outer.x + (box.x - cx0) * sx, y: outer.y + (box.y - cy0) * sy, cx: box.cx * sx, cy: box.cy * sy });
+};
+
+// --- Placeholders ---
+
+const placeholderOf = (shape: XmlElement) => {
+  const ph = findFirst(child(shape, 'nvSpPr') ?? shape, 'ph');
+  return ph ? { type: attr(ph, 'type') ?? 'body', idx: attr(ph, 'idx') } : null;
+};
+
+// Placeholder positions from the slide layout, by idx and by type
+const layoutPlaceholders = (layout: XmlElement | null) => {
+  const byIdx = new Map<string, Emu>();
+  const byType = new Map<string, Emu>();
+  if (layout) {
+    findAll(layout, 'sp').forEach(shape => {
+      const ph = placeholderOf(shape);
+      const box = readXfrm(child(child(shape, 'spPr'), 'xfrm'));
+      if (!ph || !box) return;
+      if (ph.idx !== undefined) byIdx.set(ph.idx, box);
+      if (!byType.has(ph.type)) byType.set(ph.type, box);
+    });
+  }
+  return { byIdx, byType };
+};
+
+// --- Text ---
+
+const paragraphsOf = (body: XmlElement | undefined) =>
+  body
+    ? findAll(body, 'p').map(p => {
+        const text = childElements(p)
+          .filter(e => ['r', 'fld', 'br'].includes(localName(e.name)))
+          .map(e => (localName(e.name) === 'br' ? '\n' : textContent(child(e, 't') ?? e)))
+          .join('');
+        const size = Number(attr(findFirst(p, 'rPr') ?? findFirst(p, 'endParaRPr'), 'sz'));
+        return { text, size: size > 0 ? size / 100 : undefined };
+      }).filter(p => p.text.trim())
+    : [];
+
+// --- Reading ---
+
+export const readPptx = async (entries: ZipEntry[]): Promise<PptxDeck> => {
+  const pkg = createPackage(entries);
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await pkg.readXml(presentationPath);
+  if (!presentation) throw new Error(t('error.pptxInvalid'));
+
+  const size = findFirst(presentation, 'sldSz');
+  const cx = Number(attr(size, 'cx')) || DEFAULT_SIZE.cx;
+  const cy = Number(attr(size, 'cy')) || DEFAULT_SIZE.cy;
+  const toBox = (e: Emu): SlideBox => ({ x: e.x / cx, y: e.y / cy, width: e.cx / cx, height: e.cy / cy });
+
+  // Slide order is the order of sldIdLst, not the part names
+  const presentationRels = await pkg.readRels(presentationPath);
+  const slidePaths = findAll(findFirst(presentation, 'sldIdLst') ?? presentation, 'sldId')
+    // `r:id`, not the numeric `id` next to it
+    .map(s => presentationRels.get(Object.entries(s.attrs).find(([k]) => k.includes(':') && localName(k) === 'id')?.[1] ?? '')?.target)
+    .filter((path): path is string => !!path);
+
+  const slides: PptxSlide[] = [];
+  for (const path of slidePaths) {
+    const slide = await pkg.readXml(path);
+    if (!slide) continue;
+    const rels = await pkg.readRels(path);
+    const layoutPath = [...rels.values()].find(r => r.type.endsWith('/slideLayout'))?.target;
+    const layout = layoutPlaceholders(layoutPath ? await pkg.readXml(layoutPath) : null);
+
+    const pictures: SlidePicture[] = [];
+    const texts: SlideTextBlock[] = [];
+    const visit = async (tree: XmlElement, transform: Transform) => {
+      for (const shape of childElements(tree)) {
+        const kind = localName(shape.name);
+        if (kind === 'grpSp') {
+          await visit(shape, groupTransform(shape, transform));
+        } else if (kind === 'pic') {
+          const embed = attr(findFirst(shape, 'blip'), 'embed');
+          const box = readXfrm(child(child(shape, 'spPr'), 'xfrm'));
+          const image = embed && rels.get(embed) ? await pkg.readImage(rels.get(embed)!.target) : null;
+          if (image && box) pictures.push({ ...image, box: toBox(transform(box)) });
+        } else if (kind === 'sp' || kind === 'graphicFrame') {
+          const paragraphs = paragraphsOf(kind === 'sp' ? child(shape, 'txBody') : findFirst(shape, 'tbl'));
+          if (paragraphs.length === 0) continue;
+          const ph = kind === 'sp' ? placeholderOf(shape) : null;
+          const own = readXfrm(kind === 'sp' ? child(child(shape, 'spPr'), 'xfrm') : child(shape, 'xfrm'));
+          const inherited = ph ? (ph.idx !== undefined ? layout.byIdx.get(ph.idx) : undefined) ?? layout.byType.get(ph.type) : undefined;
+          const box = own ? transform(own) : inherited ?? null;
+          texts.push({ box: box ? toBox(box) : null, role: ph && TITLE_PLACEHOLDERS.includes(ph.type) ? 'title' : 'body', paragraphs });
+        }
+      }
+    };
+    const tree = findFirst(slide, 'spTree');
+    if (tree) await visit(tree, box => box);
+
+    const titleBlocks = texts.filter(b => b.role === 'title');
+    const title = titleBlocks.length > 0
+      ? titleBlocks.flatMap(b => b.paragraphs.map(p => p.text)).join(' ')
+      : texts[0]?.paragraphs[0]?.text ?? '';
+    slides.push({
+      pageNumber: slides.length + 1,
+      pictures,
+      texts,
+      text: clean(texts.flatMap(b => b.paragraphs.map(p => p.text)).join('\n')),
+      title: clean(title).slice(0, MAX_TITLE_LENGTH),
+    });
+  }
+  if (slides.length === 0) throw new Error(t('error.pptxInvalid'));
+
+  return {
+    aspect: cx / cy,
+    heightPt: cy / EMU_PER_POINT,
+    slides,
+    thumbnail: (await pkg.readImage('docProps/thumbnail.jpeg')) ?? undefined,
+  };
+};
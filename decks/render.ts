@@ -0,0 +1,94 @@
+import { PptxDeck, PptxSlide, SlideBox, SlideImage } from './pptx';
+import { PAGE_QUALITY, PAGE_WIDTH } from './pdf';
+
+// --- Page Images For Non-PDF Decks ---
+// Scales slide images and draws .pptx slides (pictures and text, no theme or
+// shapes) into JPEGs the size of rendered PDF pages. The canvas comes from the
+// platform: the DOM in the browser, @napi-rs/canvas in the CLI.
+
+export interface DeckCanvasPlatform {
+  createCanvas: (width: number, height: number) => { canvas: unknown; context: CanvasRenderingContext2D };
+  // null when the format cannot be decoded here
+  decodeImage: (image: SlideImage) => Promise<{ source: CanvasImageSource; width: number; height: number } | null>;
+  toJpeg: (canvas: unknown, quality: number) => Promise<string>; // data URL
+}
+
+// Where text goes when neither the slide nor its layout places it
+const DEFAULT_BOXES: Record<'title' | 'body', SlideBox> = {
+  title: { x: 0.06, y: 0.05, width: 0.88, height: 0.18 },
+  body: { x: 0.06, y: 0.26, width: 0.88, height: 0.66 },
+};
+const DEFAULT_SIZES = { title: 40, body: 20 }; // Points
+const LINE_HEIGHT = 1.2;
+const MIN_FONT_PX = 6;
+
+// Raster formats both canvases decode; vector formats (EMF, WMF, SVG) are left out
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp', webp: 'image/webp',
+};
+
+export const imageMimeType = (name: string): string | undefined =>
+  name.includes('.') ? IMAGE_TYPES[name.split('.').pop()!.toLowerCase()] : undefined;
+
+// null when the image cannot be decoded
+export const renderImagePage = async (platform: DeckCanvasPlatform, image: SlideImage): Promise<string | null> => {
+  const decoded = await platform.decodeImage(image);
+  if (!decoded) return null;
+  const width = Math.min(PAGE_WIDTH, decoded.width);
+  const height = Math.max(1, Math.round((decoded.height * width) / decoded.width));
+  const { canvas, context } = platform.createCanvas(width, height);
+  context.drawImage(decoded.source, 0, 0, width, height);
+  return platform.toJpeg(canvas, PAGE_QUALITY);
+};
+
+// Words, or single characters for scripts written without spaces
+const tokenize = (text: string) => text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]|[^\s\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]+|\s+/g) ?? [];
+
+const wrapLines = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const token of tokenize(paragraph)) {
+      if (line && context.measureText(line + token).width > maxWidth && token.trim()) {
+        lines.push(line.trimEnd());
+        line = token;
+      } else {
+        line += token;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+};
+
+export const renderSlide = async (platform: DeckCanvasPlatform, deck: PptxDeck, slide: PptxSlide): Promise<string> => {
+  const width = PAGE_WIDTH;
+  const height = Math.max(1, Math.round(PAGE_WIDTH / deck.aspect));
+  const { canvas, context } = platform.createCanvas(width, height);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+
+  for (const picture of slide.pictures) {
+    const decoded = await platform.decodeImage(picture);
+    if (decoded) {
+      const { x, y, width: w, height: h } = picture.box;
+      context.drawImage(decoded.source, x * width, y * height, w * width, h * height);
+    }
+  }
+
+  context.fillStyle = '#111111';
+  context.textBaseline = 'top';
+  for (const block of slide.texts) {
+    const box = block.box ?? DEFAULT_BOXES[block.role];
+    let top = box.y * height;
+    for (const paragraph of block.paragraphs) {
+      const px = Math.max(MIN_FONT_PX, ((paragraph.size ?? DEFAULT_SIZES[block.role]) / deck.heightPt) * height);
+      context.font = `${block.role === 'title' ? 'bold ' : ''}${px}px sans-serif`;
+      for (const line of wrapLines(context, paragraph.text, box.width * width)) {
+        context.fillText(line, box.x * width, top);
+        top += px * LINE_HEIGHT;
+      }
+    }
+  }
+  return platform.toJpeg(canvas, PAGE_QUALITY);
+};
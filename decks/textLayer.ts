@@ -0,0 +1,43 @@
+// --- PDF Text Layer ---
+// Turns pdf.js text items into page text and a heuristic title: the largest
+// font runs in the upper part of the page. Pure, so the browser worker, the CLI
+// and the pipeline share it.
+
+// The fields of a pdf.js TextItem this module reads
+export interface TextRun {
+  str: string;
+  transform: number[]; // [a, b, c, d, x, y], PDF units, origin bottom-left
+  height: number;
+  hasEOL?: boolean;
+}
+
+export interface PageText {
+  text: string;
+  title: string;
+}
+
+const TITLE_REGION = 0.4;     // Title candidates start in the top 40% of the page
+const TITLE_SIZE_RATIO = 0.85; // Runs at least this close to the largest size join the title
+const MAX_TITLE_LENGTH = 120;
+
+const fontSize = (run: TextRun) => run.height || Math.hypot(run.transform[2], run.transform[3]);
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const summarizeTextLayer = (runs: TextRun[], pageHeight: number): PageText => {
+  const visible = runs.filter(r => r.str.trim());
+  const text = clean(runs.map(r => r.str + (r.hasEOL ? '\n' : '')).join(''));
+  if (visible.length === 0) return { text: '', title: '' };
+
+  const top = visible.filter(r => r.transform[5] >= pageHeight * (1 - TITLE_REGION));
+  const candidates = top.length > 0 ? top : visible;
+  const largest = Math.max(...candidates.map(fontSize));
+  const title = candidates
+    .filter(r => fontSize(r) >= largest * TITLE_SIZE_RATIO)
+    // Reading order: top to bottom, then left to right
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4])
+    .map(r => r.str)
+    .join(' ');
+
+  return { text, title: clean(title).slice(0, MAX_TITLE_LENGTH) };
+};
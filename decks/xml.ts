@@ -0,0 +1,84 @@
+// --- Minimal XML Reader ---
+// Enough of XML for Office packages: elements, attributes, text and CDATA.
+// No DTDs or namespaces; names are matched by their local part, so `p:sld`
+// and `sld` are the same element. Works the same in the browser and in Node.
+
+export interface XmlElement {
+  name: string; // As written, prefix included
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+export const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+export const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [] };
+  const stack = [root];
+  let last = 0;
+  const addText = (value: string) => {
+    if (value) stack[stack.length - 1].children.push(value);
+  };
+
+  for (const match of text.matchAll(TOKEN)) {
+    addText(decodeEntities(text.slice(last, match.index)));
+    last = match.index! + match[0].length;
+    const [, cdata, closing, name, attrText, selfClosing] = match;
+    if (cdata !== undefined) {
+      addText(cdata);
+    } else if (name && closing) {
+      // Tolerate stray closing tags instead of failing the whole document
+      const open = stack.map(e => e.name).lastIndexOf(name);
+      if (open > 0) stack.length = open;
+    } else if (name) {
+      const attrs: Record<string, string> = {};
+      for (const [, key, double, single] of (attrText ?? '').matchAll(ATTRIBUTE)) attrs[key] = decodeEntities(double ?? single);
+      const element: XmlElement = { name, attrs, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  addText(decodeEntities(text.slice(last)));
+  return root;
+};
+
+// --- Queries ---
+
+const isElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+export const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter(isElement).filter(e => !name || localName(e.name) === name);
+
+export const child = (element: XmlElement | undefined, name: string): XmlElement | undefined =>
+  element && childElements(element, name)[0];
+
+// Descendants in document order
+export const findAll = (element: XmlElement, name: string): XmlElement[] =>
+  childElements(element).flatMap(e => (localName(e.name) === name ? [e, ...findAll(e, name)] : findAll(e, name)));
+
+export const findFirst = (element: XmlElement, name: string): XmlElement | undefined => findAll(element, name)[0];
+
+// Attribute by local name (`r:id` is found as `id`)
+export const attr = (element: XmlElement | undefined, name: string): string | undefined => {
+  if (!element) return undefined;
+  const key = Object.keys(element.attrs).find(k => localName(k) === name);
+  return key === undefined ? undefined : element.attrs[key];
+};
+
+export const textContent = (node: XmlNode): string =>
+  isElement(node) ? node.children.map(textContent).join('') : node;
@@ -0,0 +1,72 @@
+import { t } from '../i18n';
+
+// --- Zip Archive Reader ---
+// Reads the central directory of a zip (and of Office packages, which are zips)
+// and inflates single entries on demand with the platform's DecompressionStream.
+// Stored and deflated entries only; no Zip64, no encryption.
+
+export interface ZipEntry {
+  name: string; // Full path inside the archive, forward slashes
+  size: number; // Uncompressed bytes
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+// End record plus the longest possible archive comment
+const END_SEARCH = 22 + 0xffff;
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZip = (data: Uint8Array): ZipEntry[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const names = new TextDecoder();
+
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - END_SEARCH); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error(t('error.zipInvalid'));
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error(t('error.zipUnsupported'));
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error(t('error.zipInvalid'));
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = names.decode(data.subarray(offset + 46, offset + 46 + nameLength)).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue; // Directory
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (flags & 1) throw new Error(t('error.zipUnsupported'));
+        if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error(t('error.zipInvalid'));
+        // The local header's own name/extra lengths can differ from the directory's
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const bytes = data.subarray(start, start + compressedSize);
+        if (method === 0) return bytes;
+        if (method === 8) return inflateRaw(bytes);
+        throw new Error(t('error.zipUnsupported'));
+      },
+    });
+  }
+  return entries;
+};
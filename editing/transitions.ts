@@ -0,0 +1,78 @@
+import { SlideMatch } from '../types';
+import { formatTime } from '../utils/time';
+import { t } from '../i18n';
+
+// --- Manual Transition Edits ---
+// Pure operations on the results list. Every row a human touches is marked verified,
+// so exports and later runs can tell it apart from model guesses.
+
+export interface EditResult {
+  results: SlideMatch[];
+  index: number; // Where the edited row ended up (-1 if it was removed)
+}
+
+const withTime = (match: SlideMatch, seconds: number): SlideMatch => {
+  const clamped = Math.max(0, seconds);
+  // A start moved past the segment's end reopens it until the next segment
+  const endSeconds = match.endSeconds !== undefined && match.endSeconds < clamped ? undefined : match.endSeconds;
+  return { ...match, seconds: clamped, endSeconds, timestamp: formatTime(clamped) };
+};
+
+// Keeps the list time-ordered and reports the new position of `edited`
+const place = (results: SlideMatch[], edited: SlideMatch): EditResult => {
+  const sorted = [...results].sort((a, b) => a.seconds - b.seconds);
+  return { results: sorted, index: sorted.indexOf(edited) };
+};
+
+export const setTransitionTime = (results: SlideMatch[], index: number, seconds: number): EditResult => {
+  const edited = { ...withTime(results[index], seconds), verified: true };
+  return place(results.map((m, i) => (i === index ? edited : m)), edited);
+};
+
+export const reassignSlide = (
+  results: SlideMatch[],
+  index: number,
+  deckId: number,
+  pageNumber: number,
+  slideTitle: string
+): EditResult => {
+  const edited: SlideMatch = { ...results[index], deckId, pageNumber, slideTitle, verified: true };
+  return place(results.map((m, i) => (i === index ? edited : m)), edited);
+};
+
+export const insertTransition = (
+  results: SlideMatch[],
+  seconds: number,
+  deckId: number,
+  pageNumber: number,
+  slideTitle: string
+): EditResult => {
+  const clamped = Math.max(0, seconds);
+  // Open-ended: the new row runs until the next one
+  const inserted: SlideMatch = {
+    timestamp: formatTime(clamped),
+    seconds: clamped,
+    deckId,
+    pageNumber,
+    slideTitle,
+    reasoning: t('editor.manualReasoning'),
+    confidence: 'High',
+    verified: true,
+  };
+  return place([...results, inserted], inserted);
+};
+
+export const removeTransition = (results: SlideMatch[], index: number): EditResult => ({
+  results: results.filter((_, i) => i !== index),
+  index: -1,
+});
+
+// Keeps this row's start time but the next row's slide: for a wrong intermediate
+// match detected just before the real one.
+export const mergeWithNext = (results: SlideMatch[], index: number): EditResult => {
+  const next = results[index + 1];
+  if (!next) return { results, index };
+  const merged: SlideMatch = { ...withTime(next, results[index].seconds), verified: true };
+  const remaining = results.filter((_, i) => i !== index && i !== index + 1);
+  return place([...remaining, merged], merged);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SlideMatch } from '../types';
+import { deck, slideMatch } from '../testing/fixtures';
+import { evaluateMatches, matchesFromDocument } from './evaluate';
+import { parseGroundTruth, serializeGroundTruth, toGroundTruth } from './groundTruth';
+
+const decks = [deck(1, 'Intro', 3)];
+
+// A row of the single deck
+const row = (seconds: number, pageNumber: number, endSeconds?: number) => slideMatch(seconds, 1, pageNumber, { endSeconds });
+
+// Ground truth as exported from a corrected session and read back
+const truthOf = (matches: SlideMatch[], duration: number) =>
+  parseGroundTruth(serializeGroundTruth(toGroundTruth(matches, decks, duration)));
+
+describe('ground truth segment ends', () => {
+  it('are exported and read back', () => {
+    const truth = truthOf([row(0, 1, 10), row(30, 2)], 100);
+    expect(truth.transitions).toEqual([
+      { seconds: 0, end: 10, deckId: 1, pageNumber: 1 },
+      { seconds: 30, deckId: 1, pageNumber: 2 },
+    ]);
+  });
+
+  it('must not come before the start', () => {
+    const text = serializeGroundTruth(toGroundTruth([row(10, 1, 10)], decks, 20)).replace('"end": 10', '"end": 5');
+    expect(() => parseGroundTruth(text)).toThrow();
+  });
+
+  it('are read from ground-truth files scored as results', () => {
+    const doc = JSON.parse(serializeGroundTruth(toGroundTruth([row(0, 1, 10), row(30, 2)], decks, 100)));
+    expect(matchesFromDocument(doc).map(m => m.endSeconds)).toEqual([10, undefined]);
+  });
+});
+
+describe('evaluateMatches', () => {
+  it('scores a session with gaps against its own export as fully right', () => {
+    const matches = [row(0, 1, 10), row(30, 2, 50)];
+    const report = evaluateMatches(matches, truthOf(matches, 100));
+    expect(report.timeAccuracy).toBe(1);
+    expect(report.pageAccuracy).toBe(1);
+    expect(report.timing).toMatchObject({ mean: 0, bias: 0 });
+  });
+
+  it('counts a slide predicted during a true gap as wrong', () => {
+    const truth = truthOf([row(0, 1, 10), row(30, 2)], 50);
+    // Page 1 stays up until 30 s instead of leaving at 10 s
+    expect(evaluateMatches([row(0, 1), row(30, 2)], truth).timeAccuracy).toBeCloseTo(30 / 50);
+  });
+
+  it('pairs transitions within the tolerance and reports the rest', () => {
+    const truth = truthOf([row(0, 1), row(20, 2), row(40, 3)], 60);
+    const report = evaluateMatches([row(1, 1), row(22, 3), row(50, 3)], truth);
+    expect(report.pairs.map(p => [p.truth.seconds, p.predicted.seconds, p.samePage])).toEqual([[0, 1, true], [20, 22, false]]);
+    expect(report.missed.map(m => m.seconds)).toEqual([40]);
+    expect(report.spurious.map(m => m.seconds)).toEqual([50]);
+    expect(report.pageAccuracy).toBe(0.5);
+    expect(report.precision).toBeCloseTo(2 / 3);
+    expect(report.recall).toBeCloseTo(2 / 3);
+  });
+});
@@ -0,0 +1,138 @@
+import { SlideMatch } from '../types';
+import { normalizeSegments } from '../postprocess/segments';
+import { GroundTruth, TruthTransition } from './groundTruth';
+import { t } from '../i18n';
+
+// --- Sync Accuracy Evaluation ---
+// Pairs predicted transitions with ground-truth ones (one to one, closest in time
+// first, within a tolerance) and measures how far apart and how right they are.
+
+// A prediction further than this from every true transition counts as spurious
+export const DEFAULT_TOLERANCE = 3;
+
+export interface EvaluationPair {
+  truth: TruthTransition;
+  predicted: SlideMatch;
+  error: number;       // predicted - truth, seconds
+  samePage: boolean;
+}
+
+export interface EvaluationReport {
+  tolerance: number;
+  truthCount: number;
+  predictedCount: number;
+  pairs: EvaluationPair[];
+  missed: TruthTransition[];   // True transitions with no prediction nearby
+  spurious: SlideMatch[];      // Predictions with no true transition nearby
+  pageAccuracy: number | null; // Paired transitions showing the right page
+  timeAccuracy: number | null; // Share of the talk where the predicted slide is the true one
+  precision: number | null;    // Pairs / predictions
+  recall: number | null;       // Pairs / true transitions
+  timing: { mean: number; median: number; max: number; bias: number } | null; // Absolute error, seconds; bias is signed
+}
+
+const samePage = (a: { deckId: number; pageNumber: number }, b: { deckId: number; pageNumber: number }) =>
+  a.deckId === b.deckId && a.pageNumber === b.pageNumber;
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : null);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const overlap = (from: number, to: number, s: SlideMatch) => Math.max(0, Math.min(to, s.endSeconds!) - Math.max(from, s.seconds));
+
+// Time during which both timelines show the same page, or both show no slide,
+// from the first true transition on
+const correctTime = (predicted: SlideMatch[], truth: TruthTransition[], duration: number) => {
+  const segments = normalizeSegments(predicted, duration);
+  let correct = 0;
+  truth.forEach((t, i) => {
+    const next = i + 1 < truth.length ? truth[i + 1].seconds : duration;
+    const end = Math.min(t.end ?? next, next);
+    segments.forEach(s => {
+      if (samePage(s, t)) correct += overlap(t.seconds, end, s);
+    });
+    // A true gap is matched by the time no predicted segment covers
+    if (end < next) correct += next - end - segments.reduce((sum, s) => sum + overlap(end, next, s), 0);
+  });
+  return correct;
+};
+
+export const evaluateMatches = (
+  predicted: SlideMatch[],
+  truth: GroundTruth,
+  tolerance = DEFAULT_TOLERANCE
+): EvaluationReport => {
+  const truths = truth.transitions;
+  const duration = Math.max(truth.video.duration, ...truths.map(t => t.seconds), ...predicted.map(p => p.seconds));
+
+  // Greedy one-to-one pairing, closest pairs first
+  const candidates: { t: number; p: number; distance: number }[] = [];
+  truths.forEach((t, ti) => predicted.forEach((p, pi) => {
+    const distance = Math.abs(p.seconds - t.seconds);
+    if (distance <= tolerance) candidates.push({ t: ti, p: pi, distance });
+  }));
+  candidates.sort((a, b) => a.distance - b.distance);
+  const usedTruth = new Set<number>();
+  const usedPredicted = new Set<number>();
+  const pairs: EvaluationPair[] = [];
+  for (const c of candidates) {
+    if (usedTruth.has(c.t) || usedPredicted.has(c.p)) continue;
+    usedTruth.add(c.t);
+    usedPredicted.add(c.p);
+    pairs.push({
+      truth: truths[c.t],
+      predicted: predicted[c.p],
+      error: predicted[c.p].seconds - truths[c.t].seconds,
+      samePage: samePage(predicted[c.p], truths[c.t]),
+    });
+  }
+  pairs.sort((a, b) => a.truth.seconds - b.truth.seconds);
+
+  const errors = pairs.map(p => Math.abs(p.error));
+  const covered = truths.length > 0 ? duration - truths[0].seconds : 0;
+
+  return {
+    tolerance,
+    truthCount: truths.length,
+    predictedCount: predicted.length,
+    pairs,
+    missed: truths.filter((_, i) => !usedTruth.has(i)),
+    spurious: predicted.filter((_, i) => !usedPredicted.has(i)),
+    pageAccuracy: ratio(pairs.filter(p => p.samePage).length, pairs.length),
+    timeAccuracy: ratio(correctTime(predicted, truths, duration), covered),
+    precision: ratio(pairs.length, predicted.length),
+    recall: ratio(pairs.length, truths.length),
+    timing: errors.length > 0
+      ? {
+          mean: errors.reduce((a, b) => a + b, 0) / errors.length,
+          median: median(errors),
+          max: Math.max(...errors),
+          bias: pairs.reduce((a, p) => a + p.error, 0) / pairs.length,
+        }
+      : null,
+  };
+};
+
+// Predicted transitions from a results file: a JSON export, a saved project or a ground-truth file
+export const matchesFromDocument = (doc: any): SlideMatch[] => {
+  const rows: any[] | undefined = Array.isArray(doc?.transitions) ? doc.transitions : doc?.results;
+  if (!Array.isArray(rows)) throw new Error(t('error.resultsDocument'));
+  return rows
+    .filter(r => Number.isFinite(r?.seconds) && Number.isInteger(r?.deckId) && Number.isInteger(r?.pageNumber))
+    .map(r => ({
+      timestamp: String(r.timestamp ?? ''),
+      seconds: r.seconds,
+      // `end` in ground-truth files
+      ...(Number.isFinite(r.endSeconds ?? r.end) ? { endSeconds: r.endSeconds ?? r.end } : {}),
+      deckId: r.deckId,
+      pageNumber: r.pageNumber,
+      slideTitle: String(r.slideTitle ?? r.title ?? ''),
+      reasoning: String(r.reasoning ?? ''),
+      confidence: String(r.confidence ?? ''),
+    }))
+    .sort((a, b) => a.seconds - b.seconds);
+};
@@ -0,0 +1,100 @@
+import { DeckInfo, SlideMatch } from '../types';
+import { t } from '../i18n';
+
+// --- Ground Truth ---
+// Hand-checked transitions for one talk: when each slide appeared, in which deck.
+// Exported straight from a corrected session and read back by the evaluator.
+// {
+//   "format": "slide-sync-ground-truth", "version": 2,
+//   "video": { "fileName": "keynote.mp4", "duration": 1834.2 },
+//   "decks": [{ "deckId": 1, "label": "Intro", "fileName": "intro.pdf", "pageCount": 12 }],
+//   "transitions": [{ "seconds": 0, "end": 42.5, "deckId": 1, "pageNumber": 1, "title": "Welcome" }]
+// }
+
+export const GROUND_TRUTH_FORMAT = 'slide-sync-ground-truth';
+// v2: optional segment end
+export const GROUND_TRUTH_VERSION = 2;
+
+export interface TruthTransition {
+  seconds: number;
+  end?: number; // No slide on screen from here until the next transition; open when missing
+  deckId: number;
+  pageNumber: number;
+  title?: string; // For people reading the file; ignored by the evaluator
+}
+
+export interface GroundTruth {
+  video: { fileName: string | null; duration: number };
+  decks: DeckInfo[];
+  transitions: TruthTransition[]; // Time-ordered
+}
+
+export const toGroundTruth = (
+  matches: SlideMatch[],
+  decks: DeckInfo[],
+  duration: number,
+  videoFileName?: string
+): GroundTruth => ({
+  video: { fileName: videoFileName ?? null, duration },
+  decks: decks.map(d => ({ deckId: d.deckId, label: d.label, fileName: d.fileName, pageCount: d.pageCount })),
+  transitions: [...matches]
+    .sort((a, b) => a.seconds - b.seconds)
+    .map(m => ({
+      seconds: Number(m.seconds.toFixed(3)),
+      ...(m.endSeconds !== undefined ? { end: Number(m.endSeconds.toFixed(3)) } : {}),
+      deckId: m.deckId,
+      pageNumber: m.pageNumber,
+      ...(m.slideTitle ? { title: m.slideTitle } : {}),
+    })),
+});
+
+export const serializeGroundTruth = (truth: GroundTruth): string =>
+  JSON.stringify({ format: GROUND_TRUTH_FORMAT, version: GROUND_TRUTH_VERSION, ...truth }, null, 2) + '\n';
+
+const isIndex = (v: unknown) => Number.isInteger(v) && (v as number) >= 1;
+
+// Validates a ground-truth document; `source` names it in error messages
+export const parseGroundTruth = (text: string, source = t('truth.defaultSource')): GroundTruth => {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(t('truth.unparseable', { source, message: e.message }));
+  }
+  if (doc?.format !== GROUND_TRUTH_FORMAT) {
+    throw new Error(t('truth.wrongFormat', { source, format: GROUND_TRUTH_FORMAT }));
+  }
+  if (doc.version > GROUND_TRUTH_VERSION) {
+    throw new Error(t('truth.tooNew', { source, version: doc.version, supported: GROUND_TRUTH_VERSION }));
+  }
+  if (!Array.isArray(doc.decks) || !Array.isArray(doc.transitions)) {
+    throw new Error(t('truth.missingLists', { source }));
+  }
+
+  const decks: DeckInfo[] = doc.decks.map((d: any, i: number) => {
+    if (!isIndex(d?.deckId) || !isIndex(d?.pageCount)) throw new Error(t('truth.badDeck', { source, index: i + 1 }));
+    return { deckId: d.deckId, label: String(d.label ?? ''), fileName: String(d.fileName ?? ''), pageCount: d.pageCount };
+  });
+  const transitions: TruthTransition[] = doc.transitions.map((row: any, i: number) => {
+    if (!Number.isFinite(row?.seconds) || row.seconds < 0 || !isIndex(row.deckId) || !isIndex(row.pageNumber)
+      || (row.end !== undefined && !(Number.isFinite(row.end) && row.end >= row.seconds))) {
+      throw new Error(t('truth.badTransition', { source, index: i + 1 }));
+    }
+    return {
+      seconds: row.seconds,
+      ...(row.end !== undefined ? { end: row.end } : {}),
+      deckId: row.deckId,
+      pageNumber: row.pageNumber,
+      ...(typeof row.title === 'string' ? { title: row.title } : {}),
+    };
+  });
+  transitions.sort((a, b) => a.seconds - b.seconds);
+
+  const lastSeconds = transitions.length > 0 ? transitions[transitions.length - 1].seconds : 0;
+  const duration = Number.isFinite(doc.video?.duration) && doc.video.duration > 0 ? doc.video.duration : lastSeconds;
+  return {
+    video: { fileName: typeof doc.video?.fileName === 'string' ? doc.video.fileName : null, duration },
+    decks,
+    transitions,
+  };
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { deck, slideMatch } from '../testing/fixtures';
+import { ExportContext, JSON_EXPORT_VERSION, toCsv, toJson, toJsonDocument, toSrt, toWebVtt, toYouTubeChapters } from './index';
+import { layoutParts } from '../video/parts';
+
+const decks = [deck(1, 'Intro', 3), deck(2, '', 2)];
+
+const ctx: ExportContext = { decks, duration: 120 };
+
+describe('toWebVtt', () => {
+  it('writes one numbered cue per segment, each lasting until the next', () => {
+    const matches = [slideMatch(65.5, 2, 1), slideMatch(0, 1, 1, { slideTitle: 'Welcome' })];
+    expect(toWebVtt(matches, ctx)).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:01:05.500\nIntro p.1 - Welcome\n\n' +
+      '2\n00:01:05.500 --> 00:02:00.000\nDECK 2 p.1\n'
+    );
+  });
+
+  it('keeps known segment ends and cleans arrows and line breaks from titles', () => {
+    const matches = [slideMatch(0, 1, 1, { endSeconds: 10, slideTitle: 'A --> B\n\nC' }), slideMatch(30, 1, 2)];
+    expect(toWebVtt(matches, ctx)).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:10.000\nIntro p.1 - A -> B C\n\n' +
+      '2\n00:00:30.000 --> 00:02:00.000\nIntro p.2\n'
+    );
+  });
+});
+
+describe('toSrt', () => {
+  it('uses commas before the milliseconds and no header', () => {
+    const matches = [slideMatch(0, 1, 1, { slideTitle: 'Welcome' }), slideMatch(65.5, 2, 1)];
+    expect(toSrt(matches, ctx)).toBe(
+      '1\n00:00:00,000 --> 00:01:05,500\nIntro p.1 - Welcome\n\n' +
+      '2\n00:01:05,500 --> 00:02:00,000\nDECK 2 p.1\n'
+    );
+  });
+});
+
+describe('toYouTubeChapters', () => {
+  it('starts at 00:00 with the first slide when the talk opens on it', () => {
+    expect(toYouTubeChapters([slideMatch(0, 1, 1), slideMatch(30, 1, 2)], ctx, 'Intro')).toBe('00:00 Intro p.1\n00:30 Intro p.2\n');
+  });
+
+  it('adds an intro chapter before a late first transition', () => {
+    expect(toYouTubeChapters([slideMatch(30, 1, 1), slideMatch(75, 2, 1)], ctx, 'Opening')).toBe(
+      '00:00 Opening\n00:30 Intro p.1\n01:15 DECK 2 p.1\n'
+    );
+  });
+
+  it('gives a leading gap shorter than a chapter to the first slide', () => {
+    expect(toYouTubeChapters([slideMatch(4, 1, 1), slideMatch(12, 1, 2), slideMatch(20, 1, 3)], ctx, 'Opening')).toBe(
+      '00:00 Intro p.1\n00:12 Intro p.2\n'
+    );
+  });
+
+  it('folds transitions less than 10 s after the previous chapter into it', () => {
+    const matches = [
+      slideMatch(0, 1, 1), slideMatch(5, 1, 2), slideMatch(9.9, 1, 3), slideMatch(10, 2, 1), slideMatch(19, 2, 2), slideMatch(25, 1, 1),
+    ];
+    expect(toYouTubeChapters(matches, ctx, 'Intro')).toBe('00:00 Intro p.1\n00:10 DECK 2 p.1\n00:25 Intro p.1\n');
+  });
+
+  it('writes hours once the talk passes one', () => {
+    expect(toYouTubeChapters([slideMatch(0, 1, 1), slideMatch(3725, 1, 2)], { decks, duration: 4000 }, 'Intro')).toBe(
+      '00:00 Intro p.1\n1:02:05 Intro p.2\n'
+    );
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes or line breaks and ends rows with CRLF', () => {
+    const matches = [slideMatch(0, 1, 1, { slideTitle: 'Hello, "world"', reasoning: 'line1\nline2', coarseSeconds: 0.5 })];
+    expect(toCsv(matches, ctx)).toBe(
+      'start,end,seconds,coarse_seconds,deck_id,deck_label,page,title,confidence,verified,reasoning,transcript\r\n' +
+      '00:00:00.000,00:02:00.000,0.000,0.500,1,Intro,1,"Hello, ""world""",High,false,"line1\nline2",\r\n'
+    );
+  });
+
+  it('adds the speech of each segment', () => {
+    const transcript = [{ start: 1, end: 3, text: 'Hi' }, { start: 40, end: 45, text: 'Next,' }, { start: 46, end: 48, text: 'slide' }];
+    const rows = toCsv([slideMatch(0, 1, 1), slideMatch(30, 1, 2)], { ...ctx, transcript }).split('\r\n');
+    expect(rows[1].endsWith(',Hi')).toBe(true);
+    expect(rows[2].endsWith(',"Next, slide"')).toBe(true);
+  });
+
+  it('adds part columns for a talk recorded in several files', () => {
+    const parts = layoutParts([{ fileName: 'a.mp4', duration: 60 }, { fileName: 'b.mp4', duration: 60 }]);
+    const rows = toCsv([slideMatch(0, 1, 1), slideMatch(90, 1, 2)], { ...ctx, parts }).split('\r\n');
+    expect(rows[0].startsWith('start,end,part,part_start,seconds,')).toBe(true);
+    expect(rows[2].startsWith('00:01:30.000,00:02:00.000,2,00:00:30.000,90.000,')).toBe(true);
+  });
+});
+
+describe('toJson', () => {
+  it('describes the video, decks and every segment', () => {
+    const matches = [slideMatch(30.1234, 2, 1), slideMatch(0, 1, 1, { endSeconds: 10 })];
+    const doc = toJsonDocument(matches, { ...ctx, videoFileName: 'talk.mp4', matcher: 'local' }, new Date('2024-01-02T03:04:05Z'));
+    expect(doc).toMatchObject({
+      format: 'slide-sync',
+      version: JSON_EXPORT_VERSION,
+      exportedAt: '2024-01-02T03:04:05.000Z',
+      video: { fileName: 'talk.mp4', duration: 120, parts: null },
+      decks: [
+        { deckId: 1, label: 'Intro', fileName: 'deck1.pdf', pageCount: 3 },
+        { deckId: 2, label: '', fileName: 'deck2.pdf', pageCount: 2 },
+      ],
+      analysis: { matcher: 'local', frameCount: null, sampling: null },
+      transcript: null,
+    });
+    expect(doc.transitions.map(tr => [tr.start, tr.end, tr.seconds, tr.deckId])).toEqual([
+      [0, 10, 0, 1],
+      [30.123, 120, 30.123, 2],
+    ]);
+  });
+
+  it('adds the part and part-local start of each transition for a multi-part talk', () => {
+    const parts = layoutParts([{ fileName: 'a.mp4', duration: 60 }, { fileName: 'b.mp4', duration: 60 }]);
+    const doc = JSON.parse(toJson([slideMatch(0, 1, 1), slideMatch(75.5, 1, 2)], { ...ctx, parts }));
+    expect(doc.video.parts).toHaveLength(2);
+    expect(doc.transitions.map((tr: { part: number; partSeconds: number }) => [tr.part, tr.partSeconds])).toEqual([[1, 0], [2, 15.5]]);
+  });
+
+  it('ends with a newline and parses back', () => {
+    const text = toJson([slideMatch(0, 1, 1)], ctx);
+    expect(text.endsWith('}\n')).toBe(true);
+    expect(JSON.parse(text).transitions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,210 @@
+import { DeckInfo, PdfPageImage, SlideMatch, VideoPart } from '../types';
+import { MatcherKind } from '../matchers/types';
+import { formatClock, formatTimecode } from '../utils/time';
+import { SamplingOptions } from '../video/sampling';
+import { normalizeSegments } from '../postprocess/segments';
+import { isMultiPart, matchesForPart, partAt, transcriptForPart } from '../video/parts';
+import { TranscriptSegment } from '../transcripts/types';
+import { assignTranscript, transcriptText } from '../transcripts/assign';
+import { toNotesHtml, toNotesMarkdown } from './notes';
+import { serializeGroundTruth, toGroundTruth } from '../evaluation/groundTruth';
+import { MessageKey, t } from '../i18n';
+
+// --- Result Exporters ---
+// Pure functions: SlideMatch[] + context in, file contents out.
+
+export interface ExportContext {
+  decks: DeckInfo[];
+  duration: number; // Video length in seconds, closes the last chapter
+  videoFileName?: string;
+  parts?: VideoPart[]; // A talk recorded as several files; times stay on the combined timeline
+  matcher?: MatcherKind;
+  sampling?: SamplingOptions;
+  frameCount?: number;
+  pages?: PdfPageImage[];           // Slide images and titles for the notes documents
+  transcript?: TranscriptSegment[]; // Speech, when the talk was transcribed
+}
+
+export type ExportFormat = 'vtt' | 'srt' | 'youtube' | 'csv' | 'json' | 'notes-md' | 'notes-html' | 'ground-truth';
+
+// `chapters`: a chapter list, which a multi-part talk can also get once per part
+export const EXPORT_FORMATS: { format: ExportFormat; label: MessageKey; extension: string; mimeType: string; chapters?: boolean }[] = [
+  { format: 'vtt', label: 'export.vtt', extension: 'chapters.vtt', mimeType: 'text/vtt', chapters: true },
+  { format: 'srt', label: 'export.srt', extension: 'srt', mimeType: 'application/x-subrip', chapters: true },
+  { format: 'youtube', label: 'export.youtube', extension: 'youtube.txt', mimeType: 'text/plain', chapters: true },
+  { format: 'csv', label: 'export.csv', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'json', label: 'export.json', extension: 'json', mimeType: 'application/json' },
+  { format: 'notes-md', label: 'export.notesMarkdown', extension: 'notes.md', mimeType: 'text/markdown' },
+  { format: 'notes-html', label: 'export.notesHtml', extension: 'notes.html', mimeType: 'text/html' },
+  { format: 'ground-truth', label: 'export.groundTruth', extension: 'truth.json', mimeType: 'application/json' },
+];
+
+// Bump when the JSON document shape changes
+// v2: transcript text per transition and the full transcript
+// v3: video parts, with the part and part-local start of each transition
+export const JSON_EXPORT_VERSION = 3;
+
+// YouTube ignores chapter lists whose entries are shorter than this
+const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+interface Chapter {
+  start: number;
+  end: number;
+  match: SlideMatch;
+  transcript: string; // What was said during the chapter ('' without a transcript)
+}
+
+const sortedByTime = (matches: SlideMatch[]) => [...matches].sort((a, b) => a.seconds - b.seconds);
+
+// Segments without a known end run until the next one; gaps between segments stay gaps
+const toChapters = (matches: SlideMatch[], ctx: ExportContext): Chapter[] => {
+  const segments = normalizeSegments(matches, ctx.duration);
+  const lines = assignTranscript(segments, ctx.transcript ?? [], ctx.duration);
+  return segments.map((match, i) => ({
+    start: match.seconds,
+    end: match.endSeconds!,
+    match,
+    transcript: transcriptText(lines[i]),
+  }));
+};
+
+export const chapterTitle = (match: SlideMatch, decks: DeckInfo[]): string => {
+  const deck = decks.find(d => d.deckId === match.deckId);
+  const source = `${deck?.label || `DECK ${match.deckId}`} p.${match.pageNumber}`;
+  return match.slideTitle ? `${source} - ${match.slideTitle}` : source;
+};
+
+// Cue text must not contain blank lines or the "-->" arrow
+const cueText = (text: string) => text.replace(/-->/g, '->').replace(/\s*\n\s*/g, ' ').trim();
+
+export const toWebVtt = (matches: SlideMatch[], ctx: ExportContext): string => {
+  const cues = toChapters(matches, ctx).map((ch, i) =>
+    `${i + 1}\n${formatTimecode(ch.start)} --> ${formatTimecode(ch.end)}\n${cueText(chapterTitle(ch.match, ctx.decks))}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+export const toSrt = (matches: SlideMatch[], ctx: ExportContext): string => {
+  const cues = toChapters(matches, ctx).map((ch, i) =>
+    `${i + 1}\n${formatTimecode(ch.start, ',')} --> ${formatTimecode(ch.end, ',')}\n${cueText(chapterTitle(ch.match, ctx.decks))}`
+  );
+  return cues.join('\n\n') + '\n';
+};
+
+// YouTube rules: the first chapter must start at 00:00 and chapters need at least 10 s.
+// A leading gap of 10 s or more becomes an intro chapter; a shorter one goes to the first
+// slide. Transitions too close to the previous chapter are folded into it.
+export const toYouTubeChapters = (matches: SlideMatch[], ctx: ExportContext, introTitle = t('export.introChapter')): string => {
+  const lines: { start: number; title: string }[] = [];
+  sortedByTime(matches).forEach(match => {
+    const title = cueText(chapterTitle(match, ctx.decks));
+    if (lines.length === 0) {
+      if (match.seconds >= YOUTUBE_MIN_CHAPTER_SECONDS) {
+        lines.push({ start: 0, title: introTitle });
+      } else {
+        lines.push({ start: 0, title });
+        return;
+      }
+    }
+    if (match.seconds - lines[lines.length - 1].start >= YOUTUBE_MIN_CHAPTER_SECONDS) {
+      lines.push({ start: match.seconds, title });
+    }
+  });
+  return lines.map(l => `${formatClock(l.start)} ${l.title}`).join('\n') + '\n';
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Part columns only appear for multi-part talks, so single-video files keep their shape
+export const toCsv = (matches: SlideMatch[], ctx: ExportContext): string => {
+  const parts = isMultiPart(ctx.parts) ? ctx.parts : null;
+  const header = [
+    'start', 'end', ...(parts ? ['part', 'part_start'] : []), 'seconds', 'coarse_seconds',
+    'deck_id', 'deck_label', 'page', 'title', 'confidence', 'verified', 'reasoning', 'transcript',
+  ];
+  const rows = toChapters(matches, ctx).map(ch => {
+    const deck = ctx.decks.find(d => d.deckId === ch.match.deckId);
+    const at = parts ? partAt(parts, ch.start) : null;
+    return [
+      formatTimecode(ch.start),
+      formatTimecode(ch.end),
+      ...(at ? [at.part.part, formatTimecode(at.local)] : []),
+      ch.start.toFixed(3),
+      ch.match.coarseSeconds?.toFixed(3) ?? '',
+      ch.match.deckId,
+      deck?.label || '',
+      ch.match.pageNumber,
+      ch.match.slideTitle || '',
+      ch.match.confidence || '',
+      ch.match.verified ? 'true' : 'false',
+      ch.match.reasoning || '',
+      ch.transcript,
+    ];
+  });
+  // CRLF per RFC 4180
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+const partFields = (parts: VideoPart[], seconds: number) => {
+  const { part, local } = partAt(parts, seconds);
+  return { part: part.part, partSeconds: Number(local.toFixed(3)) };
+};
+
+export const toJsonDocument = (matches: SlideMatch[], ctx: ExportContext, exportedAt = new Date()) => ({
+  format: 'slide-sync',
+  version: JSON_EXPORT_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  video: {
+    fileName: ctx.videoFileName ?? null,
+    duration: ctx.duration,
+    parts: isMultiPart(ctx.parts) ? ctx.parts : null,
+  },
+  decks: ctx.decks.map(d => ({ deckId: d.deckId, label: d.label, fileName: d.fileName, pageCount: d.pageCount })),
+  analysis: {
+    matcher: ctx.matcher ?? null,
+    frameCount: ctx.frameCount ?? null,
+    sampling: ctx.sampling ?? null,
+  },
+  transitions: toChapters(matches, ctx).map(ch => ({
+    start: Number(ch.start.toFixed(3)),
+    end: Number(ch.end.toFixed(3)),
+    ...ch.match,
+    seconds: Number(ch.match.seconds.toFixed(3)),
+    verified: !!ch.match.verified,
+    ...(isMultiPart(ctx.parts) ? partFields(ctx.parts, ch.start) : {}),
+    transcript: ch.transcript,
+  })),
+  transcript: ctx.transcript ?? null,
+});
+
+export const toJson = (matches: SlideMatch[], ctx: ExportContext): string =>
+  JSON.stringify(toJsonDocument(matches, ctx), null, 2) + '\n';
+
+export const exportResults = (format: ExportFormat, matches: SlideMatch[], ctx: ExportContext): string => {
+  switch (format) {
+    case 'vtt': return toWebVtt(matches, ctx);
+    case 'srt': return toSrt(matches, ctx);
+    case 'youtube': return toYouTubeChapters(matches, ctx);
+    case 'csv': return toCsv(matches, ctx);
+    case 'json': return toJson(matches, ctx);
+    case 'notes-md': return toNotesMarkdown(matches, ctx);
+    case 'notes-html': return toNotesHtml(matches, ctx);
+    case 'ground-truth': return serializeGroundTruth(toGroundTruth(matches, ctx.decks, ctx.duration, ctx.videoFileName));
+  }
+};
+
+// One file per video part, each in the part's own time, for chapter lists attached to the separate uploads
+export const exportResultsByPart = (format: ExportFormat, matches: SlideMatch[], ctx: ExportContext): { part: VideoPart; text: string }[] =>
+  (ctx.parts ?? []).map(part => ({
+    part,
+    text: exportResults(format, matchesForPart(matches, part, ctx.duration), {
+      ...ctx,
+      duration: part.duration,
+      videoFileName: part.fileName,
+      parts: undefined,
+      transcript: ctx.transcript && transcriptForPart(ctx.transcript, part),
+    }),
+  }));
@@ -0,0 +1,114 @@
+import { SlideMatch } from '../types';
+import { formatClock } from '../utils/time';
+import { normalizeSegments } from '../postprocess/segments';
+import { assignTranscript, transcriptText } from '../transcripts/assign';
+import type { ExportContext } from './index';
+import { t } from '../i18n';
+
+// --- Deck With Speaker Notes ---
+// The deck in page order, each page with when it was shown and what was said
+// while it was on screen. Every visit of a page contributes its own paragraph.
+
+interface NotesVisit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface NotesPage {
+  pageNumber: number;
+  title: string;
+  dataUrl?: string;
+  visits: NotesVisit[];
+}
+
+interface NotesDeck {
+  label: string;
+  pages: NotesPage[];
+}
+
+const collectNotes = (matches: SlideMatch[], ctx: ExportContext): NotesDeck[] => {
+  const segments = normalizeSegments(matches, ctx.duration);
+  const lines = assignTranscript(segments, ctx.transcript ?? [], ctx.duration);
+  const pages = ctx.pages ?? [];
+
+  return ctx.decks.map(deck => ({
+    label: deck.label || `DECK ${deck.deckId}`,
+    pages: Array.from({ length: deck.pageCount }, (_, i) => {
+      const pageNumber = i + 1;
+      const image = pages.find(p => p.deckId === deck.deckId && p.pageNumber === pageNumber);
+      const visits = segments
+        .map((segment, k) => ({ segment, text: transcriptText(lines[k]) }))
+        .filter(({ segment }) => segment.deckId === deck.deckId && segment.pageNumber === pageNumber);
+      return {
+        pageNumber,
+        title: image?.title || visits.find(v => v.segment.slideTitle)?.segment.slideTitle || '',
+        dataUrl: image?.dataUrl,
+        visits: visits.map(({ segment, text }) => ({ start: segment.seconds, end: segment.endSeconds!, text })),
+      };
+    }),
+  }));
+};
+
+const documentTitle = (ctx: ExportContext) => ctx.videoFileName ? t('notes.titleFor', { name: ctx.videoFileName }) : t('notes.title');
+
+const visitRange = (v: NotesVisit) => `${formatClock(v.start)}–${formatClock(v.end)}`;
+
+const pageHeading = (page: NotesPage) => page.title ? `p.${page.pageNumber} - ${page.title}` : `p.${page.pageNumber}`;
+
+export const toNotesMarkdown = (matches: SlideMatch[], ctx: ExportContext): string => {
+  const out: string[] = [`# ${documentTitle(ctx)}`];
+  collectNotes(matches, ctx).forEach(deck => {
+    out.push(`## ${deck.label}`);
+    deck.pages.forEach(page => {
+      out.push(`### ${pageHeading(page)}`);
+      if (page.dataUrl) out.push(`![p.${page.pageNumber}](${page.dataUrl})`);
+      if (page.visits.length === 0) {
+        out.push(`_${t('notes.notShown')}_`);
+        return;
+      }
+      out.push(`_${t('notes.shownAt', { ranges: page.visits.map(visitRange).join(t('common.listSeparator')) })}_`);
+      page.visits.filter(v => v.text).forEach(v => out.push(`> **${formatClock(v.start)}** ${v.text}`));
+    });
+  });
+  return out.join('\n\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const NOTES_CSS = `body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem;color:#1e293b}
+section{display:grid;grid-template-columns:minmax(0,2fr) minmax(0,3fr);gap:1.5rem;padding:1.5rem 0;border-top:1px solid #e2e8f0}
+img{width:100%;border:1px solid #cbd5e1;border-radius:4px}
+h3{margin:0 0 .5rem}.when{color:#64748b;font-size:.875rem}.missing{color:#94a3b8;font-style:italic}
+p{line-height:1.6}time{font-family:monospace;color:#4f46e5;margin-right:.5rem}`;
+
+export const toNotesHtml = (matches: SlideMatch[], ctx: ExportContext): string => {
+  const title = escapeHtml(documentTitle(ctx));
+  const decks = collectNotes(matches, ctx).map(deck => {
+    const pages = deck.pages.map(page => {
+      const image = page.dataUrl ? `<img src="${page.dataUrl}" alt="p.${page.pageNumber}">` : '<div></div>';
+      const notes = page.visits.length === 0
+        ? `<p class="missing">${escapeHtml(t('notes.notShown'))}</p>`
+        : [
+            `<div class="when">${escapeHtml(t('notes.shownAt', { ranges: page.visits.map(visitRange).join(t('common.listSeparator')) }))}</div>`,
+            ...page.visits.filter(v => v.text).map(v => `<p><time>${formatClock(v.start)}</time>${escapeHtml(v.text)}</p>`),
+          ].join('\n');
+      return `<section>${image}<div><h3>${escapeHtml(pageHeading(page))}</h3>\n${notes}</div></section>`;
+    });
+    return `<h2>${escapeHtml(deck.label)}</h2>\n${pages.join('\n')}`;
+  });
+  return `<!DOCTYPE html>
+<html lang="${t('notes.htmlLang')}">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${NOTES_CSS}</style>
+</head>
+<body>
+<h1>${title}</h1>
+${decks.join('\n')}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,49 @@
+import { useCallback, useState } from 'react';
+
+// --- Undo / Redo History ---
+// `set` records an undoable step; `reset` replaces the value and clears history
+// (used for data that arrives from the pipeline rather than from the user).
+
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const useHistory = <T,>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((value: T) => {
+    setState(s => ({ past: [...s.past, s.present].slice(-MAX_HISTORY), present: value, future: [] }));
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => {
+      if (s.past.length === 0) return s;
+      return { past: s.past.slice(0, -1), present: s.past[s.past.length - 1], future: [s.present, ...s.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => {
+      if (s.future.length === 0) return s;
+      return { past: [...s.past, s.present], present: s.future[0], future: s.future.slice(1) };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, subscribeLocale } from '../i18n';
+
+// --- Current Locale ---
+// Components that call `t` use this so a language switch re-renders them.
+
+export const useLocale = () => useSyncExternalStore(subscribeLocale, getLocale);
@@ -0,0 +1,459 @@
+import type { Catalog } from './index';
+
+export const en: Catalog = {
+  // --- App ---
+  'app.title': 'Slide Sync AI (multi-deck, high precision)',
+  'app.tagline': 'Parallel processing | Smart matching | Timeline repair',
+  'app.interfaceLanguage': 'Interface language',
+
+  // --- Common ---
+  'common.cancelled': 'Cancelled.',
+  'common.unknown': 'Unknown',
+  'common.listSeparator': ', ',
+  'common.cancel': 'Cancel',
+  'common.seconds': '{value} s',
+  'common.secondsUnit': 's',
+  'common.noPreview': 'No preview',
+  'common.untitled': 'Untitled',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+
+  // --- Errors ---
+  'error.imageDecode': 'Could not decode the image.',
+  'error.canvas': 'Could not create a canvas.',
+  'error.worker': 'Background processing failed',
+  'error.videoLoad': 'Could not load the video',
+  'error.videoPlayback': 'Video playback error',
+  'error.videoDuration': 'Could not determine the video length.',
+  'error.dbOpen': 'Could not open the local database.',
+  'error.dbAborted': 'The database transaction was aborted.',
+  'error.projectMissing': 'Project not found.',
+  'error.replayExhausted': 'The replay script has only {count} response(s).',
+  'error.httpStatus': 'The model service returned an error (HTTP {status}): {detail}',
+  'error.geminiBlocked': 'Gemini stopped responding under its content safety rules ({reason}).',
+  'error.contentFiltered': 'The model stopped responding under its content filter.',
+  'error.geminiKeyMissing': 'The Gemini API key is missing.',
+  'error.openaiSettingsMissing': 'Enter the URL and model name of the OpenAI-compatible endpoint.',
+  'error.emptyResponse': 'The model returned an empty response.',
+  'error.unparseableResponse': 'Could not parse the analysis result: the model response is not valid JSON.',
+  'error.verifyNotCandidate': 'The verification answer, DECK {deckId} page {pageNumber}, was not one of the candidate pages.',
+  'error.resultsDocument': 'A results file must be a JSON export, a project or a ground-truth file (with transitions or results)',
+  'error.geminiUploadFailed': 'Gemini could not process the uploaded video: {message}',
+  'error.emptyTranscript': 'Gemini returned no transcript.',
+  'error.emptyCaptions': 'The caption file "{fileName}" has no usable captions.',
+  'error.extractionMissing': 'The extracted data for this project is gone; analyze it again.',
+  'error.zipInvalid': 'The file is not a valid zip archive.',
+  'error.zipUnsupported': 'This zip archive is not supported (encrypted, Zip64 or an unsupported compression method).',
+  'error.pptxInvalid': 'The file is not a valid PowerPoint (.pptx) presentation, or it has no slides.',
+  'error.deckNoImages': 'The deck has no usable slide images.',
+  'error.deckImage': 'Could not decode the slide image "{name}".',
+  'error.deckFormat': 'A deck must be a PDF, a .pptx, a zip of images or a set of slide images.',
+
+  // --- Error categories ---
+  'errorCategory.quota.label': 'Quota or rate limit',
+  'errorCategory.quota.hint': 'Wait a moment and try again, or lower the frame limit and the analysis budget.',
+  'errorCategory.safety.label': 'Blocked by content safety',
+  'errorCategory.safety.hint': 'The model refused these frames. Try local matching or a different part of the video.',
+  'errorCategory.auth.label': 'Invalid API key or no access',
+  'errorCategory.auth.hint': 'Check that the API key is correct and that the model is enabled for it.',
+  'errorCategory.network.label': 'Network error',
+  'errorCategory.network.hint': 'Check your connection and try again.',
+  'errorCategory.server.label': 'Model service unavailable',
+  'errorCategory.server.hint': 'The service is busy or failed. Try again later.',
+  'errorCategory.cancelled.label': 'Cancelled',
+  'errorCategory.cancelled.hint': '',
+  'errorCategory.unknown.label': 'Analysis failed',
+  'errorCategory.unknown.hint': '',
+  'errorCategory.withMessage': '{label}: {message}',
+
+  // --- Providers ---
+  'provider.mock': 'Recorded response replay',
+  'provider.openai': '{model} (OpenAI-compatible)',
+
+  // --- Matchers ---
+  'matcher.localLabel': 'Local image matching',
+  'matcher.localReasoning': 'Local image matching: mean similarity {score} ({frames} frames, runner-up page {runnerUp})',
+  'matcher.localTitle': '{deck} page {page}',
+  'matcher.gemini': 'Gemini AI',
+  'matcher.geminiDescription': 'Multimodal model matching; needs an API key',
+  'matcher.openai': 'OpenAI-compatible',
+  'matcher.openaiDescription': 'Any OpenAI-compatible vision endpoint, such as a self-hosted model',
+  'matcher.local': 'Local',
+  'matcher.localDescription': 'Offline image similarity; files never leave this device',
+
+  // --- Processing status ---
+  'status.extracting': 'Processing files in parallel (video and PDF)...',
+  'status.estimating': 'Estimating token usage ({matcher})...',
+  'status.analyzing': 'Matching slides ({matcher})...',
+  'status.verifying': 'Double-checking uncertain matches ({matcher})...',
+  'status.retrying': '{reason}; retrying in {seconds} s ({attempt}/{retries})...',
+  'status.refining': 'Refining transition times...',
+  'status.transcribing': 'Waiting for the transcription ({progress}%)...',
+  'status.preparing': 'Processing files in parallel (video and PDF)...',
+  'status.done': 'Analysis complete!',
+  'status.donePartial': 'Analysis complete (partial results)',
+  'status.cancelled': 'Analysis cancelled.',
+  'status.failed': 'Something went wrong',
+  'status.projectLoaded': 'Project loaded',
+  'status.projectOpenFailed': 'Could not open the project',
+  'status.window': 'Analyzing in windows: {index} / {count}',
+
+  // --- Budget ---
+  'budget.lowDetail': 'low-resolution images',
+  'budget.thinned': 'frames reduced from {from} to {to}',
+
+  // --- Usage estimate ---
+  'estimate.title': 'Confirm analysis usage',
+  'estimate.requests': 'Requests',
+  'estimate.inputTokens': 'Input tokens',
+  'estimate.inputTokensApprox': 'Input tokens (estimated)',
+  'estimate.maxOutputTokens': 'Output token limit',
+  'estimate.maxCost': 'Cost ceiling (USD)',
+  'estimate.noPricing': 'No pricing data',
+  'estimate.totalNote': 'At most {tokens} tokens in total. Cost uses list prices and each request\'s output limit, so the actual cost is usually lower.',
+  'estimate.adjusted': 'Adjusted to fit the budget: ',
+  'estimate.overBudget': 'Still over budget even at low resolution with fewer frames; continuing will exceed the limit you set.',
+  'estimate.start': 'Start analysis',
+
+  // --- Input form ---
+  'input.uploadVideo': 'Upload the full video',
+  'input.changeVideo': 'Change video',
+  'input.chooseVideo': 'Choose a video file',
+  'input.videoParts': '{count} parts · {size} MB',
+  'input.videoPartsHint': 'Played back to back on one timeline; several files can be selected at once',
+  'input.addVideoPart': 'Add next part',
+  'input.removeVideoPart': 'Remove part',
+  'input.moveUp': 'Move up',
+  'input.moveDown': 'Move down',
+  'input.removeDeck': 'Remove deck',
+  'input.uploadDeck': 'Upload deck {position}',
+  'input.deckFormats': 'PDF, PPTX, zip of images or image folder',
+  'input.changeDeck': 'Change file',
+  'input.chooseDeck': 'Choose file',
+  'input.chooseFolder': 'Choose folder',
+  'input.addDeck': 'Add deck',
+  'input.matcher': 'Matching',
+  'input.model': 'Model',
+  'input.endpoint': 'Endpoint',
+  'input.optional': 'Optional',
+  'input.maxTokens': 'Analysis token limit',
+  'input.budgetHint': 'Usage is estimated before starting; over the limit, image resolution or the frame count is reduced',
+  'input.maxFrames': 'Frame limit',
+  'input.frameTokenBudget': 'Frame token limit',
+  'input.unlimited': 'No limit',
+  'input.refine': 'Refine transition times (ms)',
+  'input.refineHint': 'Search between neighbouring sampled frames for the exact transition frame',
+  'input.verify': 'Double-check medium- and low-confidence matches',
+  'input.verifyHint': 'Asks the model again with sharper frames and the most similar pages; these extra requests are not in the pre-flight estimate',
+  'input.samplingSummary': 'Up to {frames} frames ≈ {tokens} tokens, sampled more densely where the picture changes',
+  'input.transcription': 'Transcription',
+  'input.chooseCaptions': 'Choose caption file',
+  'input.geminiTranscriptionHint': 'Uploads the video to Gemini ({model}) for transcription, alongside matching',
+  'input.outputLanguage': 'Output language',
+  'input.outputLanguageHint': 'Language the model writes reasoning and titles in',
+  'input.start': 'Start multi-deck analysis',
+  'input.retry': 'Retry',
+  'input.retryHint': 'Frames already extracted are reused',
+
+  // --- Decks ---
+  'deck.defaultLabel': 'Deck {position}',
+  'deck.imageSet': '{count} images ({name}, …)',
+
+  // --- Video parts ---
+  'parts.label': 'Part {part}',
+  'parts.at': 'Part {part} {time}',
+
+  // --- Transcription ---
+  'transcriber.geminiLabel': 'Gemini speech transcription ({model})',
+  'transcriber.captionsLabel': 'Caption file ({fileName})',
+  'transcriber.none': 'No transcription',
+  'transcriber.gemini': 'Gemini speech transcription',
+  'transcriber.captions': 'Import captions (VTT/SRT)',
+
+  // --- Confirmations ---
+  'confirm.videoMismatch': 'This video differs from the file the project was analyzed with. Use it anyway?',
+  'confirm.videoPartsMismatch': 'The project was analyzed with {expected} video parts; {count} files were selected, or their content differs. Use them anyway?',
+  'confirm.deleteProject': 'Delete "{name}"?',
+
+  // --- Results ---
+  'results.title': 'Results',
+  'results.streaming': 'Updating live, {count} so far',
+  'results.relinkVideo': 'Link original video',
+  'results.relinkVideoParts': 'Select all {count} parts at once',
+  'results.replaceCaptions': 'Replace the current transcript with a caption file',
+  'results.addCaptions': 'Add what the speaker said',
+  'results.importCaptions': 'Import captions',
+  'results.needsVideo': 'Link the original video first',
+  'results.review': 'Review mode',
+  'results.export': 'Export',
+  'results.restart': 'Start over',
+  'results.empty': 'No slide changes.',
+  'results.emptyPartial': 'The model output was cut off before its first complete entry, so there is nothing to keep. Start over to try again.',
+  'results.partial': 'Partial results: the model output was cut off, so only fully parsed entries were kept and later slide changes may be missing.',
+  'results.transcriptFailed': 'Transcription failed; the slide timeline is unaffected: {message}',
+  'results.time': 'Time',
+  'results.source': 'Source',
+  'results.page': 'Page',
+  'results.slideTitle': 'Slide title',
+  'results.preview': 'Preview',
+  'results.reasoning': 'AI reasoning',
+  'results.confidence': 'Confidence',
+  'results.coarse': '(est. {time})',
+  'results.until': 'until {time}',
+  'results.verified': 'Corrected',
+  'results.verifiedTitle': 'Corrected by hand',
+  'results.repaired': 'Automatic repair',
+  'results.verificationConfirmed': 'Double-checked',
+  'results.verificationCorrected': 'was DECK {deckId} #{pageNumber} · {confidence}',
+  'results.noReasoning': 'No details',
+
+  // --- Review player ---
+  'review.previous': 'Previous transition',
+  'review.next': 'Next transition',
+  'review.shortcuts': 'N / ] next, P / [ previous',
+  'review.activeSlide': '{deck} · page {page} · from {time}',
+  'review.noSlideYet': 'No slide shown yet',
+  'review.noSlideNow': 'No slide on screen here',
+
+  // --- Correction editor ---
+  'editor.manualReasoning': 'Added by hand',
+  'editor.undo': 'Undo',
+  'editor.undoTitle': 'Undo (Ctrl+Z)',
+  'editor.redo': 'Redo',
+  'editor.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'editor.insertTitle': 'Add a transition at the current playback time',
+  'editor.insertAt': 'Add transition at {time}',
+  'editor.insertHint': 'Open review mode to add transitions at the playback position',
+  'editor.title': 'Edit transition',
+  'editor.frameBack': '-1 frame',
+  'editor.frameForward': '+1 frame',
+  'editor.setToCurrent': 'Set to playback time',
+  'editor.mergeNextTitle': 'Keep this row\'s time and use the next row\'s slide',
+  'editor.mergeNext': 'Merge with next',
+  'editor.empty': 'Select a row in the table below to edit its time, deck and page.',
+
+  // --- Sequence repair ---
+  'repair.duplicate': 'Repeats the page at {time}; merged',
+  'repair.reordered': 'Listed after {time} but earlier in time; re-sorted by time',
+  'repair.unknownDeck': 'Deck {deckId} does not exist; removed',
+  'repair.pageClamped': 'Page {page} is out of range (1-{pageCount}); changed to {clamped}',
+  'repair.originalPage': 'Originally page {page}',
+  'repair.outOfSequence': 'Breaks the deck order ({confidence} confidence); removed',
+
+  // --- Repair log ---
+  'repairLog.title': 'Automatic repairs ({count})',
+  'repairLog.reordered': 'Reordered',
+  'repairLog.unknownDeck': 'Unknown deck',
+  'repairLog.pageClamped': 'Page fixed',
+  'repairLog.duplicate': 'Merged duplicate',
+  'repairLog.outOfSequence': 'Out of order',
+
+  // --- Verification log ---
+  'verification.title': 'Verification ({count})',
+  'verification.confirmed': 'Confirmed',
+  'verification.corrected': 'Corrected',
+  'verification.rejected': 'Removed',
+  'verification.failed': 'Failed',
+
+  // --- Timeline ---
+  'timeline.frame': 'Sampled frame {time}',
+  'timeline.noSlide': 'No slide',
+  'timeline.weakRun': '{from} - {to}: a long stretch of low-confidence or missing slides',
+  'timeline.weakLegend': 'Long low-confidence / no-slide stretch',
+  'timeline.markerLegend': 'Larger dots mean higher confidence',
+
+  // --- Slide analytics ---
+  'analytics.title': 'Slide statistics',
+  'analytics.unshown': '({count} pages not shown)',
+  'analytics.deckSummary': '{deck}: {shown}/{total} pages shown, {time} in total',
+  'analytics.shown': 'Shown',
+  'analytics.skipped': 'Skipped',
+  'analytics.neverShown': 'Not shown',
+  'analytics.visits': '{count}×',
+
+  // --- Slide region ---
+  'region.title': 'Slide region',
+  'region.fullFrame': 'Full frame',
+  'region.set': 'Set; frames are cropped and perspective-corrected',
+  'region.help': 'For a filmed projector screen or picture-in-picture, mark the four corners of the slide; matching only uses that region. The setting carries over to later analyses in this session.',
+  'region.notFound': 'No clear slide region found; mark it by hand.',
+  'region.corrected': 'Corrected',
+  'region.detect': 'Detect',
+  'region.clicking': 'Click corners ({count}/4)',
+  'region.pickCorners': 'Pick corners',
+
+  // --- Projects ---
+  'projects.copyName': '{name} (copy)',
+  'projects.title': 'Saved projects',
+  'projects.subtitle': 'Stored in this browser and kept across page reloads',
+  'projects.deckCount': '{count} decks',
+  'projects.transitionCount': '{count} transitions',
+  'projects.updatedAt': 'Updated {time}',
+  'projects.open': 'Open',
+  'projects.duplicate': 'Duplicate project',
+  'projects.delete': 'Delete project',
+
+  // --- Exports ---
+  'export.vtt': 'WebVTT chapters',
+  'export.srt': 'SRT subtitles',
+  'export.youtube': 'YouTube chapters',
+  'export.csv': 'CSV',
+  'export.json': 'JSON',
+  'export.notesMarkdown': 'Speaker notes (Markdown)',
+  'export.notesHtml': 'Speaker notes (HTML)',
+  'export.groundTruth': 'Ground truth (for evaluation)',
+  'export.introChapter': 'Intro',
+  'export.perPart': 'One chapter file per part',
+  'export.perPartHint': 'Times start at the beginning of each part, for parts uploaded separately',
+
+  // --- Speaker notes ---
+  'notes.title': 'Speaker notes',
+  'notes.titleFor': '{name} speaker notes',
+  'notes.notShown': 'Not shown in the video',
+  'notes.shownAt': 'Shown at {ranges}',
+  'notes.htmlLang': 'en',
+
+  // --- Ground truth ---
+  'truth.defaultSource': 'The ground truth',
+  'truth.unparseable': 'Could not parse {source}: {message}',
+  'truth.wrongFormat': '{source} is not a ground-truth file (format should be {format})',
+  'truth.tooNew': '{source} has version {version}, newer than the supported {supported}',
+  'truth.missingLists': '{source} is missing decks or transitions',
+  'truth.badDeck': 'Deck {index} in {source} is missing deckId or pageCount',
+  'truth.badTransition': 'Transition {index} in {source} needs seconds, deckId and pageNumber',
+  'truth.fileSource': '"{name}"',
+
+  // --- Evaluation ---
+  'evaluation.title': 'Accuracy evaluation',
+  'evaluation.summary': '(pages {percent}, {missed} missed / {spurious} extra)',
+  'evaluation.missed': 'Missed',
+  'evaluation.spurious': 'Extra',
+  'evaluation.wrongPage': 'Wrong page',
+  'evaluation.wrongPageDetail': '{predicted}, expected {expected}',
+  'evaluation.pageAccuracy': 'Page accuracy',
+  'evaluation.timeAccuracy': 'Time-weighted accuracy',
+  'evaluation.recall': 'Recall',
+  'evaluation.recallValue': '{percent} ({count} missed)',
+  'evaluation.precision': 'Precision',
+  'evaluation.precisionValue': '{percent} ({count} extra)',
+  'evaluation.meanError': 'Mean timing error',
+  'evaluation.medianError': 'Median timing error',
+  'evaluation.maxError': 'Max timing error',
+  'evaluation.bias': 'Mean offset (positive is late)',
+  'evaluation.loadTruth': 'Load ground-truth file',
+  'evaluation.tolerance': 'Tolerance',
+  'evaluation.truthHint': 'Create ground truth from hand-corrected results with "Export → Ground truth"',
+  'evaluation.deckMismatch': 'The ground truth has {truth} decks and the current results have {current}; deck numbers may not line up.',
+
+  // --- Command line ---
+  'cli.usage': `Usage:
+  slide-sync --video <video> [--video <next part> ...] --deck <deck> [--deck <deck> ...] [options]
+  slide-sync --manifest <manifest.json> [options]
+
+Options:
+  --label <name>        Deck name, in the order of --deck (repeatable)
+  --matcher <kind>      {matchers} (default gemini)
+  --model <name>        Model name (gemini default {defaultModel}; required for openai)
+  --base-url <url>      OpenAI-compatible endpoint, e.g. http://localhost:8000/v1
+  --api-key <key>       API key; defaults to GEMINI_API_KEY (gemini) or OPENAI_API_KEY (openai)
+  --replay <file>       Responses replayed by the mock matcher: a JSON array of strings, or a project JSON with rawResponses
+  --out <dir>           Export directory (default: the current directory)
+  --format <fmt,...>    {formats} (default: all but ground-truth)
+  --split-parts         Write chapter files ({chapterFormats}) once per part of a multi-part video, timed from the start of the part
+  --max-frames <n>      Frame limit (default {maxFrames})
+  --token-budget <n>    Token limit for the frames
+  --max-tokens <n>      Token ceiling for model matching (input plus output limit); image detail or frames are reduced to fit
+  --max-cost <usd>      Cost ceiling for model matching (USD, at list prices)
+  --lang <language>     Language of messages and prompts: {locales} (default from LC_ALL / LANG; zh-TW for Chinese or unset)
+  --output-language <language> Language of reasoning and titles: {locales} (default: same as --lang)
+  --no-refine           Do not refine transition times
+  --no-verify           Do not double-check Medium/Low confidence matches (verification is not counted in --max-tokens / --max-cost)
+  --region <region>     Slide area: auto, or 8 numbers 0-1 as x,y (top-left, top-right, bottom-right, bottom-left); frames are cropped and perspective-corrected
+  --captions <file>     Use WebVTT / SRT captions as the speaker transcript (the captions field of each talk in a manifest)
+  --transcribe          Transcribe videos without captions with Gemini (same key as the gemini matcher)
+  --ffmpeg <path>       ffmpeg executable; defaults to FFMPEG_PATH or ffmpeg on the PATH
+  --quiet               Print errors only
+  -h, --help            Show this help
+
+Decks: PDF, PPTX, a zip of images, or a folder of slide images (in natural file-name order)
+Multi-part videos: repeated --video options (a video array in a manifest) play back to back on one timeline; --captions times follow the combined timeline
+
+Exit codes: {exitOk} success / {exitFailed} a video failed / {exitUsage} bad options / {exitPartial} partial results / {exitInterrupted} interrupted
+`,
+  'cli.evaluateUsage': `Usage:
+  slide-sync-evaluate --fixtures <dir> [--matcher <kind[:model]> ...] [options]
+  slide-sync-evaluate --truth <truth.json> <results.json> [<results.json> ...]
+
+--fixtures analyzes every *{suffix} in the folder, finding the video and decks it names in the same folder.
+--truth scores existing results files (JSON exports, projects or other ground truth).
+
+Options:
+  --matcher <kind[:model]> {matchers}; repeat to compare side by side (default gemini)
+  --base-url <url>        OpenAI-compatible endpoint
+  --api-key <key>         API key; defaults to GEMINI_API_KEY or OPENAI_API_KEY
+  --replay <file>         Responses replayed by the mock matcher
+  --max-frames <n>        Frame limit (default {maxFrames})
+  --token-budget <n>      Token limit for the frames
+  --no-refine             Do not refine transition times
+  --no-verify             Do not double-check Medium/Low confidence matches
+  --ffmpeg <path>         ffmpeg executable
+  --tolerance <seconds>   Allowed transition time error (default {tolerance})
+  --save <dir>            Keep each analysis as JSON, to score again later with --truth
+  --json <file>           Write the full evaluation report (JSON)
+  --lang <language>       Language of messages and prompts: {locales} (default from LC_ALL / LANG)
+  --quiet                 Print the results table only
+  -h, --help              Show this help
+`,
+  'cli.unknownLanguage': 'Unknown language "{value}"',
+  'cli.unknownMatcher': 'Unknown matcher "{value}"',
+  'cli.unknownFormat': 'Unknown export format "{value}"',
+  'cli.unknownOutputLanguage': 'Unknown output language "{value}"',
+  'cli.positiveNumber': '--{name} needs a positive number, got "{value}"',
+  'cli.manifestExclusive': '--manifest cannot be combined with --video / --deck / --captions / --region',
+  'cli.inputsMissing': 'Needs --video and at least one --deck, or --manifest',
+  'cli.geminiKeyMissing': 'The gemini matcher needs --api-key or GEMINI_API_KEY',
+  'cli.openaiSettingsMissing': 'The openai matcher needs --base-url and --model',
+  'cli.replayMissing': 'The mock matcher needs --replay',
+  'cli.transcribeKeyMissing': '--transcribe needs GEMINI_API_KEY (or --api-key with the gemini matcher)',
+  'cli.replayUnreadable': 'Could not read the replay file {path}: {message}',
+  'cli.replayInvalid': 'The replay file {path} must be an array of responses or JSON with rawResponses',
+  'cli.badRegion': 'The slide region must be auto or 8 numbers from 0 to 1 (x,y of top-left, top-right, bottom-right, bottom-left), got "{value}"',
+  'cli.manifestUnreadable': 'Could not read the manifest {path}: {message}',
+  'cli.manifestNoTalks': 'The manifest {path} has no talks array',
+  'cli.manifestBadTalk': 'Manifest entry {index} needs a video (one file, or parts in order) and at least one deck',
+  'cli.manifestDeckPath': 'Deck {deck} of manifest entry {index} has no file path',
+  'cli.ffmpegMissing': 'ffmpeg not found ({path}). Install it or pass its path with --ffmpeg.',
+  'cli.ffmpegFailed': 'ffmpeg failed (exit {code}): {message}',
+  'cli.videoInfo': 'Could not read video information: {path}',
+  'cli.regionDetected': 'Detected the slide region {region}',
+  'cli.regionNotDetected': 'No slide region detected; using the full frame',
+  'cli.estimate': 'Estimated {requests} requests, {input} input tokens, at most {output} output tokens',
+  'cli.estimateApprox': 'about {count}',
+  'cli.estimateCost': ', cost at most {cost}',
+  'cli.budgetAdjusted': 'To fit the budget: {adjustments}',
+  'cli.overBudget': 'Warning: still over budget',
+  'cli.wrote': 'Wrote {file}',
+  'cli.transcriptFailed': 'Transcription failed: {message}',
+  'cli.repairs': 'Repaired {count} rows automatically',
+  'cli.verification': 'Verified {count} rows: {confirmed} confirmed, {corrected} corrected, {rejected} removed',
+  'cli.verificationFailed': '; {count} failed, the first at {time}: {detail}',
+  'cli.failed': 'Failed: {message}',
+  'cli.interrupted': 'Interrupted.',
+  'cli.summary': 'Finished {done}/{total} videos',
+  'cli.summaryPartial': ', {count} with partial results',
+  'cli.evaluateModeMissing': 'Needs either --fixtures or --truth',
+  'cli.truthResultsMissing': '--truth needs at least one results file',
+  'cli.noFixtures': 'No *{suffix} files in {dir}',
+  'cli.fixtureVideoMissing': '{name} does not record a video file name',
+  'cli.evaluateOpenaiSettingsMissing': 'The openai matcher needs --base-url and openai:<model>',
+  'cli.column.fixture': 'Video',
+  'cli.column.run': 'Run',
+  'cli.column.pageAccuracy': 'Pages',
+  'cli.column.timeAccuracy': 'Time',
+  'cli.column.recall': 'Recall',
+  'cli.column.precision': 'Precision',
+  'cli.column.missedSpurious': 'Missed/extra',
+  'cli.column.meanError': 'Mean error',
+  'cli.column.medianError': 'Median error',
+  'cli.average': '(average)',
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { localeFromEnvironment, translate } from './index';
+
+describe('localeFromEnvironment', () => {
+  it('keeps zh-TW for Chinese, unset and C locales', () => {
+    expect(localeFromEnvironment({})).toBe('zh-TW');
+    expect(localeFromEnvironment({ LANG: 'zh_TW.UTF-8' })).toBe('zh-TW');
+    expect(localeFromEnvironment({ LANG: 'zh_CN.UTF-8' })).toBe('zh-TW');
+    expect(localeFromEnvironment({ LANG: 'C.UTF-8' })).toBe('zh-TW');
+    expect(localeFromEnvironment({ LC_ALL: 'POSIX' })).toBe('zh-TW');
+  });
+
+  it('uses English for other languages', () => {
+    expect(localeFromEnvironment({ LANG: 'en_US.UTF-8' })).toBe('en');
+    expect(localeFromEnvironment({ LANG: 'ja_JP.UTF-8' })).toBe('en');
+  });
+
+  it('lets LC_ALL and LC_MESSAGES override LANG', () => {
+    expect(localeFromEnvironment({ LANG: 'zh_TW.UTF-8', LC_MESSAGES: 'en_GB.UTF-8' })).toBe('en');
+    expect(localeFromEnvironment({ LANG: 'en_US.UTF-8', LC_ALL: 'zh_TW.UTF-8' })).toBe('zh-TW');
+  });
+});
+
+describe('translate', () => {
+  it('fills placeholders and leaves unknown ones as written', () => {
+    expect(translate('en', 'cli.summary', { done: 2, total: 3 })).toBe('Finished 2/3 videos');
+    expect(translate('en', 'cli.wrote', {})).toBe('Wrote {file}');
+  });
+});
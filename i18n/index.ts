@@ -0,0 +1,70 @@
+import { zhTW } from './zh-TW';
+import { en } from './en';
+import { readPreference, writePreference } from '../utils/preferences';
+
+// --- Localization ---
+// Message catalogs keyed by id. zh-TW is the source catalog; every other locale
+// translates each of its keys (enforced by the Catalog type). Modules outside React
+// call `t` directly; components re-render through useLocale.
+
+export type Locale = 'zh-TW' | 'en';
+export type MessageKey = keyof typeof zhTW;
+export type Catalog = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+// Each language named in itself, for the switchers
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'zh-TW', label: '繁體中文' },
+  { locale: 'en', label: 'English' },
+];
+
+// The command line without a language setting, and anything that runs before restoreLocale
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+const CATALOGS: Record<Locale, Catalog> = { 'zh-TW': zhTW, en };
+
+let current: Locale = DEFAULT_LOCALE;
+const listeners = new Set<() => void>();
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.locale === value);
+
+export const getLocale = () => current;
+
+const apply = (locale: Locale) => {
+  current = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  listeners.forEach(listener => listener());
+};
+
+// The user's choice, remembered for the next visit
+export const setLocale = (locale: Locale) => {
+  writePreference('locale', locale);
+  apply(locale);
+};
+
+// Saved choice, else the browser language (any Chinese variant gets zh-TW)
+export const restoreLocale = () => {
+  const saved = readPreference('locale');
+  if (isLocale(saved)) return apply(saved);
+  const browser = typeof navigator !== 'undefined' ? navigator.language.toLowerCase() : '';
+  apply(browser && !browser.startsWith('zh') ? 'en' : DEFAULT_LOCALE);
+};
+
+// The command line: LC_ALL / LC_MESSAGES / LANG (Chinese, unset, C and POSIX get zh-TW)
+export const localeFromEnvironment = (env: Record<string, string | undefined>): Locale => {
+  const lang = (env.LC_ALL || env.LC_MESSAGES || env.LANG || '').toLowerCase();
+  if (!lang || lang.startsWith('zh') || /^(c|posix)([._@]|$)/.test(lang)) return DEFAULT_LOCALE;
+  return 'en';
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// {name} placeholders are filled from `params`; unknown ones are left as written
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params && name in params ? String(params[name]) : placeholder);
+
+export const t = (key: MessageKey, params?: MessageParams) => translate(current, key, params);
@@ -0,0 +1,460 @@
+// Source catalog: every message id with its zh-TW text. Other catalogs must cover
+// the same ids; {name} placeholders are filled by `t`.
+
+export const zhTW = {
+  // --- App ---
+  'app.title': '簡報同步 AI (多份簡報 - 高精度版)',
+  'app.tagline': '平行處理 | 智慧識別 | 時間軸修正',
+  'app.interfaceLanguage': '介面語言',
+
+  // --- Common ---
+  'common.cancelled': '已取消。',
+  'common.unknown': '未知',
+  'common.listSeparator': '、',
+  'common.cancel': '取消',
+  'common.seconds': '{value} 秒',
+  'common.secondsUnit': '秒',
+  'common.noPreview': '無預覽',
+  'common.untitled': '無標題',
+  'common.close': '關閉',
+  'common.delete': '刪除',
+
+  // --- Errors ---
+  'error.imageDecode': '無法解碼影像。',
+  'error.canvas': '無法建立 Canvas。',
+  'error.worker': '背景處理失敗',
+  'error.videoLoad': '無法載入影片',
+  'error.videoPlayback': '影片播放錯誤',
+  'error.videoDuration': '無法確定影片長度。',
+  'error.dbOpen': '無法開啟本機資料庫。',
+  'error.dbAborted': '資料庫交易已中止。',
+  'error.projectMissing': '找不到專案。',
+  'error.replayExhausted': '重播腳本只有 {count} 筆回應。',
+  'error.httpStatus': '模型服務回應錯誤 (HTTP {status})：{detail}',
+  'error.geminiBlocked': 'Gemini 因內容安全規則停止回應 ({reason})。',
+  'error.contentFiltered': '模型因內容過濾停止回應。',
+  'error.geminiKeyMissing': '缺少 Gemini API Key。',
+  'error.openaiSettingsMissing': '請輸入 OpenAI 相容端點的網址與模型名稱。',
+  'error.emptyResponse': '模型回傳了空的回應。',
+  'error.unparseableResponse': '無法解析分析結果。模型回應格式錯誤 (JSON Error)。',
+  'error.verifyNotCandidate': '複核回答的 DECK {deckId} 第 {pageNumber} 頁不在候選頁面中。',
+  'error.resultsDocument': '結果檔需要是 JSON 匯出、專案或標準答案 (含 transitions 或 results)',
+  'error.geminiUploadFailed': 'Gemini 無法處理上傳的影片：{message}',
+  'error.emptyTranscript': 'Gemini 沒有回傳任何轉錄內容。',
+  'error.emptyCaptions': '字幕檔「{fileName}」中沒有可用的字幕。',
+  'error.extractionMissing': '此專案的擷取資料已遺失，請重新分析。',
+  'error.zipInvalid': '檔案不是有效的 zip 壓縮檔。',
+  'error.zipUnsupported': '不支援此 zip 壓縮檔 (加密、Zip64 或不支援的壓縮方式)。',
+  'error.pptxInvalid': '檔案不是有效的 PowerPoint (.pptx) 簡報，或其中沒有投影片。',
+  'error.deckNoImages': '簡報中沒有可用的投影片圖片。',
+  'error.deckImage': '無法解碼投影片圖片「{name}」。',
+  'error.deckFormat': '簡報需要是 PDF、PPTX、圖片 zip，或一組投影片圖片。',
+
+  // --- Error categories ---
+  'errorCategory.quota.label': '配額或速率限制',
+  'errorCategory.quota.hint': '請稍候再試，或降低影格上限與分析預算。',
+  'errorCategory.safety.label': '內容遭安全機制封鎖',
+  'errorCategory.safety.hint': '模型拒絕處理這些畫面，可改用本地比對或調整影片範圍。',
+  'errorCategory.auth.label': 'API Key 無效或沒有權限',
+  'errorCategory.auth.hint': '請確認 API Key 正確，且已啟用此模型。',
+  'errorCategory.network.label': '網路連線失敗',
+  'errorCategory.network.hint': '請檢查網路連線後重試。',
+  'errorCategory.server.label': '模型服務暫時無法使用',
+  'errorCategory.server.hint': '服務端忙碌或發生錯誤，請稍後重試。',
+  'errorCategory.cancelled.label': '已取消',
+  'errorCategory.cancelled.hint': '',
+  'errorCategory.unknown.label': '分析失敗',
+  'errorCategory.unknown.hint': '',
+  'errorCategory.withMessage': '{label}：{message}',
+
+  // --- Providers ---
+  'provider.mock': '錄製回應重播',
+  'provider.openai': '{model} (OpenAI 相容)',
+
+  // --- Matchers ---
+  'matcher.localLabel': '本地影像比對',
+  'matcher.localReasoning': '本地影像比對：平均相似度 {score}（共 {frames} 格，次佳頁面 {runnerUp}）',
+  'matcher.localTitle': '{deck} 第 {page} 頁',
+  'matcher.gemini': 'Gemini AI',
+  'matcher.geminiDescription': '多模態模型比對，需 API Key',
+  'matcher.openai': 'OpenAI 相容',
+  'matcher.openaiDescription': '任何 OpenAI 相容的視覺模型端點，例如自架模型',
+  'matcher.local': '本地比對',
+  'matcher.localDescription': '離線影像相似度，檔案不離開本機',
+
+  // --- Processing status ---
+  'status.extracting': '正在平行處理檔案 (影片與 PDF)...',
+  'status.estimating': '正在估算 Token 用量 ({matcher})...',
+  'status.analyzing': '正在進行投影片比對 ({matcher})...',
+  'status.verifying': '正在複核信心度較低的比對 ({matcher})...',
+  'status.retrying': '{reason}，{seconds} 秒後重試 ({attempt}/{retries})...',
+  'status.refining': '正在精修切換時間...',
+  'status.transcribing': '正在等待語音轉錄完成 ({progress}%)...',
+  'status.preparing': '正在平行處理檔案 (影片與 PDF)...',
+  'status.done': '分析完成！',
+  'status.donePartial': '分析完成（部分結果）',
+  'status.cancelled': '已取消分析。',
+  'status.failed': '發生錯誤',
+  'status.projectLoaded': '已載入專案',
+  'status.projectOpenFailed': '無法開啟專案',
+  'status.window': '分段分析：第 {index} / {count} 段',
+
+  // --- Budget ---
+  'budget.lowDetail': '改用低解析度影像',
+  'budget.thinned': '影格由 {from} 張減為 {to} 張',
+
+  // --- Usage estimate ---
+  'estimate.title': '確認分析用量',
+  'estimate.requests': '請求次數',
+  'estimate.inputTokens': '輸入 Token',
+  'estimate.inputTokensApprox': '輸入 Token (估計)',
+  'estimate.maxOutputTokens': '輸出 Token 上限',
+  'estimate.maxCost': '費用上限 (USD)',
+  'estimate.noPricing': '無價格資料',
+  'estimate.totalNote': '合計最多 {tokens} tokens。費用以牌價與每次請求的輸出上限計算，實際通常較低。',
+  'estimate.adjusted': '為符合預算已調整：',
+  'estimate.overBudget': '即使降低解析度並減少影格仍超出預算，繼續分析將超過設定的上限。',
+  'estimate.start': '開始分析',
+
+  // --- Input form ---
+  'input.uploadVideo': '上傳完整影片',
+  'input.changeVideo': '更換影片',
+  'input.chooseVideo': '選擇影片檔案',
+  'input.videoParts': '{count} 段影片 · {size} MB',
+  'input.videoPartsHint': '依序接成一條時間軸；可一次選取多個檔案',
+  'input.addVideoPart': '加入下一段',
+  'input.removeVideoPart': '移除這段',
+  'input.moveUp': '上移',
+  'input.moveDown': '下移',
+  'input.removeDeck': '移除簡報',
+  'input.uploadDeck': '上傳簡報 {position}',
+  'input.deckFormats': 'PDF、PPTX、圖片 zip 或圖片資料夾',
+  'input.changeDeck': '更換檔案',
+  'input.chooseDeck': '選擇檔案',
+  'input.chooseFolder': '選擇資料夾',
+  'input.addDeck': '新增簡報',
+  'input.matcher': '比對方式',
+  'input.model': '模型',
+  'input.endpoint': '端點',
+  'input.optional': '選填',
+  'input.maxTokens': '分析 Token 上限',
+  'input.budgetHint': '開始前會先估算用量；超出時降低影像解析度或減少影格',
+  'input.maxFrames': '影格上限',
+  'input.frameTokenBudget': '影格 Token 上限',
+  'input.unlimited': '不限',
+  'input.refine': '精修切換時間 (毫秒)',
+  'input.refineHint': '在相鄰取樣影格之間重新定位，找出實際切換的影格',
+  'input.verify': '複核中低信心度的比對',
+  'input.verifyHint': '以較清晰的影格與最相似的幾頁再詢問一次模型；會額外送出請求，不計入事前估算',
+  'input.samplingSummary': '最多 {frames} 格 ≈ {tokens} tokens，畫面變化處自動加密取樣',
+  'input.transcription': '語音轉錄',
+  'input.chooseCaptions': '選擇字幕檔',
+  'input.geminiTranscriptionHint': '上傳影片給 Gemini ({model}) 轉錄，與比對同時進行',
+  'input.outputLanguage': '輸出語言',
+  'input.outputLanguageHint': '模型撰寫判斷理由與標題所用的語言',
+  'input.start': '開始多份簡報同步分析',
+  'input.retry': '重試',
+  'input.retryHint': '已擷取的影格會直接沿用',
+
+  // --- Decks ---
+  'deck.defaultLabel': '第 {position} 份簡報',
+  'deck.imageSet': '{count} 張圖片 ({name} 等)',
+
+  // --- Video parts ---
+  'parts.label': '第 {part} 段',
+  'parts.at': '第 {part} 段 {time}',
+
+  // --- Transcription ---
+  'transcriber.geminiLabel': 'Gemini 語音轉錄 ({model})',
+  'transcriber.captionsLabel': '字幕檔 ({fileName})',
+  'transcriber.none': '不轉錄',
+  'transcriber.gemini': 'Gemini 語音轉錄',
+  'transcriber.captions': '匯入字幕檔 (VTT/SRT)',
+
+  // --- Confirmations ---
+  'confirm.videoMismatch': '這個影片與專案分析時使用的檔案內容不同，仍要使用嗎？',
+  'confirm.videoPartsMismatch': '專案分析時使用 {expected} 段影片，這次選了 {count} 個檔案，或內容不同。仍要使用嗎？',
+  'confirm.deleteProject': '確定要刪除「{name}」嗎？',
+
+  // --- Results ---
+  'results.title': '分析結果',
+  'results.streaming': '即時更新中，已取得 {count} 筆',
+  'results.relinkVideo': '連結原始影片',
+  'results.relinkVideoParts': '一次選取全部 {count} 段影片',
+  'results.replaceCaptions': '以字幕檔取代目前的轉錄內容',
+  'results.addCaptions': '加入講者內容',
+  'results.importCaptions': '匯入字幕',
+  'results.needsVideo': '需要先連結原始影片',
+  'results.review': '審閱模式',
+  'results.export': '匯出',
+  'results.restart': '重新開始',
+  'results.empty': '沒有任何投影片切換。',
+  'results.emptyPartial': '模型輸出在第一個完整項目之前就被截斷，沒有可保留的結果。可以重新開始再試一次。',
+  'results.partial': '部分結果：模型輸出在中途被截斷，只保留了完整解析的項目，之後的投影片切換可能有遺漏。',
+  'results.transcriptFailed': '語音轉錄失敗，投影片時間軸不受影響：{message}',
+  'results.time': '時間',
+  'results.source': '來源',
+  'results.page': '頁碼',
+  'results.slideTitle': '投影片標題',
+  'results.preview': '預覽',
+  'results.reasoning': 'AI 判斷理由',
+  'results.confidence': '信心度',
+  'results.coarse': '(估 {time})',
+  'results.until': '至 {time}',
+  'results.verified': '已校正',
+  'results.verifiedTitle': '已由人工校正',
+  'results.repaired': '自動修正',
+  'results.verificationConfirmed': '已複核',
+  'results.verificationCorrected': '原 DECK {deckId} #{pageNumber} · {confidence}',
+  'results.noReasoning': '無詳細說明',
+
+  // --- Review player ---
+  'review.previous': '上一個切換',
+  'review.next': '下一個切換',
+  'review.shortcuts': 'N / ] 下一個，P / [ 上一個',
+  'review.activeSlide': '{deck} · 第 {page} 頁 · 自 {time} 起',
+  'review.noSlideYet': '尚未出現投影片',
+  'review.noSlideNow': '此段沒有投影片',
+
+  // --- Correction editor ---
+  'editor.manualReasoning': '手動新增',
+  'editor.undo': '復原',
+  'editor.undoTitle': '復原 (Ctrl+Z)',
+  'editor.redo': '重做',
+  'editor.redoTitle': '重做 (Ctrl+Shift+Z)',
+  'editor.insertTitle': '在目前播放時間新增切換點',
+  'editor.insertAt': '在 {time} 新增切換',
+  'editor.insertHint': '開啟審閱模式後可在播放位置新增切換點',
+  'editor.title': '編輯切換點',
+  'editor.frameBack': '-1 格',
+  'editor.frameForward': '+1 格',
+  'editor.setToCurrent': '設為目前播放時間',
+  'editor.mergeNextTitle': '保留此列時間，改用下一列的投影片',
+  'editor.mergeNext': '與下一列合併',
+  'editor.empty': '點選下方表格中的一列即可編輯其時間、簡報與頁碼。',
+
+  // --- Sequence repair ---
+  'repair.duplicate': '與 {time} 的同一頁重複，已合併',
+  'repair.reordered': '排在 {time} 之後但時間較早，已依時間重新排序',
+  'repair.unknownDeck': '不存在的簡報編號 {deckId}，已移除',
+  'repair.pageClamped': '頁碼 {page} 超出範圍 (1-{pageCount})，已修正為 {clamped}',
+  'repair.originalPage': '原始頁碼 {page}',
+  'repair.outOfSequence': '違反簡報順序 ({confidence} 信心度)，已移除',
+
+  // --- Repair log ---
+  'repairLog.title': '自動修正紀錄 ({count})',
+  'repairLog.reordered': '重新排序',
+  'repairLog.unknownDeck': '未知簡報',
+  'repairLog.pageClamped': '頁碼修正',
+  'repairLog.duplicate': '重複合併',
+  'repairLog.outOfSequence': '順序衝突',
+
+  // --- Verification log ---
+  'verification.title': '複核紀錄 ({count})',
+  'verification.confirmed': '確認',
+  'verification.corrected': '改判',
+  'verification.rejected': '移除',
+  'verification.failed': '失敗',
+
+  // --- Timeline ---
+  'timeline.frame': '取樣影格 {time}',
+  'timeline.noSlide': '無投影片',
+  'timeline.weakRun': '{from} - {to}：長時間低信心度或未偵測到投影片',
+  'timeline.weakLegend': '長段低信心度 / 無投影片',
+  'timeline.markerLegend': '圓點越大信心度越高',
+
+  // --- Slide analytics ---
+  'analytics.title': '投影片統計',
+  'analytics.unshown': '({count} 頁未出現)',
+  'analytics.deckSummary': '{deck}：出現 {shown}/{total} 頁，共 {time}',
+  'analytics.shown': '已出現',
+  'analytics.skipped': '跳過',
+  'analytics.neverShown': '未出現',
+  'analytics.visits': '{count} 次',
+
+  // --- Slide region ---
+  'region.title': '投影片區域',
+  'region.fullFrame': '全畫面',
+  'region.set': '已設定，影格會裁切並校正透視',
+  'region.help': '拍攝投影幕或子母畫面時，框出投影片所在的四個角，比對只會使用這個區域。設定會沿用到本次工作階段的後續分析。',
+  'region.notFound': '找不到明顯的投影片區域，請手動框選。',
+  'region.corrected': '校正後',
+  'region.detect': '自動偵測',
+  'region.clicking': '點選角落 ({count}/4)',
+  'region.pickCorners': '點選四角',
+
+  // --- Projects ---
+  'projects.copyName': '{name} (複本)',
+  'projects.title': '已儲存的專案',
+  'projects.subtitle': '儲存在此瀏覽器中，重新整理頁面也不會遺失',
+  'projects.deckCount': '{count} 份簡報',
+  'projects.transitionCount': '{count} 個切換點',
+  'projects.updatedAt': '更新於 {time}',
+  'projects.open': '開啟',
+  'projects.duplicate': '複製專案',
+  'projects.delete': '刪除專案',
+
+  // --- Exports ---
+  'export.vtt': 'WebVTT 章節',
+  'export.srt': 'SRT 字幕',
+  'export.youtube': 'YouTube 章節',
+  'export.csv': 'CSV',
+  'export.json': 'JSON',
+  'export.notesMarkdown': '簡報講稿 (Markdown)',
+  'export.notesHtml': '簡報講稿 (HTML)',
+  'export.groundTruth': '標準答案 (評估用)',
+  'export.introChapter': '開場',
+  'export.perPart': '章節檔每段影片各一個',
+  'export.perPartHint': '時間從各段開頭起算，適合分段上傳的影片',
+
+  // --- Speaker notes ---
+  'notes.title': '簡報講稿',
+  'notes.titleFor': '{name} 講稿',
+  'notes.notShown': '未在影片中出現',
+  'notes.shownAt': '出現於 {ranges}',
+  'notes.htmlLang': 'zh-Hant',
+
+  // --- Ground truth ---
+  'truth.defaultSource': '標準答案',
+  'truth.unparseable': '無法解析{source}：{message}',
+  'truth.wrongFormat': '{source}不是標準答案檔 (format 應為 {format})',
+  'truth.tooNew': '{source}的版本 {version} 比此工具支援的 {supported} 新',
+  'truth.missingLists': '{source}缺少 decks 或 transitions',
+  'truth.badDeck': '{source}的第 {index} 份簡報缺少 deckId 或 pageCount',
+  'truth.badTransition': '{source}的第 {index} 筆切換需要 seconds、deckId 與 pageNumber',
+  'truth.fileSource': '「{name}」',
+
+  // --- Evaluation ---
+  'evaluation.title': '準確度評估',
+  'evaluation.summary': '(頁碼 {percent}，漏 {missed} / 多 {spurious})',
+  'evaluation.missed': '漏判',
+  'evaluation.spurious': '多判',
+  'evaluation.wrongPage': '頁碼錯誤',
+  'evaluation.wrongPageDetail': '{predicted}，應為 {expected}',
+  'evaluation.pageAccuracy': '頁碼正確率',
+  'evaluation.timeAccuracy': '時間覆蓋正確率',
+  'evaluation.recall': '召回率',
+  'evaluation.recallValue': '{percent} (漏 {count})',
+  'evaluation.precision': '精確率',
+  'evaluation.precisionValue': '{percent} (多 {count})',
+  'evaluation.meanError': '平均時間誤差',
+  'evaluation.medianError': '中位數時間誤差',
+  'evaluation.maxError': '最大時間誤差',
+  'evaluation.bias': '平均偏移 (正值為偏晚)',
+  'evaluation.loadTruth': '載入標準答案檔',
+  'evaluation.tolerance': '容許誤差',
+  'evaluation.truthHint': '標準答案可由人工校正後的結果以「匯出 → 標準答案」產生',
+  'evaluation.deckMismatch': '標準答案有 {truth} 份簡報，目前結果有 {current} 份，簡報編號可能對不上。',
+
+  // --- Command line ---
+  'cli.usage': `用法:
+  slide-sync --video <影片> [--video <下一段影片> ...] --deck <簡報> [--deck <簡報> ...] [選項]
+  slide-sync --manifest <清單.json> [選項]
+
+選項:
+  --label <名稱>        簡報名稱，依 --deck 的順序對應 (可重複)
+  --matcher <種類>      {matchers} (預設 gemini)
+  --model <名稱>        模型名稱 (gemini 預設 {defaultModel}；openai 必填)
+  --base-url <網址>     OpenAI 相容端點，例如 http://localhost:8000/v1
+  --api-key <金鑰>      API Key，預設讀取 GEMINI_API_KEY (gemini) 或 OPENAI_API_KEY (openai)
+  --replay <檔案>       mock 比對重播的回應：JSON 字串陣列，或含 rawResponses 的專案 JSON
+  --out <目錄>          匯出目錄 (預設為目前目錄)
+  --format <格式,...>   {formats} (預設 ground-truth 以外全部)
+  --split-parts         多段影片的章節檔 ({chapterFormats}) 每段各寫一個，時間從該段開頭起算
+  --max-frames <數量>   影格上限 (預設 {maxFrames})
+  --token-budget <數量> 影格 Token 上限
+  --max-tokens <數量>   模型比對的 Token 上限 (輸入加輸出上限)，超出時降低影像解析度或減少影格
+  --max-cost <美元>     模型比對的費用上限 (USD，依牌價估算)
+  --lang <語言>         訊息與提示詞的語言：{locales} (預設依 LC_ALL / LANG，中文或未設定時為 zh-TW)
+  --output-language <語言> 判斷理由與標題的語言：{locales} (預設同 --lang)
+  --no-refine           不精修切換時間
+  --no-verify           不複核中低信心度的比對 (複核的請求不計入 --max-tokens / --max-cost)
+  --region <區域>       投影片區域：auto 或 8 個 0-1 的數字 x,y (左上、右上、右下、左下)，影格會裁切並校正透視
+  --captions <字幕檔>   以 WebVTT / SRT 字幕作為講者內容 (清單中為各影片的 captions 欄位)
+  --transcribe          沒有字幕檔的影片以 Gemini 轉錄語音 (金鑰同 gemini 比對)
+  --ffmpeg <路徑>       ffmpeg 執行檔，預設讀取 FFMPEG_PATH 或 PATH 中的 ffmpeg
+  --quiet               只輸出錯誤
+  -h, --help            顯示說明
+
+簡報: PDF、PPTX、圖片 zip，或放投影片圖片的資料夾 (依檔名自然排序)
+多段影片: 重複 --video (清單中 video 為陣列) 時依序接成一條時間軸，--captions 字幕以合併後的時間為準
+
+結束代碼: {exitOk} 成功 / {exitFailed} 有影片處理失敗 / {exitUsage} 參數錯誤 / {exitPartial} 部分結果 / {exitInterrupted} 已中斷
+`,
+  'cli.evaluateUsage': `用法:
+  slide-sync-evaluate --fixtures <目錄> [--matcher <種類[:模型]> ...] [選項]
+  slide-sync-evaluate --truth <標準答案.json> <結果.json> [<結果.json> ...]
+
+--fixtures 會對目錄中每個 *{suffix} 執行分析，影片與簡報依標準答案記錄的檔名在同目錄中尋找。
+--truth 直接評估已有的結果檔 (JSON 匯出、專案或另一份標準答案)。
+
+選項:
+  --matcher <種類[:模型]> {matchers}，可重複以並列比較 (預設 gemini)
+  --base-url <網址>       OpenAI 相容端點
+  --api-key <金鑰>        API Key，預設讀取 GEMINI_API_KEY 或 OPENAI_API_KEY
+  --replay <檔案>         mock 比對重播的回應
+  --max-frames <數量>     影格上限 (預設 {maxFrames})
+  --token-budget <數量>   影格 Token 上限
+  --no-refine             不精修切換時間
+  --no-verify             不複核中低信心度的比對
+  --ffmpeg <路徑>         ffmpeg 執行檔
+  --tolerance <秒>        切換時間容許誤差 (預設 {tolerance})
+  --save <目錄>           保存每次分析的 JSON 結果，之後可用 --truth 重新評估
+  --json <檔案>           輸出完整評估報告 (JSON)
+  --lang <語言>           訊息與提示詞的語言：{locales} (預設依 LC_ALL / LANG)
+  --quiet                 只輸出結果表
+  -h, --help              顯示說明
+`,
+  'cli.unknownLanguage': '未知的語言 "{value}"',
+  'cli.unknownMatcher': '未知的比對方式 "{value}"',
+  'cli.unknownFormat': '未知的匯出格式 "{value}"',
+  'cli.unknownOutputLanguage': '未知的輸出語言 "{value}"',
+  'cli.positiveNumber': '--{name} 需要正數，收到 "{value}"',
+  'cli.manifestExclusive': '--manifest 不能與 --video / --deck / --captions / --region 同時使用',
+  'cli.inputsMissing': '需要 --video 與至少一個 --deck，或使用 --manifest',
+  'cli.geminiKeyMissing': '使用 gemini 比對需要 --api-key 或 GEMINI_API_KEY',
+  'cli.openaiSettingsMissing': '使用 openai 比對需要 --base-url 與 --model',
+  'cli.replayMissing': '使用 mock 比對需要 --replay',
+  'cli.transcribeKeyMissing': '--transcribe 需要 GEMINI_API_KEY (或以 gemini 比對時的 --api-key)',
+  'cli.replayUnreadable': '無法讀取重播檔 {path}：{message}',
+  'cli.replayInvalid': '重播檔 {path} 需要是回應陣列或含 rawResponses 的 JSON',
+  'cli.badRegion': '投影片區域需要是 auto 或 8 個 0 到 1 的數字 (左上、右上、右下、左下的 x,y)，收到 "{value}"',
+  'cli.manifestUnreadable': '無法讀取清單 {path}：{message}',
+  'cli.manifestNoTalks': '清單 {path} 缺少 talks 陣列',
+  'cli.manifestBadTalk': '清單第 {index} 筆需要 video (一個檔案或依序的多段影片) 與至少一份 decks',
+  'cli.manifestDeckPath': '清單第 {index} 筆的第 {deck} 份簡報缺少檔案路徑',
+  'cli.ffmpegMissing': '找不到 ffmpeg（{path}），請先安裝或以 --ffmpeg 指定路徑。',
+  'cli.ffmpegFailed': 'ffmpeg 執行失敗 (exit {code})：{message}',
+  'cli.videoInfo': '無法讀取影片資訊：{path}',
+  'cli.regionDetected': '偵測到投影片區域 {region}',
+  'cli.regionNotDetected': '未偵測到投影片區域，使用全畫面',
+  'cli.estimate': '預估 {requests} 次請求，輸入 {input} tokens，輸出上限 {output} tokens',
+  'cli.estimateApprox': '約 {count}',
+  'cli.estimateCost': '，費用上限 {cost}',
+  'cli.budgetAdjusted': '為符合預算：{adjustments}',
+  'cli.overBudget': '警告：仍超出預算',
+  'cli.wrote': '已寫入 {file}',
+  'cli.transcriptFailed': '語音轉錄失敗：{message}',
+  'cli.repairs': '自動修正 {count} 處',
+  'cli.verification': '複核 {count} 筆：確認 {confirmed}、改判 {corrected}、移除 {rejected}',
+  'cli.verificationFailed': '；失敗 {count} 筆，第一筆在 {time}：{detail}',
+  'cli.failed': '失敗：{message}',
+  'cli.interrupted': '已中斷。',
+  'cli.summary': '完成 {done}/{total} 部影片',
+  'cli.summaryPartial': '，其中 {count} 部為部分結果',
+  'cli.evaluateModeMissing': '需要 --fixtures 或 --truth 其中之一',
+  'cli.truthResultsMissing': '--truth 需要至少一個結果檔',
+  'cli.noFixtures': '{dir} 中沒有 *{suffix} 檔案',
+  'cli.fixtureVideoMissing': '{name} 沒有記錄影片檔名',
+  'cli.evaluateOpenaiSettingsMissing': 'openai 比對需要 --base-url 與 openai:<模型>',
+  'cli.column.fixture': '影片',
+  'cli.column.run': '分析',
+  'cli.column.pageAccuracy': '頁碼正確',
+  'cli.column.timeAccuracy': '時間覆蓋',
+  'cli.column.recall': '召回',
+  'cli.column.precision': '精確',
+  'cli.column.missedSpurious': '漏/多',
+  'cli.column.meanError': '平均誤差',
+  'cli.column.medianError': '中位誤差',
+  'cli.average': '(平均)',
+};
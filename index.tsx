@@ -1,418 +1,582 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Upload, FileVideo, FileText, Play, Loader2, CheckCircle, AlertCircle, Clock, Image as ImageIcon, ArrowDown } from 'lucide-react';
-
-// --- Types ---
-
-interface SlideMatch {
-  timestamp: string;
-  seconds: number;
-  pdfId: number; // 1 or 2
-  pageNumber: number;
-  slideTitle: string; // New field
-  reasoning: string;  // New field
-  confidence: string; // "High" | "Medium" | "Low"
-}
-
-interface ProcessingStatus {
-  step: 'idle' | 'extracting' | 'analyzing' | 'done' | 'error';
-  message: string;
-  progress: number; // 0 to 100
-}
-
-interface PdfPageImage {
-  pdfId: number;
-  pageNumber: number;
-  dataUrl: string; // base64
-}
-
-interface VideoFrameImage {
-  timestamp: number;
-  timeString: string;
-  dataUrl: string; // base64
-}
-
-// --- Helper Functions ---
-
-const formatTime = (seconds: number): string => {
-  const m = Math.floor(seconds / 60);
-  const s = Math.floor(seconds % 60);
-  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-};
+import { Upload, FileVideo, FileText, Play, Loader2, CheckCircle, AlertCircle, Clock, Image as ImageIcon, ArrowDown, ArrowUp, Plus, Trash2, Download, ChevronDown, MonitorPlay, BadgeCheck, XCircle, Mic, Languages, ScanSearch } from 'lucide-react';
+import { DeckInfo, DeckInput, PdfPageImage, ProcessingStatus, SlideMatch, VideoFrameImage, VideoPart } from './types';
+import { MATCHER_CHOICES, MatcherKind, createMatcher } from './matchers';
+import { DEFAULT_GEMINI_MODEL, GEMINI_MODELS } from './providers/gemini';
+import { ReviewPlayer, findActiveIndex } from './components/ReviewPlayer';
+import { TransitionEditor } from './components/TransitionEditor';
+import { ProjectList } from './components/ProjectList';
+import { RepairLog } from './components/RepairLog';
+import { VerificationLog } from './components/VerificationLog';
+import { SlideAnalytics } from './components/SlideAnalytics';
+import { RegionSelector } from './components/RegionSelector';
+import { EvaluationPanel } from './components/EvaluationPanel';
+import { EstimateConfirm } from './components/EstimateConfirm';
+import { Timeline } from './components/Timeline';
+import { deckColor } from './components/deckColors';
+import { Repair } from './postprocess/sequence';
+import { runPipeline } from './pipeline/run';
+import { AnalysisBudget, BudgetFit } from './pipeline/budget';
+import { VerificationRecord } from './pipeline/verify';
+import { ERROR_CATEGORIES, classifyError, errorHint, errorLabel } from './providers/errors';
+import { deckTitle } from './postprocess/titles';
+import { EditResult, insertTransition, mergeWithNext, reassignSlide, removeTransition, setTransitionTime } from './editing/transitions';
+import { useHistory } from './hooks/useHistory';
+import { EXPORT_FORMATS, ExportFormat, exportResults, exportResultsByPart } from './exporters';
+import { downloadText } from './utils/download';
+import { combineFingerprints, fingerprintFile, fingerprintFiles } from './utils/fingerprint';
+import { formatTime, formatTimeMs, formatTimePrecise } from './utils/time';
+import {
+  ExtractionRecord, ProjectRecord, deckExtractionKey, deleteProject, duplicateProject, getExtraction,
+  listProjects, saveExtraction, saveProject, videoExtractionKey
+} from './storage/projects';
+import { extractVideoFrames, openFrameGrabber, readVideoDuration } from './video/frames';
+import {
+  combineExtractions, combineFrameGrabbers, extractParts, formatPartTime, isMultiPart, layoutParts, partAt, sequenceTranscribers
+} from './video/parts';
+import { refineTransitions } from './video/refine';
+import { deckFileName, loadDeckFiles } from './decks/load';
+import { naturalCompare } from './decks/formats';
+import { DEFAULT_SAMPLING, SamplingOptions, TOKENS_PER_FRAME, VERIFY_WIDTH, resolveFrameBudget } from './video/sampling';
+import { Quad, isFullFrame } from './video/region';
+import { TranscriberKind, TranscriptSegment, Transcriber } from './transcripts/types';
+import { createCaptionTranscriber, parseCaptions } from './transcripts/captions';
+import { createGeminiTranscriber } from './transcripts/gemini';
+import { assignTranscript, transcriptText } from './transcripts/assign';
+import { LOCALES, Locale, MessageKey, isLocale, getLocale, restoreLocale, setLocale, t } from './i18n';
+import { useLocale } from './hooks/useLocale';
+import { readPreference, writePreference } from './utils/preferences';
 
-const parseTimeToSeconds = (timeStr: string): number => {
-  if (!timeStr) return 0;
-  // Handle MM:SS or HH:MM:SS
-  const parts = timeStr.split(':').map(part => parseInt(part.trim(), 10));
-  
-  if (parts.length === 2) {
-    return parts[0] * 60 + parts[1];
-  } else if (parts.length === 3) {
-    return parts[0] * 3600 + parts[1] * 60 + parts[2];
-  }
-  return 0;
-};
+const defaultDeckLabel = (position: number) => t('deck.defaultLabel', { position });
+
+// Files picked together arrive in name order, which is usually the recording order
+const byName = (files: File[]) => [...files].sort((a, b) => naturalCompare(a.name, b.name));
+
+const megabytes = (files: File[]) => (files.reduce((sum, file) => sum + file.size, 0) / 1024 / 1024).toFixed(2);
+
+const TRANSCRIBER_CHOICES: { kind: TranscriberKind | 'none'; label: MessageKey }[] = [
+  { kind: 'none', label: 'transcriber.none' },
+  { kind: 'gemini', label: 'transcriber.gemini' },
+  { kind: 'captions', label: 'transcriber.captions' },
+];
 
 // --- Components ---
 
 const App = () => {
+  const locale = useLocale();
   const [apiKey, setApiKey] = useState(process.env.API_KEY || '');
   
   // File States
-  const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [pdfFile1, setPdfFile1] = useState<File | null>(null);
-  const [pdfFile2, setPdfFile2] = useState<File | null>(null);
+  // Parts of one recording in playing order; usually just one file
+  const [videoFiles, setVideoFiles] = useState<File[]>([]);
+  const [decks, setDecks] = useState<DeckInput[]>([
+    { key: 1, label: defaultDeckLabel(1), files: [] },
+    { key: 2, label: defaultDeckLabel(2), files: [] },
+  ]);
+  const nextDeckKey = useRef(3);
+  const [matcherKind, setMatcherKind] = useState<MatcherKind>('gemini');
+  const [geminiModel, setGeminiModel] = useState(DEFAULT_GEMINI_MODEL);
+  // OpenAI-compatible endpoint
+  const [openAiBaseUrl, setOpenAiBaseUrl] = useState('');
+  const [openAiModel, setOpenAiModel] = useState('');
+  const [openAiKey, setOpenAiKey] = useState('');
+  const [sampling, setSampling] = useState<SamplingOptions>(DEFAULT_SAMPLING);
+  const [refine, setRefine] = useState(true);
+  const [verify, setVerify] = useState(true);
+  const [budget, setBudget] = useState<AnalysisBudget>({});
+  // Slide area in the video; kept for the whole session, across videos
+  const [region, setRegion] = useState<Quad | null>(null);
+  const [transcriberKind, setTranscriberKind] = useState<TranscriberKind | 'none'>('none');
+  const [captionFile, setCaptionFile] = useState<File | null>(null);
+  // What the model writes in; remembered separately from the interface language
+  const [outputLanguage, setOutputLanguage] = useState<Locale>(() => {
+    const saved = readPreference('outputLanguage');
+    return isLocale(saved) ? saved : getLocale();
+  });
   
   // Data States
+  const [deckInfos, setDeckInfos] = useState<DeckInfo[]>([]);
   const [pdfImages, setPdfImages] = useState<PdfPageImage[]>([]);
   const [videoFrames, setVideoFrames] = useState<VideoFrameImage[]>([]);
-  const [results, setResults] = useState<SlideMatch[]>([]);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [videoParts, setVideoParts] = useState<VideoPart[]>([]);
+  // Pipeline output replaces the history; manual edits are undoable steps
+  const resultsHistory = useHistory<SlideMatch[]>([]);
+  const results = resultsHistory.value;
+  const setResults = resultsHistory.reset;
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [partial, setPartial] = useState(false);
+  const [repairs, setRepairs] = useState<Repair[]>([]);
+  const [verifications, setVerifications] = useState<VerificationRecord[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+  const [transcriptError, setTranscriptError] = useState('');
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [exportPerPart, setExportPerPart] = useState(false);
+
+  // Review Player State
+  const [reviewMode, setReviewMode] = useState(false);
+  const [videoUrls, setVideoUrls] = useState<string[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // Extractions of this session, so a retry after a failed request skips straight
+  // to matching even when the browser refused to cache them
+  const extractionMemo = useRef(new Map<string, ExtractionRecord>());
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Saved Projects
+  const [project, setProject] = useState<ProjectRecord | null>(null);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
   
   // Status State
   const [status, setStatus] = useState<ProcessingStatus>({ step: 'idle', message: '', progress: 0 });
+  // Pre-flight estimate waiting for the user's answer
+  const [pendingEstimate, setPendingEstimate] = useState<{ fit: BudgetFit; answer: (go: boolean) => void } | null>(null);
+
+  const decksReady = decks.length > 0 && decks.every(d => d.files.length > 0);
+  const transcriptReady = transcriberKind !== 'captions' || !!captionFile;
+  const activeIndex = reviewMode ? findActiveIndex(results, currentTime) : -1;
+  // What was said on each row, recomputed after every edit
+  const rowTranscripts = useMemo(
+    () => assignTranscript(results, transcript, videoDuration).map(transcriptText),
+    [results, transcript, videoDuration]
+  );
+
+  // One object URL per selected video part, released when the files change
+  useEffect(() => {
+    const urls = videoFiles.map(file => URL.createObjectURL(file));
+    setVideoUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [videoFiles]);
+
+  const refreshProjects = () => {
+    listProjects().then(setProjects).catch(e => console.warn("Could not list saved projects:", e));
+  };
+
+  useEffect(refreshProjects, []);
+
+  // Autosave manual corrections into the open project
+  useEffect(() => {
+    if (!project || status.step !== 'done' || project.results === results) return;
+    const timer = setTimeout(() => {
+      const updated = { ...project, results, updatedAt: Date.now() };
+      setProject(updated);
+      saveProject(updated).catch(e => console.warn("Could not save project:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [results, project, status.step]);
+
+  const seekTo = (seconds: number) => {
+    setReviewMode(true);
+    setCurrentTime(seconds);
+    const video = videoRef.current;
+    if (!video) return;
+    if (videoParts.length === 0) {
+      video.currentTime = seconds;
+      return;
+    }
+    // Another part is loaded by the player once it re-renders with that part's source
+    const target = partAt(videoParts, seconds);
+    if (target.part === partAt(videoParts, currentTime).part) video.currentTime = target.local;
+  };
+
+  // --- Video Parts ---
+
+  const addVideoParts = (files: File[]) => {
+    setVideoFiles(prev => [...prev, ...byName(files)]);
+  };
+
+  const removeVideoPart = (index: number) => {
+    setVideoFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveVideoPart = (index: number, delta: number) => {
+    setVideoFiles(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // --- Deck List Management ---
+
+  const addDeck = () => {
+    const key = nextDeckKey.current++;
+    setDecks(prev => [...prev, { key, label: defaultDeckLabel(prev.length + 1), files: [] }]);
+  };
+
+  const removeDeck = (key: number) => {
+    setDecks(prev => prev.filter(d => d.key !== key));
+  };
+
+  const moveDeck = (index: number, delta: number) => {
+    setDecks(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const updateDeck = (key: number, patch: Partial<DeckInput>) => {
+    setDecks(prev => prev.map(d => (d.key === key ? { ...d, ...patch } : d)));
+  };
+
+  const chooseOutputLanguage = (language: Locale) => {
+    setOutputLanguage(language);
+    writePreference('outputLanguage', language);
+  };
+
+  // Captions cover the combined timeline; Gemini hears each part on its own
+  const createTranscriber = (videos: File[], parts: VideoPart[]): Transcriber | null => {
+    if (transcriberKind === 'captions' && captionFile) {
+      return createCaptionTranscriber(captionFile.name, () => captionFile.text());
+    }
+    if (transcriberKind === 'gemini') {
+      const transcribers = videos.map((video, i) => createGeminiTranscriber({
+        apiKey, model: geminiModel, media: video, mimeType: video.type || 'video/mp4', duration: parts[i].duration,
+      }));
+      return transcribers.length === 1 ? transcribers[0] : sequenceTranscribers(parts, transcribers);
+    }
+    return null;
+  };
 
   const processFiles = async () => {
-    if (!videoFile || !pdfFile1 || !pdfFile2 || !apiKey) return;
+    if (videoFiles.length === 0 || !decksReady || !transcriptReady) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
     try {
-      setStatus({ step: 'extracting', message: '正在平行處理檔案 (影片與 PDF)...', progress: 5 });
-
-      // 1. Parallel Processing: Extract all data simultaneously
-      const [images1, images2, extractedVideoFrames] = await Promise.all([
-        extractPdfImages(pdfFile1, 1),
-        extractPdfImages(pdfFile2, 2),
-        extractVideoFrames(videoFile, (p) => {
-           // Update progress based on video extraction (usually the longest task)
-           // Map video progress 0-100 to overall progress 10-60
-           setStatus(prev => ({ ...prev, progress: 10 + (p * 0.5) }));
-        })
+      const matcher = createMatcher(matcherKind, matcherKind === 'openai'
+        ? { apiKey: openAiKey, baseUrl: openAiBaseUrl.trim(), model: openAiModel.trim(), outputLanguage }
+        : { apiKey, model: geminiModel, outputLanguage });
+      setResults([]);
+      setSelectedIndex(null);
+      setPartial(false);
+      setRepairs([]);
+      setVerifications([]);
+      setTranscript([]);
+      setTranscriptError('');
+      setProject(null);
+      const videos = videoFiles;
+
+      setStatus({ step: 'extracting', message: t('status.preparing'), progress: 0 });
+
+      // 0. Content fingerprints decide whether a cached extraction can be reused; part
+      // lengths place the parts on one timeline (0-5%)
+      const [videoPrints, deckPrints, durations] = await Promise.all([
+        Promise.all(videos.map(fingerprintFile)),
+        Promise.all(decks.map(deck => fingerprintFiles(deck.files))),
+        Promise.all(videos.map(readVideoDuration)),
       ]);
+      signal.throwIfAborted();
+      const parts = layoutParts(videos.map((file, i) => ({ fileName: file.name, duration: durations[i] })));
+      const videoKeys = videoPrints.map(print => videoExtractionKey(print, sampling, region));
+      const deckKeys = deckPrints.map(deckExtractionKey);
+      const transcriber = createTranscriber(videos, parts);
 
-      const allPdfImages = [...images1, ...images2];
-      setPdfImages(allPdfImages);
-      setVideoFrames(extractedVideoFrames);
+      // 1-4. Extraction, matching, sequence repair, verification and refinement
+      const run = await runPipeline(
+        matcher,
+        {
+          extractVideo: (onProgress, signal) => extractParts(
+            parts,
+            (part, onProgress, signal) => loadVideoFrames(videos[part.part - 1], videoKeys[part.part - 1], onProgress, signal),
+            onProgress,
+            signal
+          ),
+          decks: decks.map((deck, i) => ({
+            label: deck.label.trim() || defaultDeckLabel(i + 1),
+            fileName: deckFileName(deck.files),
+            rasterize: (deckId, onProgress, signal) => loadDeckImages(deck.files, deckKeys[i], deckId, onProgress, signal),
+          })),
+          refine: refine
+            ? (matches, frames, onProgress, signal) => refineTransitions(videos, parts, matches, frames, onProgress, signal, {}, region)
+            : undefined,
+          verify: verify
+            ? {
+                open: async (signal) => combineFrameGrabbers(
+                  parts, await Promise.all(videos.map(video => openFrameGrabber(video, VERIFY_WIDTH, region, signal)))
+                ),
+              }
+            : undefined,
+          transcribe: transcriber ? transcriber.transcribe : undefined,
+          budget,
+        },
+        {
+          onStatus: setStatus,
+          confirmEstimate: (fit) => new Promise<boolean>(resolve => setPendingEstimate({ fit, answer: resolve })),
+          onResults: setResults,
+          onExtracted: ({ decks: infos, pdfImages: images, videoFrames: frames, duration, parts }) => {
+            setDeckInfos(infos);
+            setPdfImages(images);
+            setVideoFrames(frames);
+            setVideoDuration(duration);
+            setVideoParts(parts ?? []);
+          },
+        },
+        signal,
+        5
+      );
+      setRepairs(run.repairs);
+      setVerifications(run.verification?.records ?? []);
+      setPartial(run.outcome.partial);
+      setTranscript(run.transcript ?? []);
+      setTranscriptError(run.transcriptError ?? '');
 
-      // 2. Analyze with Gemini
-      setStatus({ step: 'analyzing', message: '正在進行多模態 AI 分析 (Gemini 2.5 Flash)...', progress: 70 });
-      const analysisResults = await analyzeWithGemini(allPdfImages, extractedVideoFrames);
-      
-      setResults(analysisResults);
-      setStatus({ step: 'done', message: '分析完成！', progress: 100 });
+      // 5. Save the session locally
+      const now = Date.now();
+      const record: ProjectRecord = {
+        id: crypto.randomUUID(),
+        name: `${videos[0].name.replace(/\.[^.]+$/, '')} · ${new Date(now).toLocaleString(locale)}`,
+        createdAt: now,
+        updatedAt: now,
+        video: {
+          fileName: videos[0].name,
+          size: videos.reduce((sum, file) => sum + file.size, 0),
+          fingerprint: await combineFingerprints(videoPrints),
+          duration: run.duration,
+          extractionKey: videoKeys[0],
+          ...(isMultiPart(parts)
+            ? { parts: parts.map((part, i) => ({ ...part, size: videos[i].size, fingerprint: videoPrints[i], extractionKey: videoKeys[i] })) }
+            : {}),
+        },
+        decks: run.decks.map((info, i) => ({ ...info, fingerprint: deckPrints[i], extractionKey: deckKeys[i] })),
+        settings: {
+          matcher: matcherKind,
+          sampling,
+          refine,
+          verify,
+          outputLanguage,
+          ...(matcherKind === 'openai' ? { model: openAiModel.trim(), baseUrl: openAiBaseUrl.trim() } : {}),
+          ...(matcherKind === 'gemini' ? { model: geminiModel } : {}),
+          ...(transcriber ? { transcriber: transcriber.kind } : {}),
+          ...(!isFullFrame(region) ? { region: region! } : {}),
+        },
+        results: run.matches,
+        repairs: run.repairs,
+        ...(run.verification ? { verifications: run.verification.records } : {}),
+        partial: run.outcome.partial,
+        rawResponses: [...(run.outcome.rawResponses ?? []), ...(run.verification?.rawResponses ?? [])],
+        ...(run.transcript ? { transcript: run.transcript } : {}),
+      };
+      setProject(record);
+      saveProject(record).then(refreshProjects).catch(e => console.warn("Could not save project:", e));
+      setStatus({
+        step: 'done',
+        message: run.outcome.partial ? t('status.donePartial') : t('status.done'),
+        progress: 100
+      });
 
     } catch (error: any) {
+      const category = signal.aborted ? 'cancelled' : classifyError(error);
+      if (category === 'cancelled') {
+        setStatus({ step: 'error', message: t('status.cancelled'), progress: 0, errorCategory: category });
+        return;
+      }
       console.error(error);
-      setStatus({ step: 'error', message: error.message || '發生錯誤', progress: 0 });
+      setStatus({ step: 'error', message: error.message || t('status.failed'), progress: 0, errorCategory: category });
+    } finally {
+      setPendingEstimate(null);
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const extractPdfImages = async (file: File, pdfId: number): Promise<PdfPageImage[]> => {
-    const arrayBuffer = await file.arrayBuffer();
-    // @ts-ignore - pdfjsLib is loaded globally in index.html
-    const pdf = await window.pdfjsLib.getDocument({ 
-      data: arrayBuffer,
-      // Use unpkg for reliable cMap serving to fix font issues
-      cMapUrl: 'https://unpkg.com/pdfjs-dist@3.11.174/cmaps/',
-      cMapPacked: true,
-    }).promise;
-    
-    const images: PdfPageImage[] = [];
-    const totalPages = pdf.numPages;
-
-    for (let i = 1; i <= totalPages; i++) {
-      const page = await pdf.getPage(i);
-      const viewport = page.getViewport({ scale: 1.0 });
-      
-      // Scale down: max width 512px
-      const scale = Math.min(1.0, 512 / viewport.width);
-      const scaledViewport = page.getViewport({ scale });
-
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      canvas.height = scaledViewport.height;
-      canvas.width = scaledViewport.width;
-
-      if (context) {
-        await page.render({ canvasContext: context, viewport: scaledViewport }).promise;
-        images.push({
-          pdfId: pdfId,
-          pageNumber: i,
-          dataUrl: canvas.toDataURL('image/jpeg', 0.7)
-        });
-      }
-    }
-    return images;
-  };
+  const cancelProcessing = () => abortRef.current?.abort();
 
-  const extractVideoFrames = async (file: File, onProgress: (p: number) => void): Promise<VideoFrameImage[]> => {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video');
-      video.src = URL.createObjectURL(file);
-      video.muted = true;
-      video.playsInline = true;
+  const answerEstimate = (go: boolean) => {
+    pendingEstimate?.answer(go);
+    setPendingEstimate(null);
+  };
 
-      const frames: VideoFrameImage[] = [];
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
+  // --- Extraction Cache ---
+  // Storage failures (quota, private mode) only cost the cache, never the run.
 
-      video.onloadedmetadata = async () => {
-        const duration = video.duration;
-        
-        if (!Number.isFinite(duration)) {
-           reject(new Error("無法確定影片長度。"));
-           return;
-        }
-
-        // --- Sampling Strategy (Strict Control) ---
-        // Maintain 500 frames as requested for high precision.
-        const TARGET_FRAME_COUNT = 500; 
-        let interval = duration / TARGET_FRAME_COUNT;
-        // Ensure strictly minimal interval to avoid duplicates if video is short
-        if (interval < 0.1) interval = 0.1;
-
-        let currentTime = 0;
-        
-        // Optimization: Limit to 256px width
-        const scale = Math.min(1.0, 256 / video.videoWidth);
-        canvas.width = video.videoWidth * scale;
-        canvas.height = video.videoHeight * scale;
-
-        const processFrame = async () => {
-          if (currentTime > duration) {
-            URL.revokeObjectURL(video.src);
-            resolve(frames);
-            return;
-          }
-          video.currentTime = currentTime;
-        };
-
-        video.onseeked = () => {
-          if (ctx) {
-             ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-             frames.push({
-               timestamp: currentTime,
-               timeString: formatTime(currentTime),
-               // Low quality JPEG for efficient token usage with high frame count
-               dataUrl: canvas.toDataURL('image/jpeg', 0.5) 
-             });
-          }
-          
-          onProgress((currentTime / duration) * 100);
-          currentTime += interval;
-          processFrame();
-        };
-        
-        video.onerror = (e) => reject(new Error("影片播放錯誤"));
-        
-        // Start processing
-        processFrame();
-      };
+  const loadExtraction = async (key: string) =>
+    extractionMemo.current.get(key) ?? await getExtraction(key).catch(() => undefined);
 
-      video.onerror = (e) => reject(new Error("無法載入影片"));
-    });
+  const storeExtraction = (record: ExtractionRecord) => {
+    extractionMemo.current.set(record.key, record);
+    return saveExtraction(record);
   };
 
-  const analyzeWithGemini = async (pdfImgs: PdfPageImage[], videoFrms: VideoFrameImage[]): Promise<SlideMatch[]> => {
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const parts: any[] = [];
-    
-    // 1. PDF 1 Section
-    parts.push({ text: "【參考資料 A：第一份簡報 (PDF 1)】\n這是演講上半場使用的投影片，依序出現：" });
-    const pdf1Images = pdfImgs.filter(img => img.pdfId === 1);
-    pdf1Images.forEach(img => {
-      parts.push({ text: `(PDF1 Page ${img.pageNumber})` });
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: img.dataUrl.split(',')[1]
-        }
-      });
-    });
+  const loadVideoFrames = async (file: File, key: string, onProgress: (p: number) => void, signal: AbortSignal) => {
+    const cached = await loadExtraction(key);
+    if (cached?.kind === 'video') {
+      onProgress(100);
+      return { frames: cached.frames, duration: cached.duration };
+    }
+    const extracted = await extractVideoFrames(file, sampling, onProgress, signal, region);
+    await storeExtraction({ key, kind: 'video', ...extracted }).catch(e => console.warn("Could not cache video frames:", e));
+    return extracted;
+  };
 
-    // 2. PDF 2 Section
-    parts.push({ text: "\n\n【參考資料 B：第二份簡報 (PDF 2)】\n這是演講下半場使用的投影片，會接續在 PDF 1 之後出現：" });
-    const pdf2Images = pdfImgs.filter(img => img.pdfId === 2);
-    pdf2Images.forEach(img => {
-      parts.push({ text: `(PDF2 Page ${img.pageNumber})` });
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: img.dataUrl.split(',')[1]
-        }
-      });
-    });
+  const loadDeckImages = async (
+    files: File[],
+    key: string,
+    deckId: number,
+    onProgress: (p: number) => void,
+    signal: AbortSignal
+  ): Promise<PdfPageImage[]> => {
+    const cached = await loadExtraction(key);
+    if (cached?.kind === 'deck') {
+      onProgress(100);
+      // Cached pages may come from a different position in the deck list
+      return cached.pages.map(page => ({ ...page, deckId }));
+    }
+    const pages = await loadDeckFiles(files, deckId, onProgress, signal);
+    await storeExtraction({ key, kind: 'deck', pages }).catch(e => console.warn("Could not cache deck pages:", e));
+    return pages;
+  };
 
-    // 3. Video Frames Section
-    parts.push({ text: "\n\n【待分析目標：影片影格序列】\n以下是從演講影片中按時間順序取樣的畫面 (帶有時間戳記)：" });
-    videoFrms.forEach(frm => {
-      parts.push({ text: `\n[VIDEO_TIMESTAMP: ${frm.timeString}]` });
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: frm.dataUrl.split(',')[1]
-        }
-      });
-    });
+  // --- Saved Projects ---
 
-    // 4. System Prompt (Optimized)
-    const systemPrompt = `
-"""
-你是一位專業的演講影片分析專家，擅長將「現場演講影片」與「原始 PDF 投影片」進行視覺同步。
-
-**任務目標：**
-分析提供的【影片影格序列】，找出每一張投影片（來自 PDF 1 或 PDF 2）在影片中「首次清晰出現」的時間點。
-
-**核心分析邏輯與規則 (請嚴格遵守)：**
-
-1.  **忽略非投影片畫面 (抗干擾)**：
-    * 影片開頭通常包含主持人介紹、講者特寫或等待畫面。請務必等到**投影片內容清晰充滿畫面**，且與 PDF 某頁高度相符時，才標記第一個事件。
-    * **切勿強行從 00:00 開始**，除非 00:00 確實就是投影片畫面。
-    * 若畫面中只有講者、觀眾或過場動畫，請**忽略**該影格，不要強行匹配。
-
-2.  **雙份簡報切換邏輯 (PDF 1 -> PDF 2)**：
-    * 影片內容是連續的。順序必然是：先展示 PDF 1 的頁面 -> (可能有一段講者串場/休息) -> 接著展示 PDF 2 的頁面。
-    * PDF 1 與 PDF 2 之間**只會發生一次**切換。
-    * 在切換期間（例如換檔空檔），若畫面無投影片，請勿產生匹配事件。
-
-3.  **視覺匹配優先**：
-    * 請根據畫面中的文字標題、圖表形狀、圖片排版進行比對。
-    * **標題識別**：請優先讀取投影片上方的大字體標題作為 \`slideTitle\`。若無標題，請總結畫面核心內容。
-
-4.  **輸出格式 (JSON)**：
-    請輸出一個 JSON 物件，包含一個 \`transitions\` 陣列。每個元素代表一次「投影片更換事件」。
-    格式要求：
-    * \`timestamp\`: 字串 (MM:SS)，該投影片**首次**出現的精確時間。
-    * \`pdfId\`: 整數 (1 或 2)，代表屬於哪一份 PDF。
-    * \`pageNumber\`: 整數，對應的 PDF 頁碼。
-    * \`slideTitle\`: 字串，投影片標題。
-    * \`reasoning\`: 字串 (繁體中文)，簡述判斷理由 (例如：「畫面標題與 PDF 1 第 3 頁一致」、「圖表吻合」)。請盡量保持 reasoning 簡短，以避免輸出長度超出 Token 限制。
-    * \`confidence\`: 字串 ("High", "Medium", "Low")。
-"""
-`;
-    parts.push({ text: systemPrompt });
-
-    // Use gemini-2.5-flash as requested
-    const modelId = "gemini-2.5-flash"; 
-
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        maxOutputTokens: 8192, 
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            transitions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  timestamp: { type: Type.STRING, description: "Time format MM:SS" },
-                  pdfId: { type: Type.INTEGER, description: "1 for PDF 1, 2 for PDF 2" },
-                  pageNumber: { type: Type.INTEGER },
-                  slideTitle: { type: Type.STRING, description: "Title of the slide identified" },
-                  reasoning: { type: Type.STRING, description: "Why this match was made. Keep it short." },
-                  confidence: { type: Type.STRING, enum: ["High", "Medium", "Low"] },
-                },
-                required: ["timestamp", "pdfId", "pageNumber", "slideTitle", "reasoning", "confidence"]
-              }
-            }
-          }
-        }
+  const openProject = async (record: ProjectRecord) => {
+    try {
+      const parts: VideoPart[] = record.video.parts?.map(({ size, fingerprint, extractionKey, ...part }) => part)
+        ?? layoutParts([{ fileName: record.video.fileName, duration: record.video.duration }]);
+      const [videoCaches, deckCaches] = await Promise.all([
+        Promise.all((record.video.parts ?? [record.video]).map(p => getExtraction(p.extractionKey))),
+        Promise.all(record.decks.map(d => getExtraction(d.extractionKey))),
+      ]);
+      if (videoCaches.some(c => c?.kind !== 'video') || deckCaches.some(c => c?.kind !== 'deck')) {
+        throw new Error(t('error.extractionMissing'));
       }
-    });
+      const video = combineExtractions(parts, videoCaches.map(c => c?.kind === 'video' ? c : { frames: [], duration: 0 }));
 
-    const responseText = response.text;
-    if (!responseText) {
-      throw new Error("模型回傳了空的回應。這可能是由於內容安全過濾器所致。");
+      setDeckInfos(record.decks.map(({ fingerprint, extractionKey, ...info }) => info));
+      setPdfImages(deckCaches.flatMap((cache, i) =>
+        cache?.kind === 'deck' ? cache.pages.map(page => ({ ...page, deckId: record.decks[i].deckId })) : []
+      ));
+      setVideoFrames(video.frames);
+      setVideoDuration(video.duration);
+      setVideoParts(parts);
+      setMatcherKind(record.settings.matcher);
+      if (record.settings.matcher === 'gemini' && record.settings.model) setGeminiModel(record.settings.model);
+      if (record.settings.matcher === 'openai') {
+        setOpenAiModel(record.settings.model ?? '');
+        setOpenAiBaseUrl(record.settings.baseUrl ?? '');
+      }
+      setSampling(record.settings.sampling);
+      setRefine(record.settings.refine ?? false);
+      setVerify(record.settings.verify ?? false);
+      setRegion(record.settings.region ?? null);
+      if (record.settings.outputLanguage) setOutputLanguage(record.settings.outputLanguage);
+      setResults(record.results);
+      setPartial(record.partial);
+      setRepairs(record.repairs ?? []);
+      setVerifications(record.verifications ?? []);
+      setTranscript(record.transcript ?? []);
+      setTranscriptError('');
+      setSelectedIndex(null);
+      setReviewMode(false);
+      // The video itself is not stored; it can be re-linked from the results view
+      setVideoFiles([]);
+      setProject(record);
+      setStatus({ step: 'done', message: t('status.projectLoaded'), progress: 100 });
+    } catch (error: any) {
+      console.error(error);
+      setStatus({ step: 'error', message: error.message || t('status.projectOpenFailed'), progress: 0 });
     }
+  };
 
-    try {
-      // --- Robust "Discard Incomplete Tail" JSON Parsing ---
-      let cleanText = responseText;
+  // All parts of a multi-part talk are picked together
+  const relinkVideo = async (picked: File[]) => {
+    const files = byName(picked);
+    if (project && (await combineFingerprints(await Promise.all(files.map(fingerprintFile)))) !== project.video.fingerprint) {
+      const expected = project.video.parts?.length ?? 1;
+      const question = expected > 1 || files.length > 1
+        ? t('confirm.videoPartsMismatch', { expected, count: files.length })
+        : t('confirm.videoMismatch');
+      if (!window.confirm(question)) return;
+    }
+    setVideoFiles(files);
+  };
 
-      // 1. Remove Markdown code blocks
-      cleanText = cleanText.replace(/```json/g, '').replace(/```/g, '').trim();
+  // Captions can be attached after the analysis; they replace any earlier transcript
+  const attachCaptions = async (file: File) => {
+    const segments = parseCaptions(await file.text());
+    if (segments.length === 0) {
+      setTranscriptError(t('error.emptyCaptions', { fileName: file.name }));
+      return;
+    }
+    setTranscript(segments);
+    setTranscriptError('');
+    if (project) {
+      const updated: ProjectRecord = {
+        ...project,
+        settings: { ...project.settings, transcriber: 'captions' },
+        transcript: segments,
+        updatedAt: Date.now(),
+      };
+      setProject(updated);
+      saveProject(updated).catch(e => console.warn("Could not save project:", e));
+    }
+  };
 
-      // 2. Remove JS-style comments (just in case)
-      cleanText = cleanText.replace(/\/\/.*$/gm, ''); 
-      cleanText = cleanText.replace(/\/\*[\s\S]*?\*\//g, '');
+  const handleDuplicate = (record: ProjectRecord) => {
+    duplicateProject(record.id).then(refreshProjects).catch(e => console.warn("Could not duplicate project:", e));
+  };
 
-      // 3. Locate the outer JSON object braces
-      const jsonStart = cleanText.indexOf('{');
-      if (jsonStart !== -1) {
-        cleanText = cleanText.substring(jsonStart);
-      }
+  const handleDelete = (record: ProjectRecord) => {
+    if (!window.confirm(t('confirm.deleteProject', { name: record.name }))) return;
+    deleteProject(record.id).then(refreshProjects).catch(e => console.warn("Could not delete project:", e));
+  };
 
-      // 4. Truncation Repair Strategy
-      // Check if it ends with a proper closure. If not, discard the tail.
-      // We expect the array of transitions to be the main content.
-      // If it doesn't end with '}', it's likely truncated.
-      if (!cleanText.endsWith('}')) {
-          console.warn("Response appeared truncated. Applying discard logic.");
-          
-          // Find the last complete object in the array. 
-          // The structure is { "transitions": [ {...}, {...}, ... ] }
-          // An item always ends with '},' if there is another item following, 
-          // or '}' if it's the last item (but here it's truncated, so that '}' might be missing or inside a string).
-          
-          // We look for '},' which signifies the end of a completed object and the start of the next (incomplete) one.
-          const lastValidObjectEnd = cleanText.lastIndexOf('},');
-          
-          if (lastValidObjectEnd !== -1) {
-              // Keep everything up to the closing brace '}' of the last valid object.
-              // '},' is 2 chars. We want to keep the '}'. So we take up to index + 1.
-              cleanText = cleanText.substring(0, lastValidObjectEnd + 1);
-              
-              // Close the array and the root object manually
-              cleanText += ']}';
-          } else {
-             // Fallback: If we can't find '},', it might mean only 1 item exists and it's truncated,
-             // or the array is empty. This is a severe truncation case.
-             // We can try to see if it starts with { "transitions": [ and just close it empty to avoid crash.
-             if (cleanText.includes('"transitions": [')) {
-                 // Try to close it as empty or valid-ish if possible, but safer to error or return empty array logic.
-                 // Let's assume if we can't find a single completed object separator, we might as well treat it as empty result
-                 // to prevent parsing errors.
-                 console.warn("Could not find any complete transition objects. Returning empty list.");
-                 cleanText = '{ "transitions": [] }';
-             }
-          }
-      }
+  // --- Manual Corrections ---
 
-      const json = JSON.parse(cleanText);
-      const rawTransitions = json.transitions || [];
+  const applyEdit = (edit: EditResult) => {
+    resultsHistory.set(edit.results);
+    setSelectedIndex(edit.index >= 0 ? edit.index : null);
+  };
 
-      // --- Midpoint Correction Algorithm ---
-      // correctedTime = detectedTime - (avgInterval / 2)
-      let avgInterval = 0;
-      if (videoFrms.length > 1) {
-         avgInterval = videoFrms[1].timestamp - videoFrms[0].timestamp;
-      }
+  const selected = selectedIndex !== null ? results[selectedIndex] ?? null : null;
 
-      const correctionFactor = avgInterval / 2;
-
-      const correctedTransitions = rawTransitions.map((t: any) => {
-          const detectedSeconds = parseTimeToSeconds(t.timestamp);
-          let correctedSeconds = detectedSeconds - correctionFactor;
-          if (correctedSeconds < 0) correctedSeconds = 0;
-          
-          return {
-            ...t,
-            seconds: correctedSeconds,
-            timestamp: formatTime(correctedSeconds)
-          };
-      });
+  const handleSetTime = (seconds: number) => {
+    if (selectedIndex === null) return;
+    const edit = setTransitionTime(results, selectedIndex, seconds);
+    applyEdit(edit);
+    // Show the frame at the new position
+    if (reviewMode) seekTo(edit.results[edit.index].seconds);
+  };
 
-      return correctedTransitions;
+  const handleInsert = () => {
+    // Most often a missed flip: guess the page after the one on screen
+    const current = results[findActiveIndex(results, currentTime)];
+    const deckId = current?.deckId ?? deckInfos[0]?.deckId ?? 1;
+    const pageCount = deckInfos.find(d => d.deckId === deckId)?.pageCount ?? 1;
+    const pageNumber = current ? Math.min(current.pageNumber + 1, pageCount) : 1;
+    applyEdit(insertTransition(results, currentTime, deckId, pageNumber, deckTitle(pdfImages, deckId, pageNumber)));
+  };
 
-    } catch (e) {
-      console.error("JSON Parsing Error:", e);
-      console.log("Raw Model Output:", responseText);
-      throw new Error("無法解析分析結果。模型回應格式錯誤 (JSON Error)。");
+  const handleExport = (format: ExportFormat) => {
+    const spec = EXPORT_FORMATS.find(f => f.format === format)!;
+    const videoFileName = videoFiles[0]?.name ?? project?.video.fileName;
+    const ctx = {
+      decks: deckInfos,
+      duration: videoDuration,
+      videoFileName,
+      parts: videoParts,
+      matcher: matcherKind,
+      sampling,
+      frameCount: videoFrames.length,
+      pages: pdfImages,
+      transcript: transcript.length > 0 ? transcript : undefined,
+    };
+    const baseName = (videoFileName || 'slides').replace(/\.[^.]+$/, '');
+    if (exportPerPart && spec.chapters && isMultiPart(videoParts)) {
+      exportResultsByPart(format, results, ctx).forEach(({ part, text }) =>
+        downloadText(`${baseName}.part${part.part}.${spec.extension}`, text, spec.mimeType)
+      );
+    } else {
+      downloadText(`${baseName}.${spec.extension}`, exportResults(format, results, ctx), spec.mimeType);
     }
+    setExportMenuOpen(false);
   };
 
   return (
@@ -424,14 +588,24 @@ const App = () => {
           <div className="bg-blue-600 p-2 rounded-lg">
             <Play className="w-6 h-6 text-white" />
           </div>
-          <div>
+          <div className="flex-1">
             <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-400 to-indigo-400">
-              簡報同步 AI (雙份簡報 - 高精度版)
+              {t('app.title')}
             </h1>
             <p className="text-slate-400 text-sm">
-              平行處理 | 智慧識別 | 時間軸修正
+              {t('app.tagline')}
             </p>
           </div>
+          <label className="flex items-center gap-2 text-sm text-slate-400" title={t('app.interfaceLanguage')}>
+            <Languages className="w-4 h-4" />
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+            >
+              {LOCALES.map(l => <option key={l.locale} value={l.locale}>{l.label}</option>)}
+            </select>
+          </label>
         </div>
 
         {/* Input Section */}
@@ -441,216 +615,751 @@ const App = () => {
             {/* Left Column: Video Input */}
             <div className={`
               h-full min-h-[400px] border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center space-y-4 transition-colors
-              ${videoFile ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:border-slate-500 hover:bg-slate-900'}
+              ${videoFiles.length > 0 ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:border-slate-500 hover:bg-slate-900'}
             `}>
               <div className="bg-slate-800 p-4 rounded-full">
                 <FileVideo className="w-10 h-10 text-blue-400" />
               </div>
               <div className="text-center">
                 <p className="font-medium text-xl">
-                  {videoFile ? videoFile.name : "上傳完整影片"}
+                  {videoFiles.length === 0 ? t('input.uploadVideo')
+                    : videoFiles.length === 1 ? videoFiles[0].name
+                    : t('input.videoParts', { count: videoFiles.length, size: megabytes(videoFiles) })}
                 </p>
                 <p className="text-slate-400 text-sm mt-1">
-                   {videoFile ? `${(videoFile.size / 1024 / 1024).toFixed(2)} MB` : "MP4, MOV, WebM"}
+                   {videoFiles.length === 0 ? "MP4, MOV, WebM"
+                     : videoFiles.length === 1 ? `${megabytes(videoFiles)} MB`
+                     : t('input.videoPartsHint')}
                 </p>
               </div>
-              <label className="cursor-pointer">
-                <input 
-                  type="file" 
-                  accept="video/*" 
-                  className="hidden" 
-                  onChange={(e) => setVideoFile(e.target.files?.[0] || null)} 
-                />
-                <span className="px-6 py-3 bg-slate-800 hover:bg-slate-700 rounded-md font-medium transition-colors">
-                  {videoFile ? "更換影片" : "選擇影片檔案"}
-                </span>
-              </label>
-            </div>
 
-            {/* Right Column: 2 PDF Inputs */}
-            <div className="flex flex-col space-y-6">
-              
-              {/* PDF 1 Input */}
-              <div className={`
-                flex-1 border-2 border-dashed rounded-xl p-6 flex flex-col items-center justify-center space-y-3 transition-colors relative
-                ${pdfFile1 ? 'border-red-500 bg-red-500/10' : 'border-slate-700 hover:border-slate-500 hover:bg-slate-900'}
-              `}>
-                <div className="absolute top-4 left-4 bg-slate-800 px-2 py-1 rounded text-xs font-bold text-slate-300 uppercase">
-                  第一部分
-                </div>
-                <div className="bg-slate-800 p-3 rounded-full">
-                  <FileText className="w-6 h-6 text-red-400" />
-                </div>
-                <div className="text-center">
-                  <p className="font-medium text-lg">
-                    {pdfFile1 ? pdfFile1.name : "上傳 PDF 1"}
-                  </p>
-                </div>
+              {/* Parts, in playing order */}
+              {videoFiles.length > 1 && (
+                <ol className="w-full max-w-md space-y-1 text-sm">
+                  {videoFiles.map((file, index) => (
+                    <li key={`${index}-${file.name}`} className="flex items-center space-x-2 bg-slate-900/60 rounded px-2 py-1">
+                      <span className="text-xs font-bold text-slate-400 flex-shrink-0">{t('parts.label', { part: index + 1 })}</span>
+                      <span className="flex-1 min-w-0 truncate" title={file.name}>{file.name}</span>
+                      <button
+                        onClick={() => moveVideoPart(index, -1)}
+                        disabled={index === 0}
+                        title={t('input.moveUp')}
+                        className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveVideoPart(index, 1)}
+                        disabled={index === videoFiles.length - 1}
+                        title={t('input.moveDown')}
+                        className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => removeVideoPart(index)}
+                        title={t('input.removeVideoPart')}
+                        className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              <div className="flex items-center space-x-2">
                 <label className="cursor-pointer">
-                  <input 
-                    type="file" 
-                    accept="application/pdf" 
-                    className="hidden" 
-                    onChange={(e) => setPdfFile1(e.target.files?.[0] || null)} 
+                  <input
+                    type="file"
+                    accept="video/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => setVideoFiles(byName(Array.from(e.target.files ?? [])))}
                   />
-                  <span className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors">
-                    {pdfFile1 ? "更換 PDF 1" : "選擇 PDF 1"}
+                  <span className="px-6 py-3 bg-slate-800 hover:bg-slate-700 rounded-md font-medium transition-colors">
+                    {videoFiles.length > 0 ? t('input.changeVideo') : t('input.chooseVideo')}
                   </span>
                 </label>
+                {videoFiles.length > 0 && (
+                  <label className="cursor-pointer">
+                    <input
+                      type="file"
+                      accept="video/*"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => addVideoParts(Array.from(e.target.files ?? []))}
+                    />
+                    <span className="flex items-center space-x-1 px-6 py-3 bg-slate-800 hover:bg-slate-700 rounded-md font-medium transition-colors">
+                      <Plus className="w-4 h-4" />
+                      <span>{t('input.addVideoPart')}</span>
+                    </span>
+                  </label>
+                )}
+              </div>
+            </div>
+
+            {/* Right Column: Ordered Deck Inputs */}
+            <div className="flex flex-col space-y-6">
+              
+              {decks.map((deck, index) => {
+                const color = deckColor(index + 1);
+                return (
+                  <React.Fragment key={deck.key}>
+                    {/* Arrow Indicator */}
+                    {index > 0 && (
+                      <div className="flex justify-center -my-3 z-10">
+                         <ArrowDown className="w-6 h-6 text-slate-600" />
+                      </div>
+                    )}
+
+                    <div className={`
+                      flex-1 border-2 border-dashed rounded-xl p-6 pt-14 flex flex-col items-center justify-center space-y-3 transition-colors relative
+                      ${deck.files.length > 0 ? color.card : 'border-slate-700 hover:border-slate-500 hover:bg-slate-900'}
+                    `}>
+                      <div className="absolute top-4 left-4 right-4 flex items-center space-x-2">
+                        <span className="bg-slate-800 px-2 py-1 rounded text-xs font-bold text-slate-300 uppercase">
+                          #{index + 1}
+                        </span>
+                        <input
+                          type="text"
+                          value={deck.label}
+                          onChange={(e) => updateDeck(deck.key, { label: e.target.value })}
+                          placeholder={defaultDeckLabel(index + 1)}
+                          className="flex-1 min-w-0 bg-transparent border-b border-slate-700 focus:border-slate-400 outline-none text-sm text-slate-200 px-1"
+                        />
+                        <button
+                          onClick={() => moveDeck(index, -1)}
+                          disabled={index === 0}
+                          title={t('input.moveUp')}
+                          className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveDeck(index, 1)}
+                          disabled={index === decks.length - 1}
+                          title={t('input.moveDown')}
+                          className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => removeDeck(deck.key)}
+                          disabled={decks.length === 1}
+                          title={t('input.removeDeck')}
+                          className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800 disabled:opacity-30 disabled:pointer-events-none"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="bg-slate-800 p-3 rounded-full">
+                        <FileText className={`w-6 h-6 ${color.icon}`} />
+                      </div>
+                      <div className="text-center">
+                        <p className="font-medium text-lg">
+                          {deck.files.length > 0 ? deckFileName(deck.files) : t('input.uploadDeck', { position: index + 1 })}
+                        </p>
+                        {deck.files.length === 0 && <p className="text-xs text-slate-500 mt-1">{t('input.deckFormats')}</p>}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <label className="cursor-pointer">
+                          <input
+                            type="file"
+                            accept=".pdf,.pptx,.zip,image/*"
+                            multiple
+                            className="hidden"
+                            onChange={(e) => updateDeck(deck.key, { files: Array.from(e.target.files ?? []) })}
+                          />
+                          <span className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors">
+                            {deck.files.length > 0 ? t('input.changeDeck') : t('input.chooseDeck')}
+                          </span>
+                        </label>
+                        {/* webkitdirectory is not in React's input props */}
+                        <label className="cursor-pointer">
+                          <input
+                            type="file"
+                            {...{ webkitdirectory: '' }}
+                            className="hidden"
+                            onChange={(e) => updateDeck(deck.key, { files: Array.from(e.target.files ?? []) })}
+                          />
+                          <span className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors">
+                            {t('input.chooseFolder')}
+                          </span>
+                        </label>
+                      </div>
+                    </div>
+                  </React.Fragment>
+                );
+              })}
+
+              <button
+                onClick={addDeck}
+                className="flex items-center justify-center space-x-2 border-2 border-dashed border-slate-700 hover:border-slate-500 hover:bg-slate-900 rounded-xl py-3 text-slate-400 hover:text-white transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+                <span>{t('input.addDeck')}</span>
+              </button>
+
+            </div>
+
+            {/* Slide Region */}
+            {videoUrls.length > 0 && (
+              <div className="md:col-span-2">
+                <RegionSelector videoUrl={videoUrls[0]} region={region} onChange={setRegion} />
               </div>
+            )}
 
-              {/* Arrow Indicator */}
-              <div className="flex justify-center -my-3 z-10">
-                 <ArrowDown className="w-6 h-6 text-slate-600" />
+            {/* Matcher Selection */}
+            <div className="md:col-span-2 flex flex-col md:flex-row md:items-center md:justify-center gap-3">
+              <span className="text-slate-400 text-sm">{t('input.matcher')}</span>
+              <div className="inline-flex bg-slate-900 border border-slate-800 rounded-lg p-1">
+                {MATCHER_CHOICES.map(choice => (
+                  <button
+                    key={choice.kind}
+                    onClick={() => setMatcherKind(choice.kind)}
+                    title={t(choice.description)}
+                    className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      matcherKind === choice.kind ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {t(choice.label)}
+                  </button>
+                ))}
               </div>
+              <span className="text-slate-500 text-xs">
+                {t(MATCHER_CHOICES.find(c => c.kind === matcherKind)!.description)}
+              </span>
+            </div>
 
-              {/* PDF 2 Input */}
-              <div className={`
-                flex-1 border-2 border-dashed rounded-xl p-6 flex flex-col items-center justify-center space-y-3 transition-colors relative
-                ${pdfFile2 ? 'border-orange-500 bg-orange-500/10' : 'border-slate-700 hover:border-slate-500 hover:bg-slate-900'}
-              `}>
-                 <div className="absolute top-4 left-4 bg-slate-800 px-2 py-1 rounded text-xs font-bold text-slate-300 uppercase">
-                  第二部分
-                </div>
-                <div className="bg-slate-800 p-3 rounded-full">
-                  <FileText className="w-6 h-6 text-orange-400" />
-                </div>
-                <div className="text-center">
-                  <p className="font-medium text-lg">
-                    {pdfFile2 ? pdfFile2.name : "上傳 PDF 2"}
-                  </p>
-                </div>
-                <label className="cursor-pointer">
-                  <input 
-                    type="file" 
-                    accept="application/pdf" 
-                    className="hidden" 
-                    onChange={(e) => setPdfFile2(e.target.files?.[0] || null)} 
+            {/* Model Settings */}
+            {matcherKind === 'gemini' && (
+              <div className="md:col-span-2 flex items-center justify-center gap-2 text-sm text-slate-400">
+                <span>{t('input.model')}</span>
+                <select
+                  value={geminiModel}
+                  onChange={(e) => setGeminiModel(e.target.value)}
+                  className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                >
+                  {GEMINI_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                </select>
+              </div>
+            )}
+            {matcherKind === 'openai' && (
+              <div className="md:col-span-2 flex flex-col md:flex-row md:items-center md:justify-center gap-3 text-sm text-slate-400">
+                <label className="flex items-center gap-2">
+                  <span>{t('input.endpoint')}</span>
+                  <input
+                    type="url"
+                    placeholder="http://localhost:8000/v1"
+                    value={openAiBaseUrl}
+                    onChange={(e) => setOpenAiBaseUrl(e.target.value)}
+                    className="w-64 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span>{t('input.model')}</span>
+                  <input
+                    value={openAiModel}
+                    onChange={(e) => setOpenAiModel(e.target.value)}
+                    className="w-48 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span>API Key</span>
+                  <input
+                    type="password"
+                    placeholder={t('input.optional')}
+                    value={openAiKey}
+                    onChange={(e) => setOpenAiKey(e.target.value)}
+                    className="w-40 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
                   />
-                  <span className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors">
-                    {pdfFile2 ? "更換 PDF 2" : "選擇 PDF 2"}
-                  </span>
                 </label>
               </div>
+            )}
+
+            {/* Analysis Budget */}
+            {(matcherKind === 'gemini' || matcherKind === 'openai') && (
+              <div className="md:col-span-2 flex flex-col md:flex-row md:items-center md:justify-center gap-3 text-sm text-slate-400">
+                <label className="flex items-center gap-2">
+                  <span>{t('input.maxTokens')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={10000}
+                    placeholder={t('input.unlimited')}
+                    value={budget.maxTokens ?? ''}
+                    onChange={(e) => setBudget(prev => ({ ...prev, maxTokens: Number(e.target.value) || undefined }))}
+                    className="w-32 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span>{t('estimate.maxCost')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    placeholder={t('input.unlimited')}
+                    value={budget.maxCostUsd ?? ''}
+                    onChange={(e) => setBudget(prev => ({ ...prev, maxCostUsd: Number(e.target.value) || undefined }))}
+                    className="w-24 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                  />
+                </label>
+                <span className="text-slate-500 text-xs">{t('input.budgetHint')}</span>
+              </div>
+            )}
+
+            {/* Output Language */}
+            <div className="md:col-span-2 flex items-center justify-center gap-2 text-sm text-slate-400">
+              <label className="flex items-center gap-2" title={t('input.outputLanguageHint')}>
+                <span>{t('input.outputLanguage')}</span>
+                <select
+                  value={outputLanguage}
+                  onChange={(e) => chooseOutputLanguage(e.target.value as Locale)}
+                  className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                >
+                  {LOCALES.map(l => <option key={l.locale} value={l.locale}>{l.label}</option>)}
+                </select>
+              </label>
+            </div>
 
+            {/* Sampling Budget */}
+            <div className="md:col-span-2 flex flex-col md:flex-row md:items-center md:justify-center gap-3 text-sm">
+              <label className="flex items-center gap-2 text-slate-400">
+                <span>{t('input.maxFrames')}</span>
+                <input
+                  type="number"
+                  min={2}
+                  value={sampling.maxFrames}
+                  onChange={(e) => setSampling(prev => ({ ...prev, maxFrames: Math.max(2, Number(e.target.value) || 0) }))}
+                  className="w-24 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-slate-400">
+                <span>{t('input.frameTokenBudget')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  placeholder={t('input.unlimited')}
+                  value={sampling.tokenBudget ?? ''}
+                  onChange={(e) => setSampling(prev => ({ ...prev, tokenBudget: Number(e.target.value) || undefined }))}
+                  className="w-32 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-slate-400" title={t('input.refineHint')}>
+                <input type="checkbox" checked={refine} onChange={(e) => setRefine(e.target.checked)} />
+                <span>{t('input.refine')}</span>
+              </label>
+              {matcherKind !== 'local' && (
+                <label className="flex items-center gap-2 text-slate-400" title={t('input.verifyHint')}>
+                  <input type="checkbox" checked={verify} onChange={(e) => setVerify(e.target.checked)} />
+                  <span>{t('input.verify')}</span>
+                </label>
+              )}
+              <span className="text-slate-500 text-xs">
+                {t('input.samplingSummary', {
+                  frames: resolveFrameBudget(sampling),
+                  tokens: (resolveFrameBudget(sampling) * TOKENS_PER_FRAME).toLocaleString(locale),
+                })}
+              </span>
+            </div>
+
+            {/* Transcription */}
+            <div className="md:col-span-2 flex flex-col md:flex-row md:items-center md:justify-center gap-3 text-sm text-slate-400">
+              <label className="flex items-center gap-2">
+                <Mic className="w-4 h-4" />
+                <span>{t('input.transcription')}</span>
+                <select
+                  value={transcriberKind}
+                  onChange={(e) => setTranscriberKind(e.target.value as TranscriberKind | 'none')}
+                  className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-slate-200"
+                >
+                  {TRANSCRIBER_CHOICES.map(choice => <option key={choice.kind} value={choice.kind}>{t(choice.label)}</option>)}
+                </select>
+              </label>
+              {transcriberKind === 'captions' && (
+                <label className="cursor-pointer px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-slate-200">
+                  <input
+                    type="file"
+                    accept=".vtt,.srt,text/vtt"
+                    className="hidden"
+                    onChange={(e) => setCaptionFile(e.target.files?.[0] || null)}
+                  />
+                  {captionFile ? captionFile.name : t('input.chooseCaptions')}
+                </label>
+              )}
+              {transcriberKind === 'gemini' && (
+                <span className="text-slate-500 text-xs">{t('input.geminiTranscriptionHint', { model: geminiModel })}</span>
+              )}
             </div>
 
             {/* Analyze Button */}
             <div className="md:col-span-2 flex justify-center pt-4">
               <button
-                disabled={!videoFile || !pdfFile1 || !pdfFile2}
+                disabled={videoFiles.length === 0 || !decksReady || !transcriptReady}
                 onClick={processFiles}
                 className={`
                   flex items-center space-x-2 px-8 py-4 rounded-lg text-lg font-bold transition-all w-full md:w-auto justify-center
-                  ${!videoFile || !pdfFile1 || !pdfFile2
+                  ${videoFiles.length === 0 || !decksReady || !transcriptReady
                     ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
                     : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/50 scale-100 hover:scale-105 active:scale-95'}
                 `}
               >
                 <Play className="w-6 h-6 fill-current" />
-                <span>開始雙份簡報同步分析</span>
+                <span>{t('input.start')}</span>
               </button>
             </div>
             
             {status.step === 'error' && (
                <div className="md:col-span-2 bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-lg flex items-center space-x-3">
-                 <AlertCircle className="w-5 h-5" />
-                 <span>{status.message}</span>
+                 <AlertCircle className="w-5 h-5 shrink-0" />
+                 <div className="flex-1">
+                   {status.errorCategory && status.errorCategory !== 'unknown' && status.errorCategory !== 'cancelled' && (
+                     <div className="font-medium">{errorLabel(status.errorCategory)}</div>
+                   )}
+                   <div>{status.message}</div>
+                   {status.errorCategory && errorHint(status.errorCategory) && (
+                     <div className="text-red-300/70 text-sm">{errorHint(status.errorCategory)}</div>
+                   )}
+                 </div>
+                 {status.errorCategory && ERROR_CATEGORIES[status.errorCategory].retryable && (
+                   <button
+                     onClick={processFiles}
+                     disabled={videoFiles.length === 0 || !decksReady || !transcriptReady}
+                     title={t('input.retryHint')}
+                     className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 rounded text-sm text-red-200"
+                   >
+                     {t('input.retry')}
+                   </button>
+                 )}
                </div>
             )}
 
+            {/* Saved Projects */}
+            <div className="md:col-span-2">
+              <ProjectList
+                projects={projects}
+                onOpen={openProject}
+                onDuplicate={handleDuplicate}
+                onDelete={handleDelete}
+              />
+            </div>
+
           </div>
         ) : (
           // Processing & Results View
           <div className="space-y-8 animate-in fade-in duration-500">
             
+            {/* Pre-flight Estimate */}
+            {pendingEstimate && (
+              <EstimateConfirm fit={pendingEstimate.fit} onConfirm={() => answerEstimate(true)} onCancel={() => answerEstimate(false)} />
+            )}
+
             {/* Progress Bar */}
-            {status.step !== 'done' && (
+            {status.step !== 'done' && !pendingEstimate && (
               <div className="bg-slate-900 rounded-xl p-8 border border-slate-800 text-center space-y-4">
                 <div className="relative w-16 h-16 mx-auto">
                    <Loader2 className="w-16 h-16 text-blue-500 animate-spin" />
                 </div>
                 <h2 className="text-xl font-medium">{status.message}</h2>
+                {status.window && status.window.count > 1 && (
+                  <p className="text-slate-400 text-sm">
+                    {t('status.window', { index: status.window.index + 1, count: status.window.count })}
+                  </p>
+                )}
                 <div className="w-full bg-slate-800 h-2 rounded-full overflow-hidden">
                   <div 
                     className="bg-blue-500 h-full transition-all duration-300 ease-out" 
                     style={{ width: `${status.progress}%` }}
                   ></div>
                 </div>
+                <button
+                  onClick={cancelProcessing}
+                  className="inline-flex items-center space-x-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm text-slate-300 transition-colors"
+                >
+                  <XCircle className="w-4 h-4" />
+                  <span>{t('common.cancel')}</span>
+                </button>
               </div>
             )}
 
+            {/* Review Player */}
+            {reviewMode && status.step === 'done' && videoUrls.length > 0 && (
+              <ReviewPlayer
+                videoUrls={videoUrls}
+                parts={videoParts}
+                videoRef={videoRef}
+                results={results}
+                pdfImages={pdfImages}
+                decks={deckInfos}
+                currentTime={currentTime}
+                onTimeUpdate={setCurrentTime}
+                onSeek={seekTo}
+              />
+            )}
+
+            {/* Correction Editor (kept with no rows left, so a deletion can be undone) */}
+            {status.step === 'done' && (
+              <TransitionEditor
+                selected={selected}
+                hasNext={selectedIndex !== null && selectedIndex + 1 < results.length}
+                pdfImages={pdfImages}
+                decks={deckInfos}
+                currentTime={currentTime}
+                canInsert={reviewMode}
+                canUndo={resultsHistory.canUndo}
+                canRedo={resultsHistory.canRedo}
+                onSetTime={handleSetTime}
+                onReassign={(deckId, pageNumber) => selectedIndex !== null && applyEdit(reassignSlide(results, selectedIndex, deckId, pageNumber, deckTitle(pdfImages, deckId, pageNumber)))}
+                onInsert={handleInsert}
+                onDelete={() => selectedIndex !== null && applyEdit(removeTransition(results, selectedIndex))}
+                onMergeNext={() => selectedIndex !== null && applyEdit(mergeWithNext(results, selectedIndex))}
+                onUndo={resultsHistory.undo}
+                onRedo={resultsHistory.redo}
+                onClose={() => setSelectedIndex(null)}
+              />
+            )}
+
             {/* Results Table */}
-            {results.length > 0 && (
+            {(results.length > 0 || status.step === 'done') && (
               <div className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
                 <div className="p-6 border-b border-slate-800 flex justify-between items-center">
                   <h2 className="text-xl font-bold flex items-center space-x-2">
-                    <CheckCircle className="w-5 h-5 text-green-500" />
-                    <span>分析結果</span>
+                    {status.step === 'done'
+                      ? <CheckCircle className="w-5 h-5 text-green-500" />
+                      : <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />}
+                    <span>{t('results.title')}</span>
+                    {status.step !== 'done' && (
+                      <span className="text-sm font-normal text-slate-400">{t('results.streaming', { count: results.length })}</span>
+                    )}
                   </h2>
-                  <button 
-                    onClick={() => {
-                        setResults([]);
-                        setStatus({ step: 'idle', message: '', progress: 0 });
-                    }}
-                    className="text-slate-400 hover:text-white text-sm"
-                  >
-                    重新開始
-                  </button>
+                  {status.step === 'done' && (
+                    <div className="flex items-center space-x-4">
+                      {videoFiles.length === 0 && (
+                        <label
+                          title={project?.video.parts ? t('results.relinkVideoParts', { count: project.video.parts.length }) : undefined}
+                          className="cursor-pointer flex items-center space-x-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors"
+                        >
+                          <input
+                            type="file"
+                            accept="video/*"
+                            multiple
+                            className="hidden"
+                            onChange={(e) => e.target.files?.length && relinkVideo(Array.from(e.target.files))}
+                          />
+                          <FileVideo className="w-4 h-4" />
+                          <span>{t('results.relinkVideo')}</span>
+                        </label>
+                      )}
+                      <label
+                        title={transcript.length > 0 ? t('results.replaceCaptions') : t('results.addCaptions')}
+                        className="cursor-pointer flex items-center space-x-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors"
+                      >
+                        <input
+                          type="file"
+                          accept=".vtt,.srt,text/vtt"
+                          className="hidden"
+                          onChange={(e) => e.target.files?.[0] && attachCaptions(e.target.files[0])}
+                        />
+                        <Mic className="w-4 h-4" />
+                        <span>{t('results.importCaptions')}</span>
+                      </label>
+                      <button
+                        onClick={() => setReviewMode(on => !on)}
+                        disabled={videoUrls.length === 0}
+                        title={videoUrls.length > 0 ? undefined : t('results.needsVideo')}
+                        className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+                          reviewMode ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-slate-800 hover:bg-slate-700'
+                        }`}
+                      >
+                        <MonitorPlay className="w-4 h-4" />
+                        <span>{t('results.review')}</span>
+                      </button>
+                      <div className="relative">
+                        <button
+                          onClick={() => setExportMenuOpen(open => !open)}
+                          className="flex items-center space-x-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-md text-sm font-medium transition-colors"
+                        >
+                          <Download className="w-4 h-4" />
+                          <span>{t('results.export')}</span>
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        {exportMenuOpen && (
+                          <div className="absolute right-0 mt-2 w-44 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-20 overflow-hidden">
+                            {isMultiPart(videoParts) && (
+                              <label
+                                title={t('export.perPartHint')}
+                                className="flex items-center space-x-2 px-4 py-2 text-sm text-slate-300 border-b border-slate-800 cursor-pointer"
+                              >
+                                <input type="checkbox" checked={exportPerPart} onChange={(e) => setExportPerPart(e.target.checked)} />
+                                <span>{t('export.perPart')}</span>
+                              </label>
+                            )}
+                            {EXPORT_FORMATS.map(f => (
+                              <button
+                                key={f.format}
+                                onClick={() => handleExport(f.format)}
+                                className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white"
+                              >
+                                {t(f.label)}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <button 
+                        onClick={() => {
+                            setResults([]);
+                            setSelectedIndex(null);
+                            setPartial(false);
+                            setTranscript([]);
+                            setTranscriptError('');
+                            setReviewMode(false);
+                            setProject(null);
+                            refreshProjects();
+                            setStatus({ step: 'idle', message: '', progress: 0 });
+                        }}
+                        className="text-slate-400 hover:text-white text-sm"
+                      >
+                        {t('results.restart')}
+                      </button>
+                    </div>
+                  )}
                 </div>
+
+                <Timeline
+                  results={results}
+                  decks={deckInfos}
+                  frames={videoFrames}
+                  pages={pdfImages}
+                  duration={videoDuration}
+                  parts={videoParts}
+                  selectedIndex={selectedIndex}
+                  onSelect={status.step === 'done' ? (index, seconds) => {
+                    setSelectedIndex(index);
+                    seekTo(seconds);
+                  } : undefined}
+                />
+                {status.step === 'done' && <RepairLog repairs={repairs} decks={deckInfos} />}
+                {status.step === 'done' && <VerificationLog records={verifications} decks={deckInfos} />}
+                {status.step === 'done' && (
+                  <SlideAnalytics results={results} decks={deckInfos} pages={pdfImages} duration={videoDuration} onSeek={seekTo} />
+                )}
+                {status.step === 'done' && <EvaluationPanel results={results} decks={deckInfos} onSeek={seekTo} />}
+
+                {partial && (
+                  <div className="mx-6 mt-4 bg-yellow-500/10 border border-yellow-500/20 text-yellow-400 p-4 rounded-lg flex items-center space-x-3">
+                    <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                    <span>{t('results.partial')}</span>
+                  </div>
+                )}
+                {transcriptError && (
+                  <div className="mx-6 mt-4 bg-yellow-500/10 border border-yellow-500/20 text-yellow-400 p-4 rounded-lg flex items-center space-x-3">
+                    <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                    <span>{t('results.transcriptFailed', { message: transcriptError })}</span>
+                  </div>
+                )}
                 
                 <div className="overflow-x-auto">
                   <table className="w-full text-left border-collapse">
                     <thead>
                       <tr className="bg-slate-800/50 text-slate-400 text-sm uppercase tracking-wider">
-                        <th className="p-4 w-24">時間</th>
-                        <th className="p-4 w-20 text-center">來源</th>
-                        <th className="p-4 w-16 text-center">頁碼</th>
-                        <th className="p-4 w-64">投影片標題</th>
-                        <th className="p-4 w-48">預覽</th>
-                        <th className="p-4">AI 判斷理由</th>
-                        <th className="p-4 w-24">信心度</th>
+                        <th className="p-4 w-24">{t('results.time')}</th>
+                        <th className="p-4 w-32 text-center">{t('results.source')}</th>
+                        <th className="p-4 w-16 text-center">{t('results.page')}</th>
+                        <th className="p-4 w-64">{t('results.slideTitle')}</th>
+                        <th className="p-4 w-48">{t('results.preview')}</th>
+                        <th className="p-4">{t('results.reasoning')}</th>
+                        <th className="p-4 w-24">{t('results.confidence')}</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-800">
+                      {results.length === 0 && (
+                        <tr>
+                          <td colSpan={7} className="p-6 text-center text-slate-400">{t(partial ? 'results.emptyPartial' : 'results.empty')}</td>
+                        </tr>
+                      )}
                       {results.map((match, idx) => {
                         // Find the PDF image for preview
-                        const pdfImg = pdfImages.find(p => p.pageNumber === match.pageNumber && p.pdfId === match.pdfId);
+                        const pdfImg = pdfImages.find(p => p.pageNumber === match.pageNumber && p.deckId === match.deckId);
+                        const deck = deckInfos.find(d => d.deckId === match.deckId);
                         
                         return (
-                          <tr key={idx} className="hover:bg-slate-800/30 transition-colors group">
+                          <tr
+                            key={idx}
+                            onClick={() => {
+                              if (status.step !== 'done') return;
+                              setSelectedIndex(idx);
+                              seekTo(match.seconds);
+                            }}
+                            className={`transition-colors group ${status.step === 'done' ? 'cursor-pointer' : ''} ${
+                              idx === selectedIndex ? 'bg-blue-500/20 ring-1 ring-inset ring-blue-500/40'
+                                : idx === activeIndex ? 'bg-blue-500/10' : 'hover:bg-slate-800/30'
+                            }`}
+                          >
                             <td className="p-4 font-mono text-lg font-medium text-blue-400 align-top">
                                <div className="flex items-center space-x-2">
                                   <Clock className="w-4 h-4 text-slate-600" />
                                   <span>{match.timestamp}</span>
                                </div>
+                               {match.coarseSeconds !== undefined && (
+                                 <div className="text-xs text-slate-400 mt-1">
+                                   {formatTimeMs(match.seconds)}
+                                   <span className="text-slate-600 ml-1">{t('results.coarse', { time: formatTimePrecise(match.coarseSeconds) })}</span>
+                                 </div>
+                               )}
+                               {isMultiPart(videoParts) && (
+                                 <div className="text-xs font-sans text-slate-500 mt-1">{formatPartTime(videoParts, match.seconds)}</div>
+                               )}
+                               {match.endSeconds !== undefined && (
+                                 <div className="text-xs font-sans text-slate-500 mt-1">{t('results.until', { time: formatTime(match.endSeconds) })}</div>
+                               )}
+                               {match.verified && (
+                                 <div className="flex items-center space-x-1 mt-2 text-xs font-sans text-emerald-400" title={t('results.verifiedTitle')}>
+                                   <BadgeCheck className="w-4 h-4" />
+                                   <span>{t('results.verified')}</span>
+                                 </div>
+                               )}
                             </td>
                              <td className="p-4 text-center align-top">
-                               <div className={`inline-block px-2 py-1 rounded text-xs font-bold uppercase ${match.pdfId === 1 ? 'bg-red-500/20 text-red-400' : 'bg-orange-500/20 text-orange-400'}`}>
-                                 PDF {match.pdfId}
+                               <div
+                                 title={deck?.fileName}
+                                 className={`inline-block px-2 py-1 rounded text-xs font-bold uppercase ${deckColor(match.deckId).badge}`}
+                               >
+                                 {deck?.label || `DECK ${match.deckId}`}
                                </div>
                             </td>
                             <td className="p-4 text-center align-top">
                                <div className="inline-block bg-slate-800 rounded px-2 py-1 font-bold">
                                  #{match.pageNumber}
                                </div>
+                               {match.repairNote && (
+                                 <div className="text-xs text-amber-400 mt-1" title={t('results.repaired')}>{match.repairNote}</div>
+                               )}
                             </td>
                             <td className="p-4 font-bold text-slate-200 align-top">
-                                {match.slideTitle || "無標題"}
+                                {match.slideTitle || t('common.untitled')}
+                                {rowTranscripts[idx] && (
+                                  <p className="mt-2 text-xs font-normal text-slate-400 line-clamp-4" title={rowTranscripts[idx]}>
+                                    <Mic className="inline w-3 h-3 mr-1 text-slate-500" />
+                                    {rowTranscripts[idx]}
+                                  </p>
+                                )}
                             </td>
                             <td className="p-4 align-top">
                                {pdfImg ? (
                                    <img 
                                      src={pdfImg.dataUrl} 
-                                     alt={`PDF ${match.pdfId} - Page ${match.pageNumber}`} 
+                                     alt={`${deck?.label || `DECK ${match.deckId}`} - Page ${match.pageNumber}`} 
                                      className="w-40 rounded border border-slate-700 shadow-sm" 
                                    />
                                ) : (
-                                 <span className="text-slate-600 italic">無預覽</span>
+                                 <span className="text-slate-600 italic">{t('common.noPreview')}</span>
                                )}
                             </td>
                             <td className="p-4 text-slate-400 text-sm align-top">
-                                {match.reasoning || "無詳細說明"}
+                                {match.reasoning || t('results.noReasoning')}
                             </td>
                             <td className="p-4 align-top">
                               <span className={`
@@ -659,8 +1368,23 @@ const App = () => {
                                   ? 'bg-green-500/10 text-green-400 border-green-500/20' 
                                   : 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20'}
                               `}>
-                                {match.confidence || '未知'}
+                                {match.confidence || t('common.unknown')}
                               </span>
+                              {match.verification && (
+                                <div className="flex items-center space-x-1 mt-2 text-xs text-sky-400">
+                                  <ScanSearch className="w-3 h-3" />
+                                  <span>
+                                    {match.verification.verdict === 'confirmed'
+                                      ? t('results.verificationConfirmed')
+                                      : t('results.verificationCorrected', match.verification.before)}
+                                  </span>
+                                </div>
+                              )}
+                              {match.similarity !== undefined && (
+                                <div className="text-xs text-slate-500 font-mono mt-2">
+                                  {match.similarity.toFixed(2)}
+                                </div>
+                              )}
                             </td>
                           </tr>
                         );
@@ -677,5 +1401,6 @@ const App = () => {
   );
 };
 
+restoreLocale();
 const root = createRoot(document.getElementById('root')!);
 root.render(<App />);
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { createModelMatcher } from './model';
+import { LocalMatcherOptions, createLocalMatcher } from './local';
+import { MatcherKind, SlideMatcher } from './types';
+import { DEFAULT_GEMINI_MODEL, createGeminiProvider } from '../providers/gemini';
+import { createOpenAiProvider } from '../providers/openai';
+import { MockResponse, createMockProvider } from '../providers/mock';
+import { Locale, MessageKey, t } from '../i18n';
+
+export * from './types';
+export { createModelMatcher } from './model';
+export { createLocalMatcher, scoreToConfidence } from './local';
+
+export interface MatcherOptions {
+  apiKey?: string;
+  model?: string;   // Gemini model, or the model name on the OpenAI-compatible endpoint
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:8000/v1
+  replay?: MockResponse[]; // Responses for the mock provider
+  decode?: LocalMatcherOptions['decode']; // Image decoder for the local matcher outside the browser
+  outputLanguage?: Locale; // Language the matcher writes reasoning and titles in
+}
+
+// Matchers selectable in the UI. The mock matcher only replays recordings (CLI, offline checks).
+export const MATCHER_CHOICES: { kind: MatcherKind; label: MessageKey; description: MessageKey; requiresApiKey: boolean }[] = [
+  { kind: 'gemini', label: 'matcher.gemini', description: 'matcher.geminiDescription', requiresApiKey: true },
+  { kind: 'openai', label: 'matcher.openai', description: 'matcher.openaiDescription', requiresApiKey: false },
+  { kind: 'local', label: 'matcher.local', description: 'matcher.localDescription', requiresApiKey: false },
+];
+
+export const createMatcher = (kind: MatcherKind, options: MatcherOptions = {}): SlideMatcher => {
+  const modelOptions = { outputLanguage: options.outputLanguage };
+  switch (kind) {
+    case 'gemini':
+      if (!options.apiKey) throw new Error(t('error.geminiKeyMissing'));
+      return createModelMatcher(kind, createGeminiProvider({ apiKey: options.apiKey, model: options.model || DEFAULT_GEMINI_MODEL }), modelOptions);
+    case 'openai':
+      if (!options.baseUrl || !options.model) throw new Error(t('error.openaiSettingsMissing'));
+      return createModelMatcher(kind, createOpenAiProvider({ baseUrl: options.baseUrl, model: options.model, apiKey: options.apiKey }), modelOptions);
+    case 'mock':
+      return createModelMatcher(kind, createMockProvider(options.replay ?? []), modelOptions);
+    case 'local':
+      return createLocalMatcher({ decode: options.decode, outputLanguage: options.outputLanguage });
+  }
+};
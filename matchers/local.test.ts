@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { PdfPageImage, VideoFrameImage } from '../types';
+import { GrayImage } from '../utils/image';
+import { deck } from '../testing/fixtures';
+import { FEATURE_HEIGHT, FEATURE_WIDTH } from './similarity';
+import { createLocalMatcher, scoreToConfidence } from './local';
+import { MatchInput } from './types';
+
+// Synthetic images, looked up by their "data URL"
+const image = (bright: (x: number, y: number) => boolean): GrayImage => {
+  const data = new Float32Array(FEATURE_WIDTH * FEATURE_HEIGHT);
+  for (let y = 0; y < FEATURE_HEIGHT; y++) {
+    for (let x = 0; x < FEATURE_WIDTH; x++) data[y * FEATURE_WIDTH + x] = bright(x, y) ? 255 : 0;
+  }
+  return { width: FEATURE_WIDTH, height: FEATURE_HEIGHT, data };
+};
+
+const IMAGES: Record<string, GrayImage> = {
+  left: image(x => x < FEATURE_WIDTH / 2),
+  top: image((_, y) => y < FEATURE_HEIGHT / 2),
+  checker: image((x, y) => (Math.floor(x / 6) + Math.floor(y / 6)) % 2 === 0),
+  black: image(() => false),
+};
+
+const decode = async (dataUrl: string) => IMAGES[dataUrl];
+
+const decks = [deck(1, 'Intro', 2), deck(2, 'Demo', 1)];
+
+const pdfImages: PdfPageImage[] = [
+  { deckId: 1, pageNumber: 1, dataUrl: 'left' },
+  { deckId: 1, pageNumber: 2, dataUrl: 'checker' },
+  { deckId: 2, pageNumber: 1, dataUrl: 'top' },
+];
+
+// One frame every 2 s
+const framesOf = (...names: string[]): VideoFrameImage[] =>
+  names.map((dataUrl, i) => ({ timestamp: i * 2, timeString: '', dataUrl }));
+
+const input = (...names: string[]): MatchInput => ({ decks, pdfImages, videoFrames: framesOf(...names) });
+
+const segments = (matches: { seconds: number; endSeconds?: number; deckId: number; pageNumber: number }[]) =>
+  matches.map(m => [m.seconds, m.endSeconds, m.deckId, m.pageNumber]);
+
+describe('createLocalMatcher', () => {
+  it('opens a segment per stable run, closes it on a blank screen and keeps revisits', async () => {
+    const { matches, partial } = await createLocalMatcher({ decode, outputLanguage: 'en' })
+      .match(input('left', 'left', 'left', 'top', 'top', 'black', 'black', 'left', 'left'));
+    expect(partial).toBe(false);
+    expect(segments(matches)).toEqual([
+      [0, 5, 1, 1],
+      [5, 9, 2, 1],
+      [13, undefined, 1, 1], // Reaches the last frame, so stays open
+    ]);
+    expect(matches[0]).toMatchObject({ slideTitle: 'Intro page 1', confidence: 'High', similarity: 1 });
+  });
+
+  it('drops a single-frame flicker that does not score as strong', async () => {
+    const matcher = createLocalMatcher({ decode, strongScore: 1.1 });
+    const { matches } = await matcher.match(input('left', 'left', 'checker', 'left', 'left'));
+    expect(segments(matches)).toEqual([[0, undefined, 1, 1]]);
+  });
+
+  it('keeps a single frame that matches strongly', async () => {
+    const { matches } = await createLocalMatcher({ decode }).match(input('left', 'left', 'checker', 'left', 'left'));
+    expect(segments(matches)).toEqual([[0, 3, 1, 1], [3, 5, 1, 2], [5, undefined, 1, 1]]);
+  });
+
+  it('returns the same matches for the same input', async () => {
+    const frames = input('black', 'top', 'top', 'left', 'checker', 'checker');
+    const first = await createLocalMatcher({ decode, outputLanguage: 'en' }).match(frames);
+    expect(await createLocalMatcher({ decode, outputLanguage: 'en' }).match(frames)).toEqual(first);
+    expect(segments(first.matches)).toEqual([[1, 5, 2, 1], [5, 7, 1, 1], [7, undefined, 1, 2]]);
+  });
+
+  it('reports progress over every page and frame', async () => {
+    const progress: number[] = [];
+    await createLocalMatcher({ decode }).match(input('left', 'top'), { onProgress: p => progress.push(p) });
+    expect(progress).toHaveLength(5);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+});
+
+describe('scoreToConfidence', () => {
+  it('maps similarity scores to confidence levels', () => {
+    expect(scoreToConfidence(0.9)).toBe('High');
+    expect(scoreToConfidence(0.85)).toBe('High');
+    expect(scoreToConfidence(0.7)).toBe('Medium');
+    expect(scoreToConfidence(0.69)).toBe('Low');
+  });
+});
@@ -0,0 +1,156 @@
+import { SlideMatch } from '../types';
+import { GrayImage, dataUrlToGray } from '../utils/image';
+import { formatTime } from '../utils/time';
+import { FEATURE_HEIGHT, FEATURE_WIDTH, ImageFeatures, computeFeatures, similarity } from './similarity';
+import { abortError } from '../utils/abort';
+import { SlideMatcher } from './types';
+import { Locale, getLocale, t, translate } from '../i18n';
+
+// --- Local Matcher ---
+// Fully offline: compares the extracted JPEGs with perceptual features.
+// Same input always produces the same output, so it doubles as a test baseline.
+
+export interface LocalMatcherOptions {
+  minScore?: number;     // Frames whose best page scores lower are treated as "no slide"
+  minRunFrames?: number; // A page must win this many consecutive frames to count...
+  strongScore?: number;  // ...unless a single frame already scores this high
+  decode?: (dataUrl: string) => Promise<GrayImage>;
+  outputLanguage?: Locale; // Language of reasoning and fallback titles; the interface language when missing
+}
+
+interface FrameLabel {
+  key: string | null; // `${deckId}:${pageNumber}` or null for no slide
+  deckId: number;
+  pageNumber: number;
+  score: number;
+  runnerUp: number; // Best score among the other pages
+}
+
+export const scoreToConfidence = (score: number): string => {
+  if (score >= 0.85) return 'High';
+  if (score >= 0.7) return 'Medium';
+  return 'Low';
+};
+
+export const createLocalMatcher = (options: LocalMatcherOptions = {}): SlideMatcher => {
+  const minScore = options.minScore ?? 0.55;
+  const minRunFrames = options.minRunFrames ?? 2;
+  const strongScore = options.strongScore ?? 0.85;
+  const decode = options.decode ?? ((dataUrl: string) => dataUrlToGray(dataUrl, FEATURE_WIDTH, FEATURE_HEIGHT));
+
+  return {
+    kind: 'local',
+    label: t('matcher.localLabel'),
+    match: async ({ decks, pdfImages, videoFrames }, events = {}) => {
+      const language = options.outputLanguage ?? getLocale();
+      const total = pdfImages.length + videoFrames.length;
+      let done = 0;
+      const features = async (dataUrl: string): Promise<ImageFeatures> => {
+        if (events.signal?.aborted) throw abortError();
+        const f = computeFeatures(await decode(dataUrl));
+        events.onProgress?.((++done / total) * 100);
+        return f;
+      };
+
+      // 1. Features for every deck page and frame
+      const pages: { deckId: number; pageNumber: number; features: ImageFeatures }[] = [];
+      for (const img of pdfImages) {
+        pages.push({ deckId: img.deckId, pageNumber: img.pageNumber, features: await features(img.dataUrl) });
+      }
+      const frameFeatures: ImageFeatures[] = [];
+      for (const frm of videoFrames) {
+        frameFeatures.push(await features(frm.dataUrl));
+      }
+
+      // 2. Best page per frame
+      const labels: FrameLabel[] = frameFeatures.map(ff => {
+        let best = -1;
+        let bestScore = -Infinity;
+        let runnerUp = 0;
+        pages.forEach((page, i) => {
+          const score = similarity(ff, page.features);
+          if (score > bestScore) {
+            runnerUp = Math.max(runnerUp, bestScore);
+            bestScore = score;
+            best = i;
+          } else if (score > runnerUp) {
+            runnerUp = score;
+          }
+        });
+        if (best === -1 || bestScore < minScore) {
+          return { key: null, deckId: 0, pageNumber: 0, score: Math.max(0, bestScore), runnerUp };
+        }
+        const page = pages[best];
+        return { key: `${page.deckId}:${page.pageNumber}`, deckId: page.deckId, pageNumber: page.pageNumber, score: bestScore, runnerUp };
+      });
+
+      // 3. Collapse into runs of the same label and drop flickers.
+      // Each stable run opens a segment, or extends the open one if it shows the same page;
+      // a stable "no slide" run closes it, so a later return becomes a revisit.
+      const matches: SlideMatch[] = [];
+      const boundaryBefore = (i: number) =>
+        i === 0 ? videoFrames[0].timestamp : (videoFrames[i - 1].timestamp + videoFrames[i].timestamp) / 2;
+      // A run that reaches the last frame stays open until the end of the video
+      const boundaryAfter = (i: number) =>
+        i === videoFrames.length - 1 ? undefined : (videoFrames[i].timestamp + videoFrames[i + 1].timestamp) / 2;
+
+      let open: { key: string; match: SlideMatch; scores: number[]; runnerUp: number } | null = null;
+      const close = () => {
+        if (!open) return;
+        const meanScore = open.scores.reduce((sum, v) => sum + v, 0) / open.scores.length;
+        open.match.reasoning = translate(language, 'matcher.localReasoning', {
+          score: meanScore.toFixed(2),
+          frames: open.scores.length,
+          runnerUp: open.runnerUp.toFixed(2),
+        });
+        open.match.confidence = scoreToConfidence(meanScore);
+        open.match.similarity = Number(meanScore.toFixed(3));
+        matches.push(open.match);
+        open = null;
+      };
+
+      let start = 0;
+      while (start < labels.length) {
+        let end = start;
+        while (end + 1 < labels.length && labels[end + 1].key === labels[start].key) end++;
+
+        const run = labels.slice(start, end + 1);
+        const head = labels[start];
+        const peak = Math.max(...run.map(l => l.score));
+        const stable = run.length >= minRunFrames || peak >= strongScore;
+
+        if (stable && head.key === null) {
+          close();
+        } else if (stable && open?.key === head.key) {
+          open.match.endSeconds = boundaryAfter(end);
+          open.scores.push(...run.map(l => l.score));
+          open.runnerUp = Math.max(open.runnerUp, ...run.map(l => l.runnerUp));
+        } else if (stable) {
+          close();
+          // The slide appeared somewhere between the previous sample and this one
+          const seconds = boundaryBefore(start);
+          const deck = decks.find(d => d.deckId === head.deckId);
+          open = {
+            key: head.key!,
+            scores: run.map(l => l.score),
+            runnerUp: Math.max(...run.map(l => l.runnerUp)),
+            match: {
+              timestamp: formatTime(seconds),
+              seconds,
+              endSeconds: boundaryAfter(end),
+              deckId: head.deckId,
+              pageNumber: head.pageNumber,
+              slideTitle: translate(language, 'matcher.localTitle', { deck: deck?.label || `DECK ${head.deckId}`, page: head.pageNumber }),
+              reasoning: '',
+              confidence: 'Low',
+            },
+          };
+        }
+        start = end + 1;
+      }
+      close();
+
+      return { matches, partial: false };
+    },
+  };
+};
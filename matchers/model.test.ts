@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PdfPageImage, VideoFrameImage } from '../types';
+import { deck, pageKeys } from '../testing/fixtures';
+import { createModelMatcher } from './model';
+import { MatchInput } from './types';
+import { MockResponse, createMockProvider } from '../providers/mock';
+import { t } from '../i18n';
+
+const IMAGE = 'data:image/jpeg;base64,AA==';
+
+const decks = [deck(1, 'Intro', 2), deck(2, 'Demo', 2)];
+
+const input: MatchInput = {
+  decks,
+  pdfImages: decks.flatMap(d => [1, 2].map((pageNumber): PdfPageImage => ({ deckId: d.deckId, pageNumber, dataUrl: IMAGE }))),
+  // A frame every 2 s, 0..18 s
+  videoFrames: Array.from({ length: 10 }, (_, i): VideoFrameImage => ({ timestamp: i * 2, timeString: '', dataUrl: IMAGE })),
+};
+
+const item = (timestamp: string, endTimestamp: string, deckId: number, pageNumber: number) =>
+  JSON.stringify({ timestamp, endTimestamp, deckId, pageNumber, slideTitle: `p${pageNumber}`, reasoning: 'same layout', confidence: 'high' });
+
+const RESPONSE = `{"transitions":[${item('00:00.0', '00:02.0', 1, 1)},${item('00:04.0', '00:08.0', 1, 2)},${item('00:12.0', '00:18.0', 2, 1)}]}`;
+
+const run = (script: MockResponse[], chunkSize?: number) =>
+  createModelMatcher('mock', createMockProvider(script, { chunkSize })).match(input);
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createModelMatcher with replayed responses', () => {
+  it('parses a complete response and moves times to the middle of the sampling interval', async () => {
+    const outcome = await run([RESPONSE]);
+    expect(outcome.partial).toBe(false);
+    expect(outcome.rawResponses).toEqual([RESPONSE]);
+    expect(outcome.matches.map(m => [m.seconds, m.endSeconds, m.deckId, m.pageNumber, m.confidence])).toEqual([
+      [0, 3, 1, 1, 'High'],
+      [3, 9, 1, 2, 'High'],
+      [11, 18, 2, 1, 'High'],
+    ]);
+  });
+
+  it('gives the same matches however the stream is split', async () => {
+    const whole = await run([RESPONSE]);
+    expect((await run([RESPONSE], 1)).matches).toEqual(whole.matches);
+    expect((await run([RESPONSE], 7)).matches).toEqual(whole.matches);
+    const cut = RESPONSE.indexOf('"00:04.0"') + 3;
+    expect((await run([{ chunks: [RESPONSE.slice(0, cut), RESPONSE.slice(cut)] }])).matches).toEqual(whole.matches);
+  });
+
+  it('streams matches as each item completes', async () => {
+    const seen: number[] = [];
+    await createModelMatcher('mock', createMockProvider([RESPONSE], { chunkSize: 5 }))
+      .match(input, { onResults: matches => seen.push(matches.length) });
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  it('keeps the complete items of a truncated response and marks the run partial', async () => {
+    const truncated = RESPONSE.slice(0, RESPONSE.indexOf('"00:12.0"') + 5);
+    const outcome = await run([truncated]);
+    expect(outcome.partial).toBe(true);
+    expect(pageKeys(outcome.matches)).toEqual(['1:1', '1:2']);
+    expect(outcome.rawResponses).toEqual([truncated]);
+  });
+
+  it('skips malformed items and items with unreadable fields', async () => {
+    const response = `\`\`\`json\n{"transitions":[${item('00:00.0', '00:02.0', 1, 1)},{"timestamp":"00:04.0",},` +
+      `{"timestamp":12,"deckId":2,"pageNumber":1},${item('00:12.0', '00:18.0', 2, 1)}]}\n\`\`\``;
+    const outcome = await run([response]);
+    expect(outcome.partial).toBe(false);
+    expect(pageKeys(outcome.matches)).toEqual(['1:1', '2:1']);
+  });
+
+  it('fails on a response with no JSON at all', async () => {
+    await expect(run(['I cannot help with that.'])).rejects.toThrow(t('error.unparseableResponse'));
+  });
+
+  it('retries an empty response', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff wait
+    expect(pageKeys((await run(['', RESPONSE])).matches)).toEqual(['1:1', '1:2', '2:1']);
+  });
+
+  it('retries a network failure with the next response', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff wait
+    const retries: number[] = [];
+    const outcome = await createModelMatcher('mock', createMockProvider([{ error: 'fetch failed' }, RESPONSE]))
+      .match(input, { onRetry: info => retries.push(info.attempt) });
+    expect(retries).toEqual([1]);
+    expect(pageKeys(outcome.matches)).toEqual(['1:1', '1:2', '2:1']);
+  });
+
+  it('fails once the script runs out', async () => {
+    await expect(run([])).rejects.toThrow(t('error.replayExhausted', { count: 0 }));
+  });
+
+  it('sends one request per window and joins a slide that stays up across the boundary', async () => {
+    // Frames 0-5 (0..10 s) and 4-9 (8..18 s)
+    const first = `{"transitions":[${item('00:00.0', '00:02.0', 1, 1)},${item('00:04.0', '00:10.0', 1, 2)}]}`;
+    const second = `{"transitions":[${item('00:08.0', '00:10.0', 1, 2)},${item('00:12.0', '00:18.0', 2, 1)}]}`;
+    const outcome = await createModelMatcher('mock', createMockProvider([first, second]), { windowSize: 6, windowOverlap: 2 }).match(input);
+    expect(outcome.rawResponses).toEqual([first, second]);
+    expect(outcome.matches.map(m => [m.seconds, m.endSeconds, m.deckId, m.pageNumber])).toEqual([
+      [0, 3, 1, 1],
+      [3, 11, 1, 2],
+      [11, 18, 2, 1],
+    ]);
+  });
+});
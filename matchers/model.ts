@@ -0,0 +1,324 @@
+import { DeckInfo, PdfPageImage, SlideMatch, VideoFrameImage } from '../types';
+import { formatTime, formatTimePrecise, parseTimeToSeconds } from '../utils/time';
+import { createArrayItemStreamParser, parseRootObject } from '../utils/jsonStream';
+import { correctEndToMidpoint, correctToMidpoint } from '../video/sampling';
+import { abortError } from '../utils/abort';
+import { retryWithBackoff } from '../utils/retry';
+import { ContentPart, ImageDetail, ModelProvider, estimateTokens, imagePart } from '../providers/types';
+import { categorizedError, isRetryable } from '../providers/errors';
+import { Locale, getLocale, t } from '../i18n';
+import { PromptTemplates, promptsFor } from '../prompts';
+import { MatcherKind, SlideMatcher } from './types';
+import { FrameWindow, WindowResult, planWindows, reconcileWindows, slideAt } from './windowing';
+
+// --- Model Matcher ---
+// Sends every deck page plus one window of sampled frames per multimodal request.
+// Works with any provider; the response is parsed and validated here.
+
+export interface ModelMatcherOptions {
+  windowSize?: number;    // Frames per request
+  windowOverlap?: number; // Frames shared by neighbouring windows
+  promptLocale?: Locale;   // Prompt language; the interface language when missing
+  outputLanguage?: Locale; // Language of reasoning and summarized titles; the interface language when missing
+}
+
+interface WindowContext {
+  window: FrameWindow;
+  windowCount: number;
+  carry: SlideMatch | null; // Slide on screen when the window starts
+}
+
+// Expected response, as JSON Schema
+const TRANSITIONS_SCHEMA = (deckCount: number) => ({
+  type: 'object',
+  properties: {
+    transitions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          timestamp: { type: 'string', description: "Segment start, MM:SS.s, copied from VIDEO_TIMESTAMP" },
+          endTimestamp: { type: 'string', description: "Last frame of the segment, MM:SS.s, copied from VIDEO_TIMESTAMP" },
+          deckId: { type: 'integer', description: `Deck number, 1 to ${deckCount}` },
+          pageNumber: { type: 'integer' },
+          slideTitle: { type: 'string', description: "Title of the slide identified" },
+          reasoning: { type: 'string', description: "Why this match was made. Keep it short." },
+          confidence: { type: 'string', enum: ["High", "Medium", "Low"] },
+        },
+        required: ["timestamp", "endTimestamp", "deckId", "pageNumber", "slideTitle", "reasoning", "confidence"]
+      }
+    }
+  },
+  required: ["transitions"]
+});
+
+// Answer to a verification request
+const VERIFY_SCHEMA = {
+  type: 'object',
+  properties: {
+    onScreen: { type: 'boolean', description: "Whether one of the candidate slides is on screen" },
+    deckId: { type: 'integer', description: "DECK number of that slide, 0 if none" },
+    pageNumber: { type: 'integer', description: "Page number of that slide, 0 if none" },
+    confidence: { type: 'string', enum: ["High", "Medium", "Low"] },
+    reasoning: { type: 'string', description: "One sentence on what decided it" },
+  },
+  required: ["onScreen", "deckId", "pageNumber", "confidence", "reasoning"]
+};
+
+const CONFIDENCE_LEVELS = ["High", "Medium", "Low"];
+
+const normalizeConfidence = (value: unknown) =>
+  CONFIDENCE_LEVELS.find(level => level.toLowerCase() === String(value).toLowerCase()) ?? 'Low';
+
+// Output limit per request
+const MAX_OUTPUT_TOKENS = 8192;
+const VERIFY_OUTPUT_TOKENS = 1024;
+
+// Page text is capped so decks with dense slides do not crowd out the frames
+const PAGE_TEXT_LIMIT = 300;
+
+const pageTextNote = (prompts: PromptTemplates, img: PdfPageImage) => {
+  const text = img.text && img.text.length > PAGE_TEXT_LIMIT ? `${img.text.slice(0, PAGE_TEXT_LIMIT)}…` : img.text;
+  const note = prompts.pageNote(img.title, text);
+  return note ? ` ${note}` : '';
+};
+
+export const createModelMatcher = (kind: MatcherKind, provider: ModelProvider, options: ModelMatcherOptions = {}): SlideMatcher => {
+  const windowSize = options.windowSize ?? 120;
+  const windowOverlap = options.windowOverlap ?? 16;
+
+  // The prompt for one window, in request order
+  const buildParts = (
+    deckList: DeckInfo[],
+    pdfImgs: PdfPageImage[],
+    videoFrms: VideoFrameImage[],
+    context: WindowContext
+  ): ContentPart[] => {
+    const parts: ContentPart[] = [];
+    const windowFrames = videoFrms.slice(context.window.start, context.window.end);
+    const deckCount = deckList.length;
+    const deckOrder = deckList.map(d => `DECK ${d.deckId}`).join(' -> ');
+    // Read per request, so a language switch applies to the next run
+    const prompts = promptsFor(options.promptLocale ?? getLocale());
+    const outputLanguage = options.outputLanguage ?? getLocale();
+
+    // 1. Deck Sections (one per deck, in talk order)
+    deckList.forEach((deck, i) => {
+      parts.push({ type: 'text', text: `${i === 0 ? '' : '\n\n'}${prompts.deckIntro(deck, i === 0 ? null : deckList[i - 1])}` });
+      pdfImgs.filter(img => img.deckId === deck.deckId).forEach(img => {
+        parts.push({ type: 'text', text: `(DECK${deck.deckId} Page ${img.pageNumber})${pageTextNote(prompts, img)}` });
+        parts.push(imagePart(img.dataUrl));
+      });
+    });
+
+    // 2. Video Frames Section
+    if (context.windowCount > 1) {
+      parts.push({ type: 'text', text: `\n\n${prompts.windowNote({
+        index: context.window.index,
+        count: context.windowCount,
+        from: formatTimePrecise(windowFrames[0].timestamp),
+        to: formatTimePrecise(windowFrames[windowFrames.length - 1].timestamp),
+        carry: context.carry,
+      })}` });
+    }
+    parts.push({ type: 'text', text: `\n\n${prompts.framesIntro}` });
+    windowFrames.forEach(frm => {
+      parts.push({ type: 'text', text: `\n[VIDEO_TIMESTAMP: ${formatTimePrecise(frm.timestamp)}]` });
+      parts.push(imagePart(frm.dataUrl));
+    });
+
+    // 3. Instructions
+    const systemPrompt = prompts.matchInstructions({ deckCount, deckOrder, outputLanguage });
+    parts.push({ type: 'text', text: systemPrompt });
+    return parts;
+  };
+
+  const analyzeWindow = async (
+    deckList: DeckInfo[],
+    pdfImgs: PdfPageImage[],
+    videoFrms: VideoFrameImage[],
+    context: WindowContext,
+    imageDetail: ImageDetail | undefined,
+    onItems: (transitions: SlideMatch[]) => void,
+    signal?: AbortSignal
+  ): Promise<{ transitions: SlideMatch[]; partial: boolean; responseText: string }> => {
+    const parts = buildParts(deckList, pdfImgs, videoFrms, context);
+    const deckCount = deckList.length;
+
+    // Parse and validate one streamed item; only known fields are kept. Deck/page range
+    // checks happen in the sequence repair stage, where they are reported instead of silently dropped.
+    const toSlideMatch = (t: any): SlideMatch | null => {
+      const detectedSeconds = parseTimeToSeconds(t?.timestamp);
+      if (typeof t?.timestamp !== 'string' || !Number.isFinite(detectedSeconds) || !Number.isFinite(Number(t.deckId))) {
+        console.warn("Discarding transition with unreadable fields:", t);
+        return null;
+      }
+
+      // --- Midpoint Correction Algorithm ---
+      // Sampling is non-uniform, so use the actual interval before the matched frame
+      // (and, for the segment end, the interval after its last frame)
+      const correctedSeconds = correctToMidpoint(videoFrms, detectedSeconds);
+      const detectedEnd = typeof t.endTimestamp === 'string' ? parseTimeToSeconds(t.endTimestamp) : NaN;
+      const endSeconds = Number.isFinite(detectedEnd) && t.endTimestamp
+        ? Math.max(correctedSeconds, correctEndToMidpoint(videoFrms, detectedEnd))
+        : undefined;
+      const confidence = normalizeConfidence(t.confidence);
+
+      return {
+        timestamp: formatTime(correctedSeconds),
+        seconds: correctedSeconds,
+        endSeconds,
+        deckId: Number(t.deckId),
+        pageNumber: Number(t.pageNumber),
+        slideTitle: typeof t.slideTitle === 'string' ? t.slideTitle : '',
+        reasoning: typeof t.reasoning === 'string' ? t.reasoning : '',
+        confidence,
+      };
+    };
+
+    // --- Incremental Parsing ---
+    // Every `transitions` item is kept as soon as its object is complete,
+    // so a truncated stream loses only the item that was being written.
+    const transitions: SlideMatch[] = [];
+    const parser = createArrayItemStreamParser(
+      'transitions',
+      (item) => {
+        const match = toSlideMatch(item);
+        if (match) {
+          transitions.push(match);
+          onItems([...transitions]);
+        }
+      },
+      (text, e) => console.warn("Skipping malformed transition:", text, e)
+    );
+
+    const stream = provider.generate({
+      parts,
+      schema: TRANSITIONS_SCHEMA(deckCount),
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      imageDetail,
+      signal,
+    });
+
+    let responseText = '';
+    for await (const text of stream) {
+      if (signal?.aborted) throw abortError();
+      responseText += text;
+      parser.push(text);
+    }
+
+    // Providers report their own safety stops; an empty reply otherwise is worth another try
+    if (!responseText) {
+      throw categorizedError('server', t('error.emptyResponse'));
+    }
+
+    const partial = !parser.isComplete();
+    if (partial) {
+      console.warn("Response stream ended before the JSON was closed. Keeping complete items only.");
+      console.log("Raw Model Output:", responseText);
+      if (!responseText.includes('{')) {
+        throw new Error(t('error.unparseableResponse'));
+      }
+    }
+
+    return { transitions, partial, responseText };
+  };
+
+  return {
+    kind,
+    label: provider.label,
+    match: async ({ decks, pdfImages, videoFrames, imageDetail }, events = {}) => {
+      const windows = planWindows(videoFrames.length, windowSize, windowOverlap);
+      const results: WindowResult[] = [];
+      const rawResponses: string[] = [];
+      let partial = false;
+
+      // Sequential on purpose: each window is told which slide the previous ones ended on
+      for (const window of windows) {
+        events.onProgress?.((window.index / windows.length) * 100, { windowIndex: window.index, windowCount: windows.length });
+        const merged = reconcileWindows(videoFrames, results);
+        const carry = slideAt(merged, videoFrames[window.start].timestamp);
+        // A failed request is sent again from scratch; its live rows are replaced
+        const outcome = await retryWithBackoff(
+          () => analyzeWindow(
+            decks, pdfImages, videoFrames,
+            { window, windowCount: windows.length, carry },
+            imageDetail,
+            (live) => events.onResults?.(reconcileWindows(videoFrames, [...results, { window, transitions: live }])),
+            events.signal
+          ),
+          { shouldRetry: isRetryable, onRetry: events.onRetry, signal: events.signal }
+        );
+        results.push({ window, transitions: outcome.transitions });
+        rawResponses.push(outcome.responseText);
+        partial = partial || outcome.partial;
+      }
+      events.onProgress?.(100, { windowIndex: windows.length - 1, windowCount: windows.length });
+
+      return { matches: reconcileWindows(videoFrames, results), partial, rawResponses };
+    },
+    // Every window's prompt as it will be sent (without the carried-over slide)
+    estimate: async ({ decks, pdfImages, videoFrames, imageDetail }, signal) => {
+      const windows = planWindows(videoFrames.length, windowSize, windowOverlap);
+      let inputTokens = 0;
+      for (const window of windows) {
+        const request = { parts: buildParts(decks, pdfImages, videoFrames, { window, windowCount: windows.length, carry: null }), imageDetail, signal };
+        inputTokens += provider.countTokens
+          ? await retryWithBackoff(() => provider.countTokens!(request), { shouldRetry: isRetryable, signal })
+          : estimateTokens(request);
+      }
+      const maxOutputTokens = windows.length * MAX_OUTPUT_TOKENS;
+      return {
+        requests: windows.length,
+        inputTokens,
+        maxOutputTokens,
+        costUsd: provider.pricing ? (inputTokens * provider.pricing.input + maxOutputTokens * provider.pricing.output) / 1e6 : null,
+        exact: !!provider.countTokens,
+      };
+    },
+    verify: async ({ candidates, frames }, signal) => {
+      const prompts = promptsFor(options.promptLocale ?? getLocale());
+      const parts: ContentPart[] = [{ type: 'text', text: prompts.verifyCandidatesIntro }];
+      candidates.forEach(img => {
+        parts.push({ type: 'text', text: `\n(DECK${img.deckId} Page ${img.pageNumber})${pageTextNote(prompts, img)}` });
+        parts.push(imagePart(img.dataUrl));
+      });
+      parts.push({ type: 'text', text: `\n\n${prompts.verifyFramesIntro}` });
+      frames.forEach(frm => {
+        parts.push({ type: 'text', text: `\n[VIDEO_TIMESTAMP: ${formatTimePrecise(frm.timestamp)}]` });
+        parts.push(imagePart(frm.dataUrl));
+      });
+      parts.push({ type: 'text', text: prompts.verifyInstructions(options.outputLanguage ?? getLocale()) });
+
+      const responseText = await retryWithBackoff(async () => {
+        let text = '';
+        for await (const chunk of provider.generate({ parts, schema: VERIFY_SCHEMA, maxOutputTokens: VERIFY_OUTPUT_TOKENS, signal })) {
+          if (signal?.aborted) throw abortError();
+          text += chunk;
+        }
+        if (!text) throw categorizedError('server', t('error.emptyResponse'));
+        return text;
+      }, { shouldRetry: isRetryable, signal });
+
+      let answer: any;
+      try {
+        answer = parseRootObject(responseText);
+      } catch {
+        throw new Error(t('error.unparseableResponse'));
+      }
+      const page = answer?.onScreen
+        ? candidates.find(c => c.deckId === Number(answer.deckId) && c.pageNumber === Number(answer.pageNumber))
+        : undefined;
+      // Only a listed candidate is a usable answer
+      if (answer?.onScreen && !page) {
+        throw new Error(t('error.verifyNotCandidate', { deckId: answer.deckId, pageNumber: answer.pageNumber }));
+      }
+      return {
+        page: page ? { deckId: page.deckId, pageNumber: page.pageNumber } : null,
+        confidence: normalizeConfidence(answer?.confidence),
+        reasoning: typeof answer?.reasoning === 'string' ? answer.reasoning : '',
+        responseText,
+      };
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { GrayImage } from '../utils/image';
+
+// --- Local Image Similarity ---
+// Pure feature extraction / comparison on small grayscale images.
+// Deck pages and video frames are both resampled to FEATURE_WIDTH x FEATURE_HEIGHT.
+
+export const FEATURE_WIDTH = 36;
+export const FEATURE_HEIGHT = 24;
+
+const HASH_WIDTH = 9; // dHash compares 9 columns -> 8 bits per row
+const HASH_HEIGHT = 8;
+const HISTOGRAM_BINS = 16;
+
+// Relative weight of each feature in the combined score
+const WEIGHTS = { correlation: 0.6, hash: 0.25, histogram: 0.15 };
+
+export interface ImageFeatures {
+  pixels: Float32Array;    // Zero-mean, unit-norm grayscale (all zeros for flat images)
+  hash: Uint8Array;        // 64-bit difference hash, one bit per entry
+  histogram: Float32Array; // Normalized intensity histogram
+}
+
+// Box-filter resample to w x h
+const downsample = (img: GrayImage, w: number, h: number): Float32Array => {
+  const out = new Float32Array(w * h);
+  const counts = new Float32Array(w * h);
+  for (let y = 0; y < img.height; y++) {
+    const ty = Math.min(h - 1, Math.floor((y * h) / img.height));
+    for (let x = 0; x < img.width; x++) {
+      const tx = Math.min(w - 1, Math.floor((x * w) / img.width));
+      out[ty * w + tx] += img.data[y * img.width + x];
+      counts[ty * w + tx]++;
+    }
+  }
+  for (let i = 0; i < out.length; i++) {
+    if (counts[i] > 0) out[i] /= counts[i];
+  }
+  return out;
+};
+
+export const computeFeatures = (img: GrayImage): ImageFeatures => {
+  // 1. Normalized pixels for correlation
+  const pixels = Float32Array.from(img.data);
+  const mean = pixels.reduce((sum, v) => sum + v, 0) / pixels.length;
+  let norm = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] -= mean;
+    norm += pixels[i] * pixels[i];
+  }
+  norm = Math.sqrt(norm);
+  // A flat frame (black screen, fade) carries no structure to correlate against
+  if (norm < 1e-3) {
+    pixels.fill(0);
+  } else {
+    for (let i = 0; i < pixels.length; i++) pixels[i] /= norm;
+  }
+
+  // 2. Difference hash: is each cell brighter than its right neighbour?
+  const small = downsample(img, HASH_WIDTH, HASH_HEIGHT);
+  const hash = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash[y * (HASH_WIDTH - 1) + x] = small[y * HASH_WIDTH + x] > small[y * HASH_WIDTH + x + 1] ? 1 : 0;
+    }
+  }
+
+  // 3. Intensity histogram
+  const histogram = new Float32Array(HISTOGRAM_BINS);
+  for (let i = 0; i < img.data.length; i++) {
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((img.data[i] / 256) * HISTOGRAM_BINS));
+    histogram[bin]++;
+  }
+  for (let i = 0; i < HISTOGRAM_BINS; i++) histogram[i] /= img.data.length;
+
+  return { pixels, hash, histogram };
+};
+
+// Pearson correlation, -1..1 (0 if either image is flat)
+export const correlation = (a: ImageFeatures, b: ImageFeatures): number => {
+  let dot = 0;
+  for (let i = 0; i < a.pixels.length; i++) dot += a.pixels[i] * b.pixels[i];
+  return dot;
+};
+
+// 1 - normalized Hamming distance, 0..1
+export const hashSimilarity = (a: ImageFeatures, b: ImageFeatures): number => {
+  let diff = 0;
+  for (let i = 0; i < a.hash.length; i++) {
+    if (a.hash[i] !== b.hash[i]) diff++;
+  }
+  return 1 - diff / a.hash.length;
+};
+
+// Histogram intersection, 0..1
+export const histogramSimilarity = (a: ImageFeatures, b: ImageFeatures): number => {
+  let overlap = 0;
+  for (let i = 0; i < a.histogram.length; i++) overlap += Math.min(a.histogram[i], b.histogram[i]);
+  return overlap;
+};
+
+// Combined similarity score, 0..1
+export const similarity = (a: ImageFeatures, b: ImageFeatures): number => {
+  return (
+    WEIGHTS.correlation * Math.max(0, correlation(a, b)) +
+    WEIGHTS.hash * hashSimilarity(a, b) +
+    WEIGHTS.histogram * histogramSimilarity(a, b)
+  );
+};
@@ -0,0 +1,64 @@
+import { DeckInfo, PdfPageImage, SlideMatch, VideoFrameImage } from '../types';
+import { ImageDetail } from '../providers/types';
+import { RetryInfo } from '../utils/retry';
+
+export type MatcherKind = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface MatchInput {
+  decks: DeckInfo[];
+  pdfImages: PdfPageImage[];
+  videoFrames: VideoFrameImage[];
+  imageDetail?: ImageDetail; // Image resolution requested from model providers
+}
+
+// Extra progress detail for matchers that work in several requests
+export interface MatchProgress {
+  windowIndex: number; // 0-based
+  windowCount: number;
+}
+
+export interface MatchEvents {
+  onProgress?: (p: number, detail?: MatchProgress) => void;
+  onResults?: (matches: SlideMatch[]) => void; // Best-so-far results while the matcher runs
+  onRetry?: (info: RetryInfo) => void; // A failed request is about to be sent again
+  signal?: AbortSignal; // Cancels the run, including any request in flight
+}
+
+export interface MatchOutcome {
+  matches: SlideMatch[];
+  partial: boolean; // A response was cut off; only its complete items were kept
+  rawResponses?: string[]; // Model output as received, for matchers that call a model
+}
+
+// Pre-flight size of a run, for matchers that call a paid model
+export interface MatchEstimate {
+  requests: number;
+  inputTokens: number;
+  maxOutputTokens: number; // Upper bound: every request's output limit
+  costUsd: number | null;  // Upper bound, from the provider's list price; null when unknown
+  exact: boolean;          // Input counted by the provider rather than estimated locally
+}
+
+// A closer look at one uncertain match: sharper frames from inside its segment
+// and the few pages that look most like them
+export interface VerifyInput {
+  decks: DeckInfo[];
+  candidates: PdfPageImage[]; // Most similar first
+  frames: VideoFrameImage[];
+}
+
+export interface VerifyOutcome {
+  page: { deckId: number; pageNumber: number } | null; // null: none of the candidates is on screen
+  confidence: string;
+  reasoning: string;
+  responseText: string;
+}
+
+// Anything that can turn extracted deck pages + sampled frames into transitions.
+export interface SlideMatcher {
+  kind: MatcherKind;
+  label: string; // Shown in the processing status
+  match: (input: MatchInput, events?: MatchEvents) => Promise<MatchOutcome>;
+  estimate?: (input: MatchInput, signal?: AbortSignal) => Promise<MatchEstimate>;
+  verify?: (input: VerifyInput, signal?: AbortSignal) => Promise<VerifyOutcome>;
+}
@@ -0,0 +1,84 @@
+import { SlideMatch, VideoFrameImage } from '../types';
+import { continuesSegment, extendSegment } from '../postprocess/segments';
+
+// --- Windowed Analysis Helpers ---
+// Long frame sequences are analyzed as overlapping windows so no single request
+// hits the output token limit. These helpers plan the windows and merge results.
+
+export interface FrameWindow {
+  index: number; // 0-based
+  start: number; // First frame index (inclusive)
+  end: number;   // Last frame index (exclusive)
+}
+
+export interface WindowResult {
+  window: FrameWindow;
+  transitions: SlideMatch[];
+}
+
+export const planWindows = (frameCount: number, windowSize: number, overlap: number): FrameWindow[] => {
+  if (frameCount <= windowSize) return [{ index: 0, start: 0, end: frameCount }];
+
+  const step = Math.max(1, windowSize - overlap);
+  const windows: FrameWindow[] = [];
+  for (let start = 0; ; start += step) {
+    const end = Math.min(start + windowSize, frameCount);
+    windows.push({ index: windows.length, start, end });
+    if (end === frameCount) break;
+  }
+  return windows;
+};
+
+// Slide on screen at `seconds`, according to segments sorted by time
+export const slideAt = (transitions: SlideMatch[], seconds: number): SlideMatch | null => {
+  let current: SlideMatch | null = null;
+  for (const t of transitions) {
+    if (t.seconds > seconds) break;
+    current = t;
+  }
+  // A closed segment that ended before `seconds` leaves no slide on screen
+  if (current?.endSeconds !== undefined && current.endSeconds < seconds) return null;
+  return current;
+};
+
+// Deterministic merge:
+// 1. Each overlap is split at its midpoint; a window owns segments that start on its side of the split.
+// 2. The merged list is time-sorted and segments continuing the same page are joined,
+//    which carries the deck/page state across window boundaries.
+// 3. Segments a window does not own may still continue an owned one (a slide that stays
+//    up across the boundary); they only extend its end.
+export const reconcileWindows = (frames: VideoFrameImage[], results: WindowResult[]): SlideMatch[] => {
+  const ordered = [...results].sort((a, b) => a.window.index - b.window.index);
+
+  const boundary = (left: FrameWindow, right: FrameWindow) =>
+    (frames[right.start].timestamp + frames[left.end - 1].timestamp) / 2;
+
+  const owned: SlideMatch[] = [];
+  const continuations: SlideMatch[] = [];
+  ordered.forEach((result, k) => {
+    const lower = k === 0 ? -Infinity : boundary(ordered[k - 1].window, result.window);
+    const upper = k === ordered.length - 1 ? Infinity : boundary(result.window, ordered[k + 1].window);
+    result.transitions.forEach(t => {
+      (t.seconds >= lower && t.seconds < upper ? owned : continuations).push(t);
+    });
+  });
+
+  // Array.prototype.sort is stable, so equal timestamps keep window order
+  owned.sort((a, b) => a.seconds - b.seconds);
+
+  const merged: SlideMatch[] = [];
+  owned.forEach(t => {
+    const last = merged[merged.length - 1];
+    if (last && continuesSegment(last, t)) {
+      merged[merged.length - 1] = extendSegment(last, t);
+      return;
+    }
+    merged.push(t);
+  });
+
+  continuations.forEach(c => {
+    const i = merged.findIndex(m => m.seconds <= c.seconds && continuesSegment(m, c));
+    if (i !== -1) merged[i] = extendSegment(merged[i], c);
+  });
+  return merged;
+};
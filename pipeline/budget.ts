@@ -0,0 +1,109 @@
+import { VideoFrameImage } from '../types';
+import { MatchEstimate, MatchInput, SlideMatcher } from '../matchers/types';
+import { t } from '../i18n';
+
+// --- Analysis Budget ---
+// Fits a model run under a token and/or cost ceiling before anything is sent:
+// first by asking for low-resolution images, then by thinning the frames.
+
+export interface AnalysisBudget {
+  maxTokens?: number;  // Input plus the output limit of every request
+  maxCostUsd?: number;
+}
+
+export type BudgetAdjustment =
+  | { kind: 'low-detail' }
+  | { kind: 'thinned'; from: number; to: number };
+
+export interface BudgetFit {
+  input: MatchInput;   // What the matcher will receive
+  estimate: MatchEstimate;
+  adjustments: BudgetAdjustment[];
+  withinBudget: boolean; // False when even the smallest run is over; the caller decides
+}
+
+// Fewest frames the matcher is ever given
+const MIN_FRAMES = 2;
+// Thinning attempts; each one is a fresh count
+const MAX_ATTEMPTS = 5;
+
+export const estimateTotalTokens = (estimate: MatchEstimate) => estimate.inputTokens + estimate.maxOutputTokens;
+
+// How far over the tightest limit an estimate is (1 = exactly on it)
+const budgetRatio = (estimate: MatchEstimate, budget: AnalysisBudget) => Math.max(
+  budget.maxTokens ? estimateTotalTokens(estimate) / budget.maxTokens : 0,
+  budget.maxCostUsd && estimate.costUsd !== null ? estimate.costUsd / budget.maxCostUsd : 0
+);
+
+// `count` frames evenly spread over the list, first and last included. Sampling is
+// already denser around changes, so even spacing keeps that shape.
+export const thinFrames = (frames: VideoFrameImage[], count: number): VideoFrameImage[] => {
+  if (count >= frames.length) return frames;
+  if (count <= 1) return frames.slice(0, count);
+  return Array.from({ length: count }, (_, i) => frames[Math.round((i * (frames.length - 1)) / (count - 1))]);
+};
+
+export const fitToBudget = async (
+  matcher: SlideMatcher,
+  input: MatchInput,
+  budget: AnalysisBudget,
+  signal?: AbortSignal
+): Promise<BudgetFit | null> => {
+  if (!matcher.estimate) return null;
+  const adjustments: BudgetAdjustment[] = [];
+  let estimate = await matcher.estimate(input, signal);
+  if (budgetRatio(estimate, budget) <= 1) return { input, estimate, adjustments, withinBudget: true };
+
+  // 1. Cheaper images
+  input = { ...input, imageDetail: 'low' };
+  adjustments.push({ kind: 'low-detail' });
+  estimate = await matcher.estimate(input, signal);
+  let ratio = budgetRatio(estimate, budget);
+  if (ratio <= 1) return { input, estimate, adjustments, withinBudget: true };
+
+  // 2. Fewer frames. The size is roughly linear in the frame count, but deck pages
+  // and prompt text stay, so each guess comes from a line through the last two counts.
+  const all = input.videoFrames;
+  const tryFrames = async (count: number) => {
+    const candidate = { ...input, videoFrames: thinFrames(all, count) };
+    const candidateEstimate = await matcher.estimate!(candidate, signal);
+    return { frames: count, input: candidate, estimate: candidateEstimate, ratio: budgetRatio(candidateEstimate, budget) };
+  };
+  type Attempt = Awaited<ReturnType<typeof tryFrames>>;
+  let over: Attempt = { frames: all.length, input, estimate, ratio }; // Fewest frames known to be over
+  let fit: Attempt | null = null; // Most frames known to fit
+  let [previous, last] = [over, over];
+  let guess = Math.floor(all.length / ratio);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const floor = fit ? fit.frames : MIN_FRAMES - 1;
+    guess = Math.min(over.frames - 1, Math.max(floor + 1, guess));
+    if (guess <= floor) break;
+    [previous, last] = [last, await tryFrames(guess)];
+    if (last.ratio <= 1) {
+      fit = last;
+      if (last.ratio > 0.98) break; // Close enough to the limit
+    } else {
+      over = last;
+      if (last.frames === MIN_FRAMES) break;
+    }
+    const slope = (last.ratio - previous.ratio) / (last.frames - previous.frames);
+    guess = slope > 0
+      ? Math.floor(last.frames + (0.99 - last.ratio) / slope)
+      : Math.floor((last.frames * 0.99) / last.ratio);
+  }
+
+  const chosen = fit ?? over;
+  return {
+    input: chosen.input,
+    estimate: chosen.estimate,
+    adjustments: [...adjustments, { kind: 'thinned', from: all.length, to: chosen.frames }],
+    withinBudget: !!fit,
+  };
+};
+
+// --- Display ---
+
+export const describeAdjustment = (adjustment: BudgetAdjustment) =>
+  adjustment.kind === 'low-detail' ? t('budget.lowDetail') : t('budget.thinned', { from: adjustment.from, to: adjustment.to });
+
+export const formatUsd = (value: number) => (value < 0.01 ? '< $0.01' : `$${value.toFixed(2)}`);
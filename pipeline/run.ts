@@ -0,0 +1,201 @@
+import { DeckInfo, PdfPageImage, ProcessingStatus, SlideMatch, VideoFrameImage, VideoPart } from '../types';
+import { MatchInput, MatchOutcome, SlideMatcher } from '../matchers/types';
+import { Repair, repairSequence } from '../postprocess/sequence';
+import { applyDeckTitles } from '../postprocess/titles';
+import { VideoExtraction } from '../video/frames';
+import { TranscriptSegment } from '../transcripts/types';
+import { abortError, isAbortError } from '../utils/abort';
+import { classifyError, errorLabel } from '../providers/errors';
+import { AnalysisBudget, BudgetFit, fitToBudget } from './budget';
+import { VerificationLog, VerifySource, verifyMatches } from './verify';
+import { t } from '../i18n';
+
+// --- Analysis Pipeline ---
+// Extraction -> matching -> sequence repair -> optional verification and refinement, with no UI
+// or platform code. The browser app and the CLI supply their own extractors.
+
+type Progress = (p: number) => void;
+
+export interface PipelineDeck {
+  label: string;
+  fileName: string;
+  rasterize: (deckId: number, onProgress: Progress, signal?: AbortSignal) => Promise<PdfPageImage[]>;
+}
+
+export interface PipelineSources {
+  extractVideo: (onProgress: Progress, signal?: AbortSignal) => Promise<VideoExtraction>;
+  decks: PipelineDeck[];
+  // Second look at Medium/Low rows; skipped when missing or when the matcher cannot verify
+  verify?: VerifySource;
+  // Sub-second refinement; skipped when missing
+  refine?: (matches: SlideMatch[], frames: VideoFrameImage[], onProgress: Progress, signal?: AbortSignal) => Promise<SlideMatch[]>;
+  // Speech for the speaker notes; runs alongside everything else
+  transcribe?: (onProgress: Progress, signal?: AbortSignal) => Promise<TranscriptSegment[]>;
+  // Ceiling for paid model runs; frames are downscaled or thinned to fit
+  budget?: AnalysisBudget;
+}
+
+export interface PipelineEvents {
+  onStatus?: (update: (prev: ProcessingStatus) => ProcessingStatus) => void;
+  onResults?: (matches: SlideMatch[]) => void; // Live matcher rows, then the repaired and refined list
+  onExtracted?: (extracted: { decks: DeckInfo[]; pdfImages: PdfPageImage[]; videoFrames: VideoFrameImage[]; duration: number; parts?: VideoPart[] }) => void;
+  // Pre-flight estimate of a paid model run; resolving false cancels before anything is sent
+  confirmEstimate?: (fit: BudgetFit) => boolean | Promise<boolean>;
+}
+
+export interface PipelineResult {
+  decks: DeckInfo[];
+  pdfImages: PdfPageImage[];
+  videoFrames: VideoFrameImage[];
+  duration: number;
+  parts?: VideoPart[]; // Set when the video was extracted in parts
+  estimate?: BudgetFit; // Pre-flight estimate; its input holds the frames actually matched
+  outcome: MatchOutcome; // Raw matcher output
+  repairs: Repair[];
+  verification?: VerificationLog; // Set when the verification pass ran
+  matches: SlideMatch[]; // Final list
+  transcript?: TranscriptSegment[];
+  transcriptError?: string; // Transcription failed; the slide timeline is still complete
+}
+
+// Settles with `promise`, or rejects as soon as `signal` aborts (a confirmation
+// dialog the user never answers must not outlive a cancel)
+const untilAborted = <T,>(promise: Promise<T>, signal?: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => reject(abortError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+
+// Overall progress ranges; `start` leaves room for work done before the pipeline (fingerprints)
+export const runPipeline = async (
+  matcher: SlideMatcher,
+  sources: PipelineSources,
+  events: PipelineEvents = {},
+  signal?: AbortSignal,
+  start = 0
+): Promise<PipelineResult> => {
+  const setStatus = events.onStatus ?? (() => {});
+  const verifying = !!(sources.verify && matcher.verify);
+  const refineStart = sources.refine ? 90 : 99;
+  const analysisEnd = verifying ? refineStart - 9 : refineStart;
+  const phase = (from: number, to: number) => (p: number) =>
+    setStatus(prev => ({ ...prev, progress: from + ((to - from) * p) / 100 }));
+
+  // 0. Transcription runs in the background; a failure only loses the notes
+  let transcriptProgress = 0;
+  const transcription = sources.transcribe?.((p) => { transcriptProgress = p; }, signal)
+    .then(transcript => ({ transcript, transcriptError: undefined as string | undefined }))
+    .catch(e => {
+      if (isAbortError(e)) throw e;
+      console.error("Transcription failed:", e);
+      return { transcript: undefined, transcriptError: e instanceof Error ? e.message : String(e) };
+    });
+  // Keeps an early rejection from being reported as unhandled before it is awaited
+  transcription?.catch(() => {});
+
+  // 1. Parallel Processing: Extract all data simultaneously.
+  // The video counts double: it is usually the longest task.
+  setStatus(() => ({ step: 'extracting', message: t('status.extracting'), progress: start }));
+  const taskProgress = [0, ...sources.decks.map(() => 0)];
+  const extractionProgress = phase(start, 60);
+  const reportTask = (task: number) => (p: number) => {
+    taskProgress[task] = p;
+    extractionProgress((taskProgress[0] * 2 + taskProgress.slice(1).reduce((a, b) => a + b, 0)) / (sources.decks.length + 2));
+  };
+  const [{ frames: videoFrames, duration, parts }, deckImages] = await Promise.all([
+    sources.extractVideo(reportTask(0), signal),
+    Promise.all(sources.decks.map((deck, i) => deck.rasterize(i + 1, reportTask(i + 1), signal)))
+  ]);
+
+  // Deck ids are assigned from the list order
+  const decks: DeckInfo[] = sources.decks.map((deck, i) => ({
+    deckId: i + 1,
+    label: deck.label,
+    fileName: deck.fileName,
+    pageCount: deckImages[i].length,
+  }));
+  const pdfImages = deckImages.flat();
+  events.onExtracted?.({ decks, pdfImages, videoFrames, duration, parts });
+
+  // 2. Size a paid run up front and fit it to the budget
+  let input: MatchInput = { decks, pdfImages, videoFrames };
+  let estimate: BudgetFit | undefined;
+  if (matcher.estimate) {
+    setStatus(() => ({ step: 'estimating', message: t('status.estimating', { matcher: matcher.label }), progress: 60 }));
+    estimate = (await fitToBudget(matcher, input, sources.budget ?? {}, signal)) ?? undefined;
+    if (estimate) {
+      input = estimate.input;
+      if (events.confirmEstimate && !(await untilAborted(Promise.resolve(events.confirmEstimate(estimate)), signal))) {
+        throw abortError();
+      }
+    }
+  }
+
+  // 3. Match frames to deck pages
+  const analyzingMessage = t('status.analyzing', { matcher: matcher.label });
+  setStatus(() => ({ step: 'analyzing', message: analyzingMessage, progress: 60 }));
+  const outcome = await matcher.match(
+    input,
+    {
+      onProgress: (p, detail) => setStatus(prev => ({
+        ...prev,
+        message: analyzingMessage, // Clears a retry notice
+        progress: 60 + ((analysisEnd - 60) * p) / 100,
+        ...(detail ? { window: { index: detail.windowIndex, count: detail.windowCount } } : {}),
+      })),
+      onRetry: ({ attempt, retries, delayMs, error }) => setStatus(prev => ({
+        ...prev,
+        message: t('status.retrying', { reason: errorLabel(classifyError(error)), seconds: Math.ceil(delayMs / 1000), attempt, retries }),
+      })),
+      // Rows appear while the model is still writing
+      onResults: events.onResults,
+      signal,
+    }
+  );
+
+  // 4. Enforce a consistent slide timeline; titles come from the deck where it has them
+  const repaired = repairSequence(outcome.matches, decks);
+  let repairs = repaired.repairs;
+  let matches = applyDeckTitles(repaired.matches, pdfImages);
+  events.onResults?.(matches);
+
+  // 5. Check the uncertain rows again; a corrected page can break the sequence, so repair once more
+  let verification: VerificationLog | undefined;
+  if (verifying) {
+    setStatus(() => ({ step: 'verifying', message: t('status.verifying', { matcher: matcher.label }), progress: analysisEnd }));
+    const verified = await verifyMatches(
+      matcher, sources.verify!, { decks, pdfImages, duration }, matches, phase(analysisEnd, refineStart), events.onResults, signal
+    );
+    verification = verified.log;
+    const rerepaired = repairSequence(verified.matches, decks);
+    repairs = [...repairs, ...rerepaired.repairs];
+    matches = applyDeckTitles(rerepaired.matches, pdfImages);
+    events.onResults?.(matches);
+  }
+
+  // 6. Pin each cut down to sub-second precision
+  if (sources.refine) {
+    setStatus(() => ({ step: 'refining', message: t('status.refining'), progress: refineStart }));
+    matches = await sources.refine(matches, input.videoFrames, phase(refineStart, 99), signal);
+    events.onResults?.(matches);
+  }
+
+  // 7. Wait for the transcript if it is still running
+  let transcribed: { transcript?: TranscriptSegment[]; transcriptError?: string } = {};
+  if (transcription) {
+    setStatus(() => ({ step: 'transcribing', message: t('status.transcribing', { progress: Math.round(transcriptProgress) }), progress: 99 }));
+    const poll = setInterval(() => setStatus(prev => ({
+      ...prev,
+      message: t('status.transcribing', { progress: Math.round(transcriptProgress) }),
+    })), 1000);
+    try {
+      transcribed = await transcription;
+    } finally {
+      clearInterval(poll);
+    }
+  }
+
+  return { decks, pdfImages, videoFrames, duration, parts, estimate, outcome, repairs, verification, matches, ...transcribed };
+};
@@ -0,0 +1,149 @@
+import { DeckInfo, PdfPageImage, SlideMatch, VideoFrameImage } from '../types';
+import { SlideMatcher } from '../matchers/types';
+import { FEATURE_HEIGHT, FEATURE_WIDTH, ImageFeatures, computeFeatures, similarity } from '../matchers/similarity';
+import { deckTitle } from '../postprocess/titles';
+import { ErrorCategory, classifyError, describeError } from '../providers/errors';
+import { GrayImage, dataUrlToGray } from '../utils/image';
+import { abortError, isAbortError } from '../utils/abort';
+import { formatTime } from '../utils/time';
+
+// --- Match Verification ---
+// A second, focused request for every Medium/Low row: a few sharp frames from
+// inside its segment against only the pages that look most like them.
+
+export type VerificationVerdict = 'confirmed' | 'corrected' | 'rejected' | 'failed';
+
+export interface VerificationRecord {
+  verdict: VerificationVerdict;
+  seconds: number;
+  before: { deckId: number; pageNumber: number; confidence: string };
+  after?: { deckId: number; pageNumber: number; confidence: string }; // Confirmed or corrected rows
+  detail: string; // The model's reasoning, or why the check failed
+}
+
+export interface VerificationLog {
+  records: VerificationRecord[];
+  rawResponses: string[];
+}
+
+// JPEG data URLs of single frames, cropped like the sampled ones; '' past the end of the video
+export interface FrameGrabber {
+  grab: (time: number) => Promise<string>;
+  close: () => void;
+}
+
+export interface VerifySource {
+  open: (signal?: AbortSignal) => Promise<FrameGrabber>;
+  decode?: (dataUrl: string) => Promise<GrayImage>; // Defaults to the browser decoder
+}
+
+// Pages offered per row, the matcher's own choice included
+const CANDIDATE_COUNT = 4;
+// Frames per row, spread over at most the first PROBE_SPAN seconds of the segment
+const PROBE_POINTS = [0.2, 0.5, 0.8];
+const PROBE_SPAN = 20;
+
+const samePage = (a: { deckId: number; pageNumber: number }, b: { deckId: number; pageNumber: number }) =>
+  a.deckId === b.deckId && a.pageNumber === b.pageNumber;
+
+// Failures that would repeat on every row end the pass; any other only fails its row
+const SYSTEMIC_FAILURES: ErrorCategory[] = ['auth', 'quota', 'network'];
+
+// Rows a human has not already vouched for, that the matcher was not sure about
+export const needsVerification = (m: SlideMatch) => !m.verified && !m.verification && m.confidence !== 'High';
+
+const probeTimes = (matches: SlideMatch[], index: number, duration: number) => {
+  const start = matches[index].seconds;
+  const end = Math.min(matches[index].endSeconds ?? matches[index + 1]?.seconds ?? duration, duration, start + PROBE_SPAN);
+  return PROBE_POINTS.map(at => start + Math.max(0, end - start) * at);
+};
+
+export const verifyMatches = async (
+  matcher: SlideMatcher,
+  source: VerifySource,
+  input: { decks: DeckInfo[]; pdfImages: PdfPageImage[]; duration: number },
+  matches: SlideMatch[],
+  onProgress: (p: number) => void,
+  onResults?: (matches: SlideMatch[]) => void,
+  signal?: AbortSignal
+): Promise<{ matches: SlideMatch[]; log: VerificationLog }> => {
+  const log: VerificationLog = { records: [], rawResponses: [] };
+  const targets = matches.map((m, i) => i).filter(i => needsVerification(matches[i]));
+  if (!matcher.verify || targets.length === 0) return { matches, log };
+
+  const decode = source.decode ?? ((dataUrl: string) => dataUrlToGray(dataUrl, FEATURE_WIDTH, FEATURE_HEIGHT));
+  // Replacement per row index; null drops the row
+  const updated = new Map<number, SlideMatch | null>();
+  const current = () => matches.flatMap((m, i) => {
+    const next = updated.has(i) ? updated.get(i) : m;
+    return next ? [next] : [];
+  });
+
+  const grabber = await source.open(signal);
+  try {
+    // Page features once for the whole pass
+    const pages: { image: PdfPageImage; features: ImageFeatures }[] = [];
+    for (const image of input.pdfImages) {
+      if (signal?.aborted) throw abortError();
+      pages.push({ image, features: computeFeatures(await decode(image.dataUrl)) });
+    }
+
+    for (let k = 0; k < targets.length; k++) {
+      if (signal?.aborted) throw abortError();
+      const i = targets[k];
+      const m = matches[i];
+      const before = { deckId: m.deckId, pageNumber: m.pageNumber, confidence: m.confidence };
+      try {
+        const frames: VideoFrameImage[] = [];
+        for (const time of probeTimes(matches, i, input.duration)) {
+          const dataUrl = await grabber.grab(time);
+          if (dataUrl) frames.push({ timestamp: time, timeString: formatTime(time), dataUrl });
+        }
+        if (frames.length === 0) continue;
+
+        // Best score over the frames, so one transitional frame does not decide the list
+        const frameFeatures = await Promise.all(frames.map(async f => computeFeatures(await decode(f.dataUrl))));
+        const ranked = pages
+          .map(page => ({ image: page.image, score: Math.max(...frameFeatures.map(ff => similarity(ff, page.features))) }))
+          .sort((a, b) => b.score - a.score)
+          .map(p => p.image);
+        const candidates = ranked.slice(0, CANDIDATE_COUNT);
+        const own = ranked.find(img => samePage(img, m));
+        if (own && !candidates.includes(own)) candidates[candidates.length - 1] = own;
+
+        const outcome = await matcher.verify({ decks: input.decks, candidates, frames }, signal);
+        log.rawResponses.push(outcome.responseText);
+
+        if (!outcome.page) {
+          updated.set(i, null);
+          log.records.push({ verdict: 'rejected', seconds: m.seconds, before, detail: outcome.reasoning });
+        } else if (samePage(outcome.page, m)) {
+          updated.set(i, { ...m, confidence: outcome.confidence, verification: { verdict: 'confirmed', before } });
+          log.records.push({ verdict: 'confirmed', seconds: m.seconds, before, after: { ...outcome.page, confidence: outcome.confidence }, detail: outcome.reasoning });
+        } else {
+          updated.set(i, {
+            ...m,
+            ...outcome.page,
+            slideTitle: deckTitle(input.pdfImages, outcome.page.deckId, outcome.page.pageNumber) || m.slideTitle,
+            reasoning: outcome.reasoning,
+            confidence: outcome.confidence,
+            verification: { verdict: 'corrected', before },
+          });
+          log.records.push({ verdict: 'corrected', seconds: m.seconds, before, after: { ...outcome.page, confidence: outcome.confidence }, detail: outcome.reasoning });
+        }
+        onResults?.(current());
+      } catch (e) {
+        if (isAbortError(e) || signal?.aborted) throw e;
+        // Retries already ran inside the matcher; the row keeps its first answer
+        console.error("Verification failed:", e);
+        log.records.push({ verdict: 'failed', seconds: m.seconds, before, detail: describeError(e) });
+        if (SYSTEMIC_FAILURES.includes(classifyError(e))) break;
+      } finally {
+        onProgress(((k + 1) / targets.length) * 100);
+      }
+    }
+  } finally {
+    grabber.close();
+  }
+  return { matches: current(), log };
+};
@@ -0,0 +1,34 @@
+import { SlideMatch } from '../types';
+
+// --- Slide Segments ---
+// A SlideMatch starts at `seconds` and, when the matcher knows it, ends at `endSeconds`.
+// Without an end it lasts until the next segment. The same page may appear in
+// several segments (revisits); a short gap between two segments of the same page
+// is treated as one continuous visit.
+
+export const MERGE_GAP_SECONDS = 2;
+
+export const samePage = (a: SlideMatch, b: SlideMatch) =>
+  a.deckId === b.deckId && a.pageNumber === b.pageNumber;
+
+// Does `next` continue the visit `last` (rather than start a revisit)?
+export const continuesSegment = (last: SlideMatch, next: SlideMatch) =>
+  samePage(last, next) && (last.endSeconds === undefined || next.seconds <= last.endSeconds + MERGE_GAP_SECONDS);
+
+// `last` extended to cover `next`; an open end (undefined) wins
+export const extendSegment = (last: SlideMatch, next: SlideMatch): SlideMatch => ({
+  ...last,
+  endSeconds: last.endSeconds === undefined || next.endSeconds === undefined
+    ? undefined
+    : Math.max(last.endSeconds, next.endSeconds),
+});
+
+// Time-ordered copy with every end filled in and clipped to the next start
+export const normalizeSegments = (matches: SlideMatch[], duration: number): SlideMatch[] => {
+  const sorted = [...matches].sort((a, b) => a.seconds - b.seconds);
+  return sorted.map((m, i) => {
+    const limit = i + 1 < sorted.length ? sorted[i + 1].seconds : Math.max(duration, m.seconds);
+    const end = Math.min(m.endSeconds ?? limit, limit);
+    return { ...m, endSeconds: Math.max(m.seconds, end) };
+  });
+};
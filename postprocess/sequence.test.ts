@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { deck, pageKeys, slideMatch } from '../testing/fixtures';
+import { fitMonotonicDecks, repairSequence } from './sequence';
+import { t } from '../i18n';
+
+const decks = [deck(1, 'Intro', 3), deck(2, 'Demo', 2)];
+
+describe('fitMonotonicDecks', () => {
+  it('drops the lighter rows that break the deck order', () => {
+    const matches = [slideMatch(0, 1, 1), slideMatch(10, 2, 1, { confidence: 'Low' }), slideMatch(20, 1, 2)];
+    expect(fitMonotonicDecks(matches, [1, 2])).toEqual([true, false, true]);
+  });
+
+  it('follows the given deck order rather than the deck ids', () => {
+    expect(fitMonotonicDecks([slideMatch(0, 2, 1), slideMatch(10, 1, 1)], [2, 1])).toEqual([true, true]);
+    expect(fitMonotonicDecks([slideMatch(0, 2, 1), slideMatch(10, 1, 1, { confidence: 'Low' })], [1, 2])).toEqual([true, false]);
+  });
+
+  it('keeps revisits of pages that were kept', () => {
+    expect(fitMonotonicDecks([slideMatch(0, 1, 1), slideMatch(10, 2, 1), slideMatch(20, 1, 1)], [1, 2])).toEqual([true, true, true]);
+  });
+
+  it('takes the first kept showing of a page as its first visit', () => {
+    const matches = [slideMatch(0, 1, 1), slideMatch(10, 2, 1, { confidence: 'Low' }), slideMatch(20, 1, 2), slideMatch(30, 1, 3), slideMatch(40, 2, 1)];
+    expect(fitMonotonicDecks(matches, [1, 2])).toEqual([true, false, true, true, true]);
+  });
+
+  it('never drops human-verified rows', () => {
+    const matches = [slideMatch(0, 1, 1), slideMatch(10, 2, 1, { confidence: 'Low', verified: true }), slideMatch(20, 1, 2), slideMatch(30, 1, 3)];
+    expect(fitMonotonicDecks(matches, [1, 2])).toEqual([true, true, false, false]);
+  });
+});
+
+describe('repairSequence', () => {
+  it('leaves a valid sequence alone', () => {
+    const matches = [slideMatch(0, 1, 1), slideMatch(10, 1, 2), slideMatch(20, 2, 1)];
+    expect(repairSequence(matches, decks)).toEqual({ matches, repairs: [] });
+  });
+
+  it('sorts rows by time', () => {
+    const { matches, repairs } = repairSequence([slideMatch(10, 1, 2), slideMatch(0, 1, 1)], decks);
+    expect(pageKeys(matches)).toEqual(['1:1', '1:2']);
+    expect(repairs.map(r => [r.kind, r.seconds])).toEqual([['reordered', 0]]);
+  });
+
+  it('removes rows of unknown decks and clamps page numbers', () => {
+    const { matches, repairs } = repairSequence([slideMatch(0, 1, 1), slideMatch(10, 3, 1), slideMatch(20, 1, 7), slideMatch(30, 2, 0)], decks);
+    expect(pageKeys(matches)).toEqual(['1:1', '1:3', '2:1']);
+    expect(matches[1].repairNote).toBe(t('repair.originalPage', { page: 7 }));
+    expect(repairs.map(r => r.kind)).toEqual(['unknown-deck', 'page-clamped', 'page-clamped']);
+  });
+
+  it('merges back-to-back repeats of a page, keeping the verified copy', () => {
+    const { matches, repairs } = repairSequence(
+      [slideMatch(0, 1, 1), slideMatch(10, 1, 1, { verified: true, slideTitle: 'Fixed' }), slideMatch(20, 1, 2)], decks
+    );
+    expect(matches.map(m => [m.seconds, m.slideTitle, m.verified])).toEqual([[0, 'Fixed', true], [20, '', undefined]]);
+    expect(repairs.map(r => [r.kind, r.seconds])).toEqual([['duplicate', 10]]);
+  });
+
+  it('keeps a revisit after a real gap', () => {
+    const matches = [slideMatch(0, 1, 1, { endSeconds: 10 }), slideMatch(30, 1, 1)];
+    expect(repairSequence(matches, decks)).toEqual({ matches, repairs: [] });
+  });
+
+  it('joins a page split by a dropped flip-flop', () => {
+    const { matches, repairs } = repairSequence(
+      [slideMatch(0, 1, 1), slideMatch(10, 2, 1, { confidence: 'Low' }), slideMatch(20, 1, 1), slideMatch(30, 1, 2)], decks
+    );
+    expect(pageKeys(matches)).toEqual(['1:1', '1:2']);
+    expect(matches[1].seconds).toBe(30);
+    expect(repairs.map(r => [r.kind, r.seconds])).toEqual([['out-of-sequence', 10], ['duplicate', 20]]);
+  });
+
+  it('keeps the real start of a deck after an early misread of its first page', () => {
+    const { matches } = repairSequence([
+      slideMatch(0, 1, 1), slideMatch(10, 2, 1, { confidence: 'Low' }), slideMatch(20, 1, 2),
+      slideMatch(30, 1, 3), slideMatch(40, 2, 1), slideMatch(50, 2, 2),
+    ], decks);
+    expect(matches.map(m => `${m.seconds}:${m.deckId}:${m.pageNumber}`)).toEqual(['0:1:1', '20:1:2', '30:1:3', '40:2:1', '50:2:2']);
+  });
+
+  it('does not fit the deck order with a single deck', () => {
+    const { matches } = repairSequence([slideMatch(0, 1, 3), slideMatch(10, 1, 1), slideMatch(20, 1, 2)], decks.slice(0, 1));
+    expect(pageKeys(matches)).toEqual(['1:3', '1:1', '1:2']);
+  });
+});
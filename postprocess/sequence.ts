@@ -0,0 +1,142 @@
+import { DeckInfo, SlideMatch } from '../types';
+import { continuesSegment, extendSegment, samePage } from './segments';
+import { t } from '../i18n';
+
+// --- Sequence Validation & Repair ---
+// Runs after any matcher. Enforces what the prompt only asks for: a time-ordered
+// list, valid page numbers, no back-to-back repeats of a page and decks first shown
+// in list order (revisits of earlier pages are allowed).
+// Every change is recorded so a reviewer can audit it.
+
+export type RepairKind = 'reordered' | 'unknown-deck' | 'page-clamped' | 'duplicate' | 'out-of-sequence';
+
+export interface Repair {
+  kind: RepairKind;
+  seconds: number;
+  deckId: number;
+  pageNumber: number;
+  detail: string;
+}
+
+export interface SequenceRepairResult {
+  matches: SlideMatch[];
+  repairs: Repair[];
+}
+
+// Weight of a row in the best-path fit. Human-verified rows are never dropped.
+const VERIFIED_WEIGHT = 1000;
+const CONFIDENCE_WEIGHT: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+const rowWeight = (m: SlideMatch) =>
+  m.verified ? VERIFIED_WEIGHT : CONFIDENCE_WEIGHT[(m.confidence || '').toLowerCase()] ?? 1;
+
+const repairOf = (kind: RepairKind, m: SlideMatch, detail: string): Repair => ({
+  kind, seconds: m.seconds, deckId: m.deckId, pageNumber: m.pageNumber, detail,
+});
+
+// Consecutive rows continuing the same page become one segment.
+// The same page after a real gap is a revisit and stays separate.
+const collapseRepeats = (matches: SlideMatch[], repairs: Repair[]): SlideMatch[] => {
+  const out: SlideMatch[] = [];
+  matches.forEach(m => {
+    const last = out[out.length - 1];
+    if (last && continuesSegment(last, m)) {
+      repairs.push(repairOf('duplicate', m, t('repair.duplicate', { time: last.timestamp })));
+      // Keep the human-verified copy if only the later one is verified
+      const kept = m.verified && !last.verified ? { ...m, seconds: last.seconds, timestamp: last.timestamp } : last;
+      out[out.length - 1] = extendSegment(kept, m);
+      return;
+    }
+    out.push(m);
+  });
+  return out;
+};
+
+// Best monotonic path: the heaviest subsequence whose deck ids never decrease
+// (weighted longest non-decreasing subsequence, O(n²) dynamic programming).
+// Revisits — pages already shown by a kept row — are left out of the fit and kept.
+// When the fit drops a page's first showing, its next showing becomes the first
+// visit, so the fit repeats until it drops nothing more.
+export const fitMonotonicDecks = (matches: SlideMatch[], deckOrder: number[]): boolean[] => {
+  const dropped = new Array<boolean>(matches.length).fill(false);
+  while (true) {
+    const revisit = matches.map((m, i) => matches.slice(0, i).some((p, j) => !dropped[j] && samePage(p, m)));
+    const firstVisits = matches.map((_, i) => i).filter(i => !dropped[i] && !revisit[i]);
+    const fitted = fitFirstVisits(firstVisits.map(i => matches[i]), deckOrder);
+    const rejected = firstVisits.filter((_, k) => !fitted[k]);
+    if (rejected.length === 0) return dropped.map(d => !d);
+    rejected.forEach(i => { dropped[i] = true; });
+  }
+};
+
+const fitFirstVisits = (matches: SlideMatch[], deckOrder: number[]): boolean[] => {
+  const rank = new Map(deckOrder.map((deckId, i) => [deckId, i]));
+  const n = matches.length;
+  const best = new Array<number>(n).fill(0);
+  const prev = new Array<number>(n).fill(-1);
+
+  for (let i = 0; i < n; i++) {
+    const ri = rank.get(matches[i].deckId)!;
+    best[i] = rowWeight(matches[i]);
+    for (let j = 0; j < i; j++) {
+      if (rank.get(matches[j].deckId)! <= ri && best[j] + rowWeight(matches[i]) > best[i]) {
+        best[i] = best[j] + rowWeight(matches[i]);
+        prev[i] = j;
+      }
+    }
+  }
+
+  const keep = new Array<boolean>(n).fill(false);
+  let end = -1;
+  for (let i = 0; i < n; i++) {
+    // Ties resolve to the later end so trailing rows are preferred
+    if (end === -1 || best[i] >= best[end]) end = i;
+  }
+  for (let i = end; i !== -1; i = prev[i]) keep[i] = true;
+  return keep;
+};
+
+export const repairSequence = (input: SlideMatch[], decks: DeckInfo[]): SequenceRepairResult => {
+  const repairs: Repair[] = [];
+  const pageCounts = new Map(decks.map(d => [d.deckId, d.pageCount]));
+
+  // 1. Time order
+  input.forEach((m, i) => {
+    if (i > 0 && m.seconds < input[i - 1].seconds) {
+      repairs.push(repairOf('reordered', m, t('repair.reordered', { time: input[i - 1].timestamp })));
+    }
+  });
+  let matches = [...input].sort((a, b) => a.seconds - b.seconds);
+
+  // 2. Deck / page validity
+  matches = matches.flatMap(m => {
+    const pageCount = pageCounts.get(m.deckId);
+    if (pageCount === undefined) {
+      repairs.push(repairOf('unknown-deck', m, t('repair.unknownDeck', { deckId: m.deckId })));
+      return [];
+    }
+    const page = Number.isFinite(m.pageNumber) ? Math.round(m.pageNumber) : 1;
+    const clamped = Math.min(Math.max(page, 1), pageCount);
+    if (clamped !== m.pageNumber) {
+      repairs.push(repairOf('page-clamped', m, t('repair.pageClamped', { page: m.pageNumber, pageCount, clamped })));
+      return [{ ...m, pageNumber: clamped, repairNote: t('repair.originalPage', { page: m.pageNumber }) }];
+    }
+    return [m];
+  });
+
+  // 3. Back-to-back repeats of a page
+  matches = collapseRepeats(matches, repairs);
+
+  // 4. Decks first shown in list order, fitted globally over the confidences
+  if (decks.length > 1) {
+    const keep = fitMonotonicDecks(matches, decks.map(d => d.deckId));
+    matches = matches.filter((m, i) => {
+      if (!keep[i]) repairs.push(repairOf('out-of-sequence', m, t('repair.outOfSequence', { confidence: m.confidence || t('common.unknown') })));
+      return keep[i];
+    });
+    // Dropping a flip-flop can leave the same page twice in a row
+    matches = collapseRepeats(matches, repairs);
+  }
+
+  return { matches, repairs };
+};
@@ -0,0 +1,13 @@
+import { PdfPageImage, SlideMatch } from '../types';
+
+// --- Deck Titles ---
+// A title taken from the PDF text layer beats one read off a small video frame.
+
+export const deckTitle = (pages: PdfPageImage[], deckId: number, pageNumber: number): string =>
+  pages.find(p => p.deckId === deckId && p.pageNumber === pageNumber)?.title || '';
+
+export const applyDeckTitles = (matches: SlideMatch[], pages: PdfPageImage[]): SlideMatch[] =>
+  matches.map(m => {
+    const title = deckTitle(pages, m.deckId, m.pageNumber);
+    return title && title !== m.slideTitle ? { ...m, slideTitle: title } : m;
+  });
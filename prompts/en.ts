@@ -0,0 +1,81 @@
+import type { PromptTemplates } from './index';
+
+// --- English Prompts ---
+
+export const en: PromptTemplates = {
+  deckIntro: (deck, previous) => `[REFERENCE ${deck.deckId}: ${deck.label} (DECK ${deck.deckId})]\n${previous
+    ? `This is deck ${deck.deckId} of the talk. It is shown after DECK ${previous.deckId}; its pages, in order:`
+    : `This is the first deck used in the talk; its pages, in order:`}`,
+
+  pageNote: (title, text) => [title ? `Title: "${title}"` : '', text ? `Text: ${text}` : ''].filter(Boolean).join(' '),
+
+  windowNote: ({ index, count, from, to, carry }) => `[WINDOW]\nThis is part ${index + 1}/${count} of the video (${from} - ${to}). Analyze only the frames of this part. ${carry
+    ? `Before this part, DECK ${carry.deckId} page ${carry.pageNumber} was on screen; if this part still opens on that page, output the segment as usual and start it at the first frame of this part.`
+    : `No slide has been shown before this part.`}`,
+
+  framesIntro: "[TARGET: VIDEO FRAME SEQUENCE]\nThe following frames were sampled from the talk in time order, each with its timestamp (sampling is denser where the picture changes and sparser in static stretches):",
+
+  matchInstructions: ({ deckCount, deckOrder, outputLanguage }) => {
+    const language = en.languageNames[outputLanguage];
+    return `
+"""
+You are an expert in analyzing recorded talks. You synchronize a live talk video with the original PDF slides by what is visible on screen.
+
+**Goal:**
+Analyze the [VIDEO FRAME SEQUENCE] and find every time span (segment) in which a slide from any of the ${deckCount} deck(s) is continuously and clearly on screen. When the speaker returns to a slide shown earlier, output a new segment.
+
+**Rules (follow strictly):**
+
+1.  **Ignore frames without slides**:
+    * Videos usually open with a host introduction, speaker close-ups or a holding screen. Mark the first event only once **slide content clearly fills the picture** and closely matches a PDF page.
+    * **Do not force a start at 00:00** unless 00:00 really shows a slide.
+    * If a frame shows only the speaker, the audience or a transition animation, **ignore** it rather than forcing a match.
+
+2.  **Switching between decks (${deckOrder})**:
+    * The video is continuous. Decks first appear in the order ${deckOrder}; there may be a break or speaker segue between decks.
+    * The speaker may return to slides already shown (for example during Q&A). Such revisits are allowed; output them as new segments.
+    * Slides that have not been shown yet do not appear in the middle of a later deck's part; if one seems to, check again whether it is a page shown earlier.
+    * While switching (for example between files), if no slide is on screen, end the current segment and do not create a match.
+
+3.  **Visual matching first**:
+    * Compare title text, chart shapes and image layout.
+    * **Text hints**: some reference pages carry a "Title" and "Text" extracted from the PDF. For pages that look alike, compare legible on-screen text with this PDF text.
+    * **Titles**: if the matched page has a PDF title, use it as \`slideTitle\`; otherwise read the large heading at the top of the slide (as written). If there is no heading, summarize the slide's content in ${language}.
+
+4.  **Output format (JSON)**:
+    Output one JSON object with a \`transitions\` array. Each item is one slide segment (a span in which the same page stays on screen), in time order.
+    Fields:
+    * \`timestamp\`: string (MM:SS.s), the **first** frame of the segment showing this page; copy that frame's VIDEO_TIMESTAMP.
+    * \`endTimestamp\`: string (MM:SS.s), the **last** frame of the segment still showing this page (also copied from VIDEO_TIMESTAMP).
+    * \`deckId\`: integer (1 to ${deckCount}), the deck the page belongs to (DECK number).
+    * \`pageNumber\`: integer, the PDF page number.
+    * \`slideTitle\`: string, the slide title.
+    * \`reasoning\`: string (in ${language}), a short reason for the match (for example "Heading matches DECK 1 page 3", "Chart matches"). Keep reasoning short so the output stays within the token limit.
+    * \`confidence\`: string ("High", "Medium", "Low").
+"""
+`;
+  },
+
+  verifyCandidatesIntro: "[CANDIDATE SLIDES]\nThese are the slides that look most like the video frames:",
+
+  verifyFramesIntro: "[VIDEO FRAMES]\nA few sharper frames from one stretch of the video, each with its timestamp:",
+
+  verifyInstructions: (outputLanguage) => `
+Decide which of the candidate slides these frames show.
+* Choose only from the candidates listed above. If the frames show no slide (only the speaker, the audience or a transition), or a slide that is none of the candidates, set \`onScreen\` to false.
+* For candidates that look alike, compare on-screen text, charts and layout details.
+Output one JSON object:
+* \`onScreen\`: boolean, whether one of the candidate slides is on screen.
+* \`deckId\`: integer, that slide's DECK number (0 when onScreen is false).
+* \`pageNumber\`: integer, that slide's page number (0 when onScreen is false).
+* \`confidence\`: string ("High", "Medium", "Low").
+* \`reasoning\`: string (in ${en.languageNames[outputLanguage]}), one sentence on what decided it.
+`,
+
+  transcription: `Transcribe the speech in this talk video verbatim.
+Output one JSON object with a \`segments\` array in time order; each item is one sentence or short passage (about 5 to 20 seconds)
+with its start time \`start\`, end time \`end\` (MM:SS.s, or HH:MM:SS.s past one hour) and the words \`text\`.
+Keep the language the speaker uses; do not translate or summarize. Skip stretches where nobody speaks.`,
+
+  languageNames: { 'zh-TW': 'Traditional Chinese (Taiwan)', en: 'English' },
+};
@@ -0,0 +1,45 @@
+import { DeckInfo, SlideMatch } from '../types';
+import { Locale } from '../i18n';
+import { zhTW } from './zh-TW';
+import { en } from './en';
+
+// --- Prompt Templates ---
+// Model prompts per language. The prompt language follows the interface; what the
+// model writes (reasoning, summarized titles) follows a separate output language.
+// Markers the parser depends on (DECK n, VIDEO_TIMESTAMP, field names) are the
+// same in every template.
+
+export interface MatchPromptContext {
+  deckCount: number;
+  deckOrder: string; // "DECK 1 -> DECK 2"
+  outputLanguage: Locale;
+}
+
+export interface WindowPromptContext {
+  index: number; // 0-based
+  count: number;
+  from: string;  // MM:SS.s of the first and last frame
+  to: string;
+  carry: SlideMatch | null; // Slide on screen when the window starts
+}
+
+export interface PromptTemplates {
+  // Heading and introduction of one deck's reference pages
+  deckIntro: (deck: DeckInfo, previous: DeckInfo | null) => string;
+  // Extracted text shown after a page label; `text` is already shortened
+  pageNote: (title: string | undefined, text: string | undefined) => string;
+  windowNote: (window: WindowPromptContext) => string;
+  framesIntro: string;
+  matchInstructions: (context: MatchPromptContext) => string;
+  // Second look at one uncertain match: candidate pages, then a few sharper frames
+  verifyCandidatesIntro: string;
+  verifyFramesIntro: string;
+  verifyInstructions: (outputLanguage: Locale) => string;
+  transcription: string;
+  // Output languages, named in the template's language
+  languageNames: Record<Locale, string>;
+}
+
+const PROMPTS: Record<Locale, PromptTemplates> = { 'zh-TW': zhTW, en };
+
+export const promptsFor = (locale: Locale) => PROMPTS[locale];
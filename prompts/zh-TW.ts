@@ -0,0 +1,81 @@
+import type { PromptTemplates } from './index';
+
+// --- 繁體中文 Prompts ---
+
+export const zhTW: PromptTemplates = {
+  deckIntro: (deck, previous) => `【參考資料 ${deck.deckId}：${deck.label} (DECK ${deck.deckId})】\n${previous
+    ? `這是演講中第 ${deck.deckId} 份使用的簡報，會接續在 DECK ${previous.deckId} 之後出現：`
+    : `這是演講中第 1 份使用的簡報，依序出現：`}`,
+
+  pageNote: (title, text) => [title ? `標題：「${title}」` : '', text ? `文字：${text}` : ''].filter(Boolean).join(' '),
+
+  windowNote: ({ index, count, from, to, carry }) => `【分段說明】\n這是整段影片的第 ${index + 1}/${count} 段 (${from} - ${to})，只需分析本段影格。${carry
+    ? `本段開始前畫面上的投影片為 DECK ${carry.deckId} 第 ${carry.pageNumber} 頁；若本段開頭仍是同一頁，請照常輸出該片段，並以本段第一格作為開始時間。`
+    : `本段開始前尚未出現任何投影片。`}`,
+
+  framesIntro: "【待分析目標：影片影格序列】\n以下是從演講影片中按時間順序取樣的畫面 (帶有時間戳記；畫面變化處取樣較密集，靜態段落較稀疏)：",
+
+  matchInstructions: ({ deckCount, deckOrder, outputLanguage }) => {
+    const language = zhTW.languageNames[outputLanguage];
+    return `
+"""
+你是一位專業的演講影片分析專家，擅長將「現場演講影片」與「原始 PDF 投影片」進行視覺同步。
+
+**任務目標：**
+分析提供的【影片影格序列】，找出每一張投影片（來自 ${deckCount} 份簡報中的任一份）在影片中「連續清晰出現」的每一個時間區段 (片段)。講者回到先前看過的投影片時，請輸出新的片段。
+
+**核心分析邏輯與規則 (請嚴格遵守)：**
+
+1.  **忽略非投影片畫面 (抗干擾)**：
+    * 影片開頭通常包含主持人介紹、講者特寫或等待畫面。請務必等到**投影片內容清晰充滿畫面**，且與 PDF 某頁高度相符時，才標記第一個事件。
+    * **切勿強行從 00:00 開始**，除非 00:00 確實就是投影片畫面。
+    * 若畫面中只有講者、觀眾或過場動畫，請**忽略**該影格，不要強行匹配。
+
+2.  **多份簡報切換邏輯 (${deckOrder})**：
+    * 影片內容是連續的。簡報第一次出現的順序必然是 ${deckOrder}，兩份簡報之間可能有一段講者串場/休息。
+    * 講者可能回到先前已展示過的投影片（例如 Q&A 時回頭說明），這種「回訪」是允許的，請照實輸出為新的片段。
+    * 尚未展示過的投影片不會出現在之後簡報的段落中間；若看似如此，請重新確認是否為已展示過的頁面。
+    * 在切換期間（例如換檔空檔），若畫面無投影片，請結束目前片段，且不要產生匹配事件。
+
+3.  **視覺匹配優先**：
+    * 請根據畫面中的文字標題、圖表形狀、圖片排版進行比對。
+    * **文字輔助**：部分參考頁附有從 PDF 擷取的「標題」與「文字」。外觀相近的頁面，請比對畫面上可辨識的文字與這些 PDF 文字來區分。
+    * **標題識別**：若對應頁附有 PDF 標題，\`slideTitle\` 請直接沿用；否則請讀取投影片上方的大字體標題 (保留原文)。若無標題，請以${language}總結畫面核心內容。
+
+4.  **輸出格式 (JSON)**：
+    請輸出一個 JSON 物件，包含一個 \`transitions\` 陣列。每個元素代表一個「投影片片段」(同一頁連續出現的區間)，依時間排序。
+    格式要求：
+    * \`timestamp\`: 字串 (MM:SS.s)，該片段**第一個**出現此頁的影格時間，請直接沿用該影格的 VIDEO_TIMESTAMP。
+    * \`endTimestamp\`: 字串 (MM:SS.s)，該片段**最後一個**仍出現此頁的影格時間 (同樣沿用 VIDEO_TIMESTAMP)。
+    * \`deckId\`: 整數 (1 到 ${deckCount})，代表屬於哪一份簡報 (DECK 編號)。
+    * \`pageNumber\`: 整數，對應的 PDF 頁碼。
+    * \`slideTitle\`: 字串，投影片標題。
+    * \`reasoning\`: 字串 (${language})，簡述判斷理由 (例如：「畫面標題與 DECK 1 第 3 頁一致」、「圖表吻合」)。請盡量保持 reasoning 簡短，以避免輸出長度超出 Token 限制。
+    * \`confidence\`: 字串 ("High", "Medium", "Low")。
+"""
+`;
+  },
+
+  verifyCandidatesIntro: "【候選投影片】\n以下是與影片畫面最相似的幾頁投影片：",
+
+  verifyFramesIntro: "【影片畫面】\n以下是同一段影片中較清晰的幾個畫面 (帶有時間戳記)：",
+
+  verifyInstructions: (outputLanguage) => `
+請判斷這些畫面顯示的是哪一頁候選投影片。
+* 只能從上面列出的候選頁中選擇。若畫面中沒有投影片 (只有講者、觀眾或過場)，或顯示的不是任何一頁候選投影片，請將 \`onScreen\` 設為 false。
+* 外觀相近的頁面，請比對畫面上的文字、圖表與排版細節來區分。
+請輸出一個 JSON 物件：
+* \`onScreen\`: 布林值，畫面上是否為其中一頁候選投影片。
+* \`deckId\`: 整數，該頁的 DECK 編號 (onScreen 為 false 時填 0)。
+* \`pageNumber\`: 整數，該頁的頁碼 (onScreen 為 false 時填 0)。
+* \`confidence\`: 字串 ("High", "Medium", "Low")。
+* \`reasoning\`: 字串 (${zhTW.languageNames[outputLanguage]})，一句話說明判斷依據。
+`,
+
+  transcription: `請逐字轉錄這段演講影片的語音。
+輸出一個 JSON 物件，包含 \`segments\` 陣列，依時間排序；每個元素是一句或一小段話 (約 5 到 20 秒)，
+含開始時間 \`start\`、結束時間 \`end\` (格式 MM:SS.s，超過一小時用 HH:MM:SS.s) 與內容 \`text\`。
+保留講者使用的語言，不要翻譯或摘要；沒有人說話的段落直接略過。`,
+
+  languageNames: { 'zh-TW': '繁體中文', en: '英文' },
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { categorizedError, classifyError, isRetryable } from './errors';
+import { abortError } from '../utils/abort';
+
+describe('classifyError', () => {
+  it('keeps an explicit category', () => {
+    expect(classifyError(categorizedError('safety', 'blocked'))).toBe('safety');
+  });
+
+  it('goes by the HTTP status', () => {
+    expect(classifyError(Object.assign(new Error('x'), { status: 429 }))).toBe('quota');
+    expect(classifyError(Object.assign(new Error('x'), { status: 403 }))).toBe('auth');
+    expect(classifyError(Object.assign(new Error('x'), { status: 503 }))).toBe('server');
+  });
+
+  it('treats cancellation as its own category', () => {
+    expect(classifyError(abortError())).toBe('cancelled');
+  });
+
+  it('recognizes failed fetches in the browser and in Node', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBe('network');
+    expect(classifyError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe('network');
+    expect(classifyError(new TypeError('Load failed'))).toBe('network');
+    expect(classifyError(new TypeError('fetch failed', { cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }) }))).toBe('network');
+    expect(classifyError(Object.assign(new Error('terminated'), { cause: { code: 'UND_ERR_SOCKET' } }))).toBe('network');
+  });
+
+  it('does not take other TypeErrors for network failures', () => {
+    let bug: unknown;
+    try {
+      (undefined as any).deckId;
+    } catch (e) {
+      bug = e;
+    }
+    expect(bug).toBeInstanceOf(TypeError);
+    expect(classifyError(bug)).toBe('unknown');
+    expect(isRetryable(bug)).toBe(false);
+  });
+});
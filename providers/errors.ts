@@ -0,0 +1,70 @@
+import { isAbortError } from '../utils/abort';
+import { t } from '../i18n';
+
+// --- Request Failures ---
+// Provider errors sorted into a few categories, so the UI can say what went wrong
+// and the matcher knows which failures are worth retrying.
+
+export type ErrorCategory = 'quota' | 'safety' | 'auth' | 'network' | 'server' | 'cancelled' | 'unknown';
+
+export type CategorizedError = Error & { category: ErrorCategory; status?: number };
+
+export const categorizedError = (category: ErrorCategory, message: string, status?: number): CategorizedError =>
+  Object.assign(new Error(message), { category, status });
+
+export const ERROR_CATEGORIES: Record<ErrorCategory, { retryable: boolean }> = {
+  quota: { retryable: true },
+  safety: { retryable: false },
+  auth: { retryable: false },
+  network: { retryable: true },
+  server: { retryable: true },
+  cancelled: { retryable: false },
+  unknown: { retryable: false },
+};
+
+export const errorLabel = (category: ErrorCategory) => t(`errorCategory.${category}.label`);
+// What the user can do about it; empty when there is nothing to suggest
+export const errorHint = (category: ErrorCategory) => t(`errorCategory.${category}.hint`);
+
+export const categoryForStatus = (status: number): ErrorCategory => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status >= 500) return 'server';
+  return 'unknown';
+};
+
+// fetch rejects with a plain TypeError, so go by its message ("Load failed" is Safari's)
+// or by the socket error code Node attaches as its cause
+const NETWORK_MESSAGE = /fetch failed|Failed to fetch|NetworkError|Load failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket/i;
+const NETWORK_CODE = /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|UND_ERR_)/;
+
+const isNetworkFailure = (err: any, message: string) =>
+  NETWORK_MESSAGE.test(message) || [err?.code, err?.cause?.code].some(code => NETWORK_CODE.test(String(code ?? '')));
+
+// Explicit category first, then the HTTP status (the Gemini SDK's ApiError has one),
+// then well-known message fragments
+export const classifyError = (e: unknown): ErrorCategory => {
+  if (isAbortError(e)) return 'cancelled';
+  const err = e as Partial<CategorizedError> | undefined;
+  if (err?.category) return err.category;
+
+  const byStatus = typeof err?.status === 'number' ? categoryForStatus(err.status) : 'unknown';
+  if (byStatus !== 'unknown') return byStatus;
+
+  const message = String(err?.message ?? e);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/API[_ ]?KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) return 'safety';
+  if (/UNAVAILABLE|INTERNAL|overloaded|DEADLINE_EXCEEDED/i.test(message)) return 'server';
+  if (isNetworkFailure(err, message)) return 'network';
+  return 'unknown';
+};
+
+export const isRetryable = (e: unknown) => ERROR_CATEGORIES[classifyError(e)].retryable;
+
+// One line for logs and the status bar: category, then the original message
+export const describeError = (e: unknown) => {
+  const category = classifyError(e);
+  const message = e instanceof Error ? e.message : String(e);
+  return category === 'unknown' ? message : t('errorCategory.withMessage', { label: errorLabel(category), message });
+};
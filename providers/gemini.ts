@@ -0,0 +1,70 @@
+import { GoogleGenAI, MediaResolution } from "@google/genai";
+import { ContentPart, IMAGE_TOKENS, ModelProvider, Pricing } from './types';
+import { categorizedError } from './errors';
+import { t } from '../i18n';
+
+// --- Gemini Provider ---
+
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+export const DEFAULT_GEMINI_MODEL = GEMINI_MODELS[0];
+
+// Paid-tier list prices (USD per million tokens, prompts up to 200k tokens).
+// Check https://ai.google.dev/pricing when adding a model; unknown models show no cost.
+const GEMINI_PRICING: Record<string, Pricing> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+};
+
+// Finish and block reasons that mean the response was withheld
+const SAFETY_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model?: string;
+}
+
+const toGeminiParts = (parts: ContentPart[]) => parts.map(part => part.type === 'text'
+  ? { text: part.text }
+  : { inlineData: { mimeType: part.mimeType, data: part.data } });
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    label: `Gemini (${model})`,
+    pricing: GEMINI_PRICING[model],
+    generate: async function* ({ parts, schema, maxOutputTokens, imageDetail, signal }) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: { parts: toGeminiParts(parts) },
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          maxOutputTokens,
+          ...(imageDetail === 'low' ? { mediaResolution: MediaResolution.MEDIA_RESOLUTION_LOW } : {}),
+          abortSignal: signal,
+        },
+      });
+      let blocked: string | undefined;
+      for await (const chunk of stream) {
+        const reason = chunk.promptFeedback?.blockReason ?? chunk.candidates?.[0]?.finishReason;
+        if (reason && SAFETY_REASONS.includes(reason)) blocked = reason;
+        if (chunk.text) yield chunk.text;
+      }
+      if (blocked) throw categorizedError('safety', t('error.geminiBlocked', { reason: blocked }));
+    },
+    // The count endpoint has no media resolution setting: at low detail the text is
+    // counted and every image is billed at the fixed low-resolution rate
+    countTokens: async ({ parts, imageDetail = 'default', signal }) => {
+      const counted = imageDetail === 'low' ? parts.filter(part => part.type === 'text') : parts;
+      const { totalTokens = 0 } = await ai.models.countTokens({
+        model,
+        contents: { parts: toGeminiParts(counted) },
+        config: { abortSignal: signal },
+      });
+      return totalTokens + (parts.length - counted.length) * IMAGE_TOKENS.low;
+    },
+  };
+};
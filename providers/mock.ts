@@ -0,0 +1,45 @@
+import { ModelProvider } from './types';
+import { t } from '../i18n';
+
+// --- Scripted Mock Provider ---
+// Replays recorded responses in order, one per request, so the parsing path can
+// run offline. Recorded text (e.g. a project's rawResponses) can be replayed as
+// is, including truncated or malformed output.
+
+export type MockResponse =
+  | string                  // Streamed in chunks of `chunkSize`
+  | { chunks: string[] }    // Streamed exactly as given
+  | { error: string };      // The request fails with this message
+
+export interface MockProviderOptions {
+  chunkSize?: number;
+  loop?: boolean; // Start over when the script runs out instead of failing
+}
+
+export const createMockProvider = (script: MockResponse[], options: MockProviderOptions = {}): ModelProvider => {
+  const chunkSize = options.chunkSize ?? 64;
+  let next = 0;
+
+  return {
+    kind: 'mock',
+    label: t('provider.mock'),
+    generate: async function* ({ signal }) {
+      if (next >= script.length) {
+        if (!options.loop || script.length === 0) throw new Error(t('error.replayExhausted', { count: script.length }));
+        next = 0;
+      }
+      const response = script[next++];
+      if (typeof response === 'object' && 'error' in response) throw new Error(response.error);
+
+      const chunks = typeof response === 'string'
+        ? Array.from({ length: Math.ceil(response.length / chunkSize) }, (_, i) => response.slice(i * chunkSize, (i + 1) * chunkSize))
+        : response.chunks;
+      for (const chunk of chunks) {
+        signal?.throwIfAborted();
+        // Yield to the event loop like a real stream would
+        await Promise.resolve();
+        yield chunk;
+      }
+    },
+  };
+};
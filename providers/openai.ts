@@ -0,0 +1,83 @@
+import { ModelProvider } from './types';
+import { categorizedError, categoryForStatus } from './errors';
+import { t } from '../i18n';
+
+// --- OpenAI-compatible Provider ---
+// Any /chat/completions endpoint that accepts image_url content parts and
+// streams server-sent events: hosted APIs or a self-hosted vision model.
+
+export interface OpenAiProviderOptions {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  model: string;
+  apiKey?: string;
+}
+
+interface StreamChoice {
+  delta?: { content?: string };
+  finish_reason?: string | null;
+}
+
+// First choice of one server-sent event line, or undefined for other lines. A line
+// that is not valid JSON is reported and skipped rather than ending the stream.
+const eventChoice = (line: string): StreamChoice | undefined => {
+  const data = line.replace(/^data:\s*/, '').trim();
+  if (!line.startsWith('data:') || !data || data === '[DONE]') return undefined;
+  try {
+    return JSON.parse(data).choices?.[0];
+  } catch {
+    console.warn("Skipping unreadable stream event:", data.slice(0, 200));
+    return undefined;
+  }
+};
+
+export const createOpenAiProvider = ({ baseUrl, model, apiKey }: OpenAiProviderOptions): ModelProvider => ({
+  kind: 'openai',
+  label: t('provider.openai', { model }),
+  generate: async function* ({ parts, maxOutputTokens, imageDetail, signal }) {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream: true,
+        max_tokens: maxOutputTokens,
+        // Plain JSON mode is the most widely supported; the prompt spells out the fields
+        response_format: { type: 'json_object' },
+        messages: [{
+          role: 'user',
+          content: parts.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}`, ...(imageDetail === 'low' ? { detail: 'low' } : {}) } }),
+        }],
+      }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw categorizedError(categoryForStatus(response.status), t('error.httpStatus', { status: response.status, detail: detail.slice(0, 200) }), response.status);
+    }
+
+    // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let filtered = false;
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // The last line may still be arriving; once the stream ends it is complete
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        const choice = eventChoice(line);
+        if (choice?.finish_reason === 'content_filter') filtered = true;
+        if (choice?.delta?.content) yield choice.delta.content;
+      }
+      if (done) break;
+    }
+    if (filtered) throw categorizedError('safety', t('error.contentFiltered'));
+  },
+});
@@ -0,0 +1,58 @@
+// --- Model Providers ---
+// A provider turns one multimodal prompt into streamed response text.
+// Prompt building, parsing and validation live in the model matcher, so every
+// provider goes through the same checks.
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Request content in prompt order
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }; // base64, without the data: prefix
+
+// 'low' asks the provider for its cheapest image resolution
+export type ImageDetail = 'default' | 'low';
+
+export interface GenerateRequest {
+  parts: ContentPart[];
+  schema?: object;         // JSON Schema of the expected response, for providers that enforce one
+  maxOutputTokens: number;
+  imageDetail?: ImageDetail;
+  signal?: AbortSignal;
+}
+
+export type CountRequest = Pick<GenerateRequest, 'parts' | 'imageDetail' | 'signal'>;
+
+// USD per million tokens
+export interface Pricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelProvider {
+  kind: ProviderKind;
+  label: string; // Shown in the processing status
+  generate: (request: GenerateRequest) => AsyncIterable<string>;
+  countTokens?: (request: CountRequest) => Promise<number>; // Exact prompt size; estimated locally when missing
+  pricing?: Pricing;
+}
+
+// Gemini bills an image up to 384px per side as 258 tokens, or 64 at low media
+// resolution; other vision models are in the same range
+export const IMAGE_TOKENS: Record<ImageDetail, number> = { default: 258, low: 64 };
+
+// Rough prompt size for providers that cannot count: about four characters per
+// token for ASCII text, one per CJK character
+export const estimateTokens = ({ parts, imageDetail = 'default' }: CountRequest) =>
+  parts.reduce((sum, part) => {
+    if (part.type === 'image') return sum + IMAGE_TOKENS[imageDetail];
+    const ascii = part.text.replace(/[^\x00-\x7f]/g, '').length;
+    return sum + Math.ceil(ascii / 4) + (part.text.length - ascii);
+  }, 0);
+
+// data:image/jpeg;base64,... -> image part
+export const imagePart = (dataUrl: string): ContentPart => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'image/jpeg';
+  return { type: 'image', mimeType, data };
+};
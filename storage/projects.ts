@@ -0,0 +1,142 @@
+import { DeckInfo, PdfPageImage, SlideMatch, VideoFrameImage, VideoPart } from '../types';
+import { MatcherKind } from '../matchers/types';
+import { Repair } from '../postprocess/sequence';
+import { VerificationRecord } from '../pipeline/verify';
+import { SamplingOptions } from '../video/sampling';
+import { Quad, isFullFrame } from '../video/region';
+import { TranscriberKind, TranscriptSegment } from '../transcripts/types';
+import { Locale, t } from '../i18n';
+
+// --- Local Project Storage (IndexedDB) ---
+// `projects` holds one record per analysis session; `extractions` holds the
+// rendered deck pages / sampled frames, keyed by input content so they can be
+// shared between projects and reused when the same files are selected again.
+
+const DB_NAME = 'slide-sync';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const EXTRACTIONS = 'extractions';
+
+export interface StoredFileRef {
+  fileName: string;
+  size: number;
+  fingerprint: string;
+}
+
+export interface ProjectSettings {
+  matcher: MatcherKind;
+  sampling: SamplingOptions;
+  refine?: boolean; // Sub-second refinement pass; missing on older projects
+  verify?: boolean; // Second look at uncertain rows; missing on older projects
+  model?: string;   // Model-backed matchers; API keys are never stored
+  baseUrl?: string; // OpenAI-compatible endpoint
+  transcriber?: TranscriberKind; // Missing when the talk was not transcribed
+  region?: Quad;                 // Slide area in the video; missing means the whole frame
+  outputLanguage?: Locale;       // Language of reasoning and titles; missing on older projects
+}
+
+export type StoredVideoPart = StoredFileRef & VideoPart & { extractionKey: string };
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // A multi-part talk also lists its parts; the fields above then describe the whole
+  // recording, with the first part's name and extraction key
+  video: StoredFileRef & { duration: number; extractionKey: string; parts?: StoredVideoPart[] };
+  decks: (DeckInfo & { fingerprint: string; extractionKey: string })[];
+  settings: ProjectSettings;
+  results: SlideMatch[];
+  repairs?: Repair[]; // Missing on projects saved before the repair stage existed
+  verifications?: VerificationRecord[]; // Missing when the verification pass did not run
+  partial: boolean;
+  rawResponses: string[]; // Model output exactly as received, one per request
+  transcript?: TranscriptSegment[];
+}
+
+export type ExtractionRecord =
+  | { key: string; kind: 'video'; frames: VideoFrameImage[]; duration: number }
+  | { key: string; kind: 'deck'; pages: PdfPageImage[] };
+
+// Sampled frames depend on the sampling settings and slide region as well as the file
+export const videoExtractionKey = (fingerprint: string, sampling: SamplingOptions, region?: Quad | null) =>
+  isFullFrame(region)
+    ? `video:${fingerprint}:${JSON.stringify(sampling)}`
+    : `video:${fingerprint}:${JSON.stringify(sampling)}:${JSON.stringify(region)}`;
+
+// v2: pages carry their text layer
+export const deckExtractionKey = (fingerprint: string) => `deck:v2:${fingerprint}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(EXTRACTIONS)) db.createObjectStore(EXTRACTIONS, { keyPath: 'key' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error ?? new Error(t('error.dbOpen')));
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error(t('error.dbAborted')));
+  });
+};
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+  const all = await run<ProjectRecord[]>(PROJECTS, 'readonly', s => s.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string) =>
+  run<ProjectRecord | undefined>(PROJECTS, 'readonly', s => s.get(id));
+
+export const saveProject = (project: ProjectRecord) =>
+  run(PROJECTS, 'readwrite', s => s.put(project)).then(() => project);
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+  const source = await getProject(id);
+  if (!source) throw new Error(t('error.projectMissing'));
+  const now = Date.now();
+  return saveProject({ ...source, id: crypto.randomUUID(), name: t('projects.copyName', { name: source.name }), createdAt: now, updatedAt: now });
+};
+
+// Also drops extractions that no remaining project refers to
+export const deleteProject = async (id: string): Promise<void> => {
+  const project = await getProject(id);
+  await run(PROJECTS, 'readwrite', s => s.delete(id));
+  if (!project) return;
+
+  const remaining = await listProjects();
+  const inUse = new Set(remaining.flatMap(p => [p.video.extractionKey, ...p.decks.map(d => d.extractionKey)]));
+  const keys = [project.video.extractionKey, ...project.decks.map(d => d.extractionKey)];
+  for (const key of keys) {
+    if (!inUse.has(key)) await run(EXTRACTIONS, 'readwrite', s => s.delete(key));
+  }
+};
+
+// --- Extraction Cache ---
+
+export const getExtraction = (key: string) =>
+  run<ExtractionRecord | undefined>(EXTRACTIONS, 'readonly', s => s.get(key));
+
+export const saveExtraction = (record: ExtractionRecord) =>
+  run(EXTRACTIONS, 'readwrite', s => s.put(record)).then(() => record);
@@ -0,0 +1,25 @@
+import { DeckInfo, SlideMatch } from '../types';
+
+// --- Test Fixtures ---
+// Rows and decks shared by the unit tests; each test sets only the fields it checks.
+
+export const deck = (deckId: number, label: string, pageCount: number): DeckInfo => ({
+  deckId,
+  label,
+  fileName: `deck${deckId}.pdf`,
+  pageCount,
+});
+
+export const slideMatch = (seconds: number, deckId: number, pageNumber: number, extra: Partial<SlideMatch> = {}): SlideMatch => ({
+  timestamp: '',
+  seconds,
+  deckId,
+  pageNumber,
+  slideTitle: '',
+  reasoning: '',
+  confidence: 'High',
+  ...extra,
+});
+
+// `deckId:pageNumber` of each row, for comparing sequences at a glance
+export const pageKeys = (matches: { deckId: number; pageNumber: number }[]) => matches.map(m => `${m.deckId}:${m.pageNumber}`);
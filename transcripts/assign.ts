@@ -0,0 +1,39 @@
+import { SlideMatch } from '../types';
+import { normalizeSegments } from '../postprocess/segments';
+import { TranscriptSegment } from './types';
+
+// --- Transcript Assignment ---
+// Each spoken line goes to the slide segment it overlaps most. Derived on demand
+// rather than stored on the rows, so manual edits never leave stale notes behind.
+
+// Lines per match, aligned with `matches`; speech in gaps between segments is left out
+export const assignTranscript = (
+  matches: SlideMatch[],
+  transcript: TranscriptSegment[],
+  duration: number
+): TranscriptSegment[][] => {
+  const order = matches.map((_, i) => i).sort((a, b) => matches[a].seconds - matches[b].seconds);
+  const segments = normalizeSegments(order.map(i => matches[i]), duration);
+  const assigned: TranscriptSegment[][] = matches.map(() => []);
+
+  transcript.forEach(line => {
+    let best = -1;
+    let bestOverlap = 0;
+    segments.forEach((segment, k) => {
+      const overlap = Math.min(line.end, segment.endSeconds!) - Math.max(line.start, segment.seconds);
+      if (overlap > bestOverlap) {
+        best = k;
+        bestOverlap = overlap;
+      }
+    });
+    // Zero-length lines (or ones inside a zero-length segment) go by their midpoint
+    if (best < 0) {
+      const mid = (line.start + line.end) / 2;
+      best = segments.findIndex(s => mid >= s.seconds && mid < s.endSeconds!);
+    }
+    if (best >= 0) assigned[order[best]].push(line);
+  });
+  return assigned;
+};
+
+export const transcriptText = (lines: TranscriptSegment[]) => lines.map(l => l.text).join(' ');
@@ -0,0 +1,54 @@
+import { TranscriptSegment, Transcriber } from './types';
+import { t } from '../i18n';
+
+// --- Caption Files (WebVTT / SRT) ---
+// Stand-in transcriber for talks that already have subtitles.
+
+// 00:01:02.500, 01:02.500 or 00:01:02,500
+const parseCueTime = (text: string): number | null => {
+  const match = text.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + (ms ? Number(ms.padEnd(3, '0')) / 1000 : 0);
+};
+
+// Voice spans (<v Speaker>), styling tags and entities are dropped
+const cleanCueText = (lines: string[]) =>
+  lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Both formats are blocks separated by blank lines, with a "start --> end" timing line;
+// headers, NOTE/STYLE blocks and cue numbers have no arrow and are skipped.
+export const parseCaptions = (source: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  const blocks = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing < 0) continue;
+    const [from, rest] = lines[timing].split('-->');
+    const start = parseCueTime(from);
+    const end = parseCueTime(rest.trim().split(/\s+/)[0]); // Cue settings follow the end time in VTT
+    const text = cleanCueText(lines.slice(timing + 1));
+    if (start === null || end === null || !text) continue;
+    segments.push({ start, end: Math.max(start, end), text });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+export const createCaptionTranscriber = (fileName: string, readText: () => Promise<string>): Transcriber => ({
+  kind: 'captions',
+  label: t('transcriber.captionsLabel', { fileName }),
+  transcribe: async (onProgress) => {
+    const segments = parseCaptions(await readText());
+    if (segments.length === 0) {
+      throw new Error(t('error.emptyCaptions', { fileName }));
+    }
+    onProgress(100);
+    return segments;
+  },
+});
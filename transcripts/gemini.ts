@@ -0,0 +1,117 @@
+import { FileState, GoogleGenAI } from "@google/genai";
+import { DEFAULT_GEMINI_MODEL } from '../providers/gemini';
+import { createArrayItemStreamParser } from '../utils/jsonStream';
+import { parseTimeToSeconds } from '../utils/time';
+import { abortError } from '../utils/abort';
+import { TranscriptSegment, Transcriber } from './types';
+import { getLocale, t } from '../i18n';
+import { promptsFor } from '../prompts';
+
+// --- Gemini Transcriber ---
+// Uploads the talk through the Files API (too large for inline data) and asks
+// for timestamped speech. Gemini listens to the audio track of a video file.
+
+export interface GeminiTranscriberOptions {
+  apiKey: string;
+  model?: string;
+  media: Blob;       // The video (or an audio-only copy)
+  mimeType: string;
+  duration?: number; // Seconds; lets progress follow the transcript
+}
+
+const TRANSCRIPT_SCHEMA = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', description: "Segment start, MM:SS.s or HH:MM:SS.s" },
+          end: { type: 'string', description: "Segment end, MM:SS.s or HH:MM:SS.s" },
+          text: { type: 'string', description: "What was said, verbatim, in the spoken language" },
+        },
+        required: ["start", "end", "text"]
+      }
+    }
+  },
+  required: ["segments"]
+};
+
+// Uploaded videos are processed before they can be used in a prompt
+const PROCESSING_POLL_MS = 3000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); reject(abortError()); }, { once: true });
+});
+
+export const createGeminiTranscriber = ({
+  apiKey, model = DEFAULT_GEMINI_MODEL, media, mimeType, duration,
+}: GeminiTranscriberOptions): Transcriber => ({
+  kind: 'gemini',
+  label: t('transcriber.geminiLabel', { model }),
+  transcribe: async (onProgress, signal) => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    // 1. Upload (0-20%) and wait for processing (20-30%)
+    let file = await ai.files.upload({ file: media, config: { mimeType, abortSignal: signal } });
+    onProgress(20);
+    while (file.state === FileState.PROCESSING) {
+      await sleep(PROCESSING_POLL_MS, signal);
+      file = await ai.files.get({ name: file.name!, config: { abortSignal: signal } });
+    }
+    if (file.state === FileState.FAILED || !file.uri) {
+      throw new Error(t('error.geminiUploadFailed', { message: file.error?.message ?? t('common.unknown') }));
+    }
+    onProgress(30);
+
+    try {
+      // 2. Stream the transcript (30-100%); complete segments survive a truncated response
+      const segments: TranscriptSegment[] = [];
+      const parser = createArrayItemStreamParser(
+        'segments',
+        (item) => {
+          if (typeof item?.text !== 'string' || !item.text.trim()) return;
+          const start = parseTimeToSeconds(String(item.start ?? ''));
+          const end = parseTimeToSeconds(String(item.end ?? ''));
+          segments.push({ start, end: Math.max(start, end), text: item.text.trim() });
+          if (duration) onProgress(30 + Math.min(1, end / duration) * 70);
+        },
+        (text, e) => console.warn("Skipping malformed transcript segment:", text, e)
+      );
+
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: {
+          parts: [
+            { fileData: { fileUri: file.uri, mimeType: file.mimeType ?? mimeType } },
+            { text: promptsFor(getLocale()).transcription },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: TRANSCRIPT_SCHEMA,
+          maxOutputTokens: 65536,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        if (signal?.aborted) throw abortError();
+        if (chunk.text) parser.push(chunk.text);
+      }
+
+      if (!parser.isComplete()) {
+        console.warn("Transcript stream ended before the JSON was closed. Keeping complete segments only.");
+      }
+      if (segments.length === 0) {
+        throw new Error(t('error.emptyTranscript'));
+      }
+      onProgress(100);
+      return segments.sort((a, b) => a.start - b.start);
+    } finally {
+      // Uploaded files expire on their own; deleting is a courtesy
+      ai.files.delete({ name: file.name! }).catch(() => {});
+    }
+  },
+});
@@ -0,0 +1,17 @@
+// --- Transcripts ---
+
+export type TranscriberKind = 'gemini' | 'captions';
+
+// One spoken line, in video seconds
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Anything that can turn a talk into timestamped speech.
+export interface Transcriber {
+  kind: TranscriberKind;
+  label: string; // Shown in the processing status
+  transcribe: (onProgress: (p: number) => void, signal?: AbortSignal) => Promise<TranscriptSegment[]>;
+}
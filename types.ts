@@ -0,0 +1,68 @@
+import type { ErrorCategory } from './providers/errors';
+
+export interface SlideMatch {
+  timestamp: string;
+  seconds: number;
+  coarseSeconds?: number; // Sampling-based estimate, kept once `seconds` has been refined
+  endSeconds?: number; // End of this segment; open (until the next one) when missing
+  deckId: number; // 1-based position in the deck list
+  pageNumber: number;
+  slideTitle: string; // New field
+  reasoning: string;  // New field
+  confidence: string; // "High" | "Medium" | "Low"
+  similarity?: number; // 0..1, set by matchers that score each pair (local matcher)
+  verified?: boolean;  // Set once a human has edited or inserted the row
+  repairNote?: string; // Set when post-processing changed a value the matcher returned
+  verification?: MatchVerification; // Set when the second pass took a closer look at this row
+}
+
+// Outcome of the closer look at an uncertain row; `before` is what the matcher first said
+export interface MatchVerification {
+  verdict: 'confirmed' | 'corrected';
+  before: { deckId: number; pageNumber: number; confidence: string };
+}
+
+export interface ProcessingStatus {
+  step: 'idle' | 'extracting' | 'estimating' | 'analyzing' | 'verifying' | 'refining' | 'transcribing' | 'done' | 'error';
+  message: string;
+  progress: number; // 0 to 100
+  window?: { index: number; count: number }; // Set while a windowed analysis is running
+  errorCategory?: ErrorCategory; // Set with step 'error'
+}
+
+export interface PdfPageImage {
+  deckId: number;
+  pageNumber: number;
+  dataUrl: string; // base64
+  text?: string;  // PDF text layer; empty for image-only pages
+  title?: string; // Heuristic title from the text layer
+}
+
+// A deck slot in the input form. `key` stays stable while the list is reordered.
+export interface DeckInput {
+  key: number;
+  label: string;
+  files: File[]; // One PDF, .pptx or zip, or the images of a folder
+}
+
+// Snapshot of a deck as it was numbered when the analysis started.
+export interface DeckInfo {
+  deckId: number; // 1-based, follows the order of the deck list
+  label: string;
+  fileName: string;
+  pageCount: number;
+}
+
+// One file of a talk recorded in several parts; the parts play back to back.
+export interface VideoPart {
+  part: number;     // 1-based, follows the order of the part list
+  fileName: string;
+  offset: number;   // Start on the combined timeline (s)
+  duration: number; // Seconds
+}
+
+export interface VideoFrameImage {
+  timestamp: number;
+  timeString: string;
+  dataUrl: string; // base64
+}
@@ -0,0 +1,7 @@
+import { t } from '../i18n';
+
+// --- Cancellation Helpers ---
+
+export const abortError = () => new DOMException(t('common.cancelled'), 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
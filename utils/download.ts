@@ -0,0 +1,9 @@
+// Save generated text as a file via a temporary object URL
+export const downloadText = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
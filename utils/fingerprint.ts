@@ -0,0 +1,39 @@
+// --- File Fingerprints ---
+// SHA-256 of the file content. Talk recordings can be several GB, so files above
+// FULL_HASH_LIMIT are fingerprinted from their size plus evenly spaced 1 MB samples.
+
+const FULL_HASH_LIMIT = 64 * 1024 * 1024;
+const SAMPLE_SIZE = 1024 * 1024;
+const SAMPLE_COUNT = 16;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export const fingerprintFile = async (file: File): Promise<string> => {
+  if (file.size <= FULL_HASH_LIMIT) {
+    return `sha256:${toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()))}`;
+  }
+
+  const parts: BlobPart[] = [String(file.size)];
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const offset = Math.floor(((file.size - SAMPLE_SIZE) * i) / (SAMPLE_COUNT - 1));
+    parts.push(file.slice(offset, offset + SAMPLE_SIZE));
+  }
+  const sampled = await new Blob(parts).arrayBuffer();
+  return `sha256-sampled:${toHex(await crypto.subtle.digest('SHA-256', sampled))}`;
+};
+
+// A deck can be a set of images: each file's fingerprint under its name, in a fixed order
+export const fingerprintFiles = async (files: File[]): Promise<string> => {
+  if (files.length === 1) return fingerprintFile(files[0]);
+  const named = await Promise.all(files.map(async file => `${file.webkitRelativePath || file.name}:${await fingerprintFile(file)}`));
+  const listing = new TextEncoder().encode(named.sort().join('\n'));
+  return `sha256-set:${toHex(await crypto.subtle.digest('SHA-256', listing))}`;
+};
+
+// The parts of one recording: unlike a deck's images, their order is part of the identity
+export const combineFingerprints = async (prints: string[]): Promise<string> => {
+  if (prints.length === 1) return prints[0];
+  const listing = new TextEncoder().encode(prints.join('\n'));
+  return `sha256-parts:${toHex(await crypto.subtle.digest('SHA-256', listing))}`;
+};
@@ -0,0 +1,39 @@
+import { t } from '../i18n';
+
+// --- Image Decoding Helpers ---
+
+// Grayscale pixels in row-major order, values 0..255
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export const loadImage = (dataUrl: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(t('error.imageDecode')));
+    img.src = dataUrl;
+  });
+};
+
+// Decode a JPEG data URL and resample it to a fixed-size grayscale grid.
+export const dataUrlToGray = async (dataUrl: string, width: number, height: number): Promise<GrayImage> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('error.canvas'));
+
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    // ITU-R BT.601 luma
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return { width, height, data: gray };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createArrayItemStreamParser, parseRootObject } from './jsonStream';
+
+// Feeds `chunks` and returns what the parser reported
+const parse = (chunks: string[], arrayKey = 'transitions') => {
+  const items: unknown[] = [];
+  const invalid: string[] = [];
+  const parser = createArrayItemStreamParser(arrayKey, item => items.push(item), text => invalid.push(text));
+  chunks.forEach(parser.push);
+  return { items, invalid, complete: parser.isComplete() };
+};
+
+const characters = (text: string) => Array.from(text);
+
+describe('createArrayItemStreamParser', () => {
+  it('emits every element of the named array', () => {
+    expect(parse(['{"transitions":[{"a":1},{"a":2}]}'])).toEqual({ items: [{ a: 1 }, { a: 2 }], invalid: [], complete: true });
+  });
+
+  it('reads escaped quotes and braces inside strings as text', () => {
+    const text = '{"transitions":[{"title":"He said \\"}\\" and {[x]"},{"title":"back\\\\slash"}]}';
+    expect(parse([text]).items).toEqual([{ title: 'He said "}" and {[x]' }, { title: 'back\\slash' }]);
+  });
+
+  it('keeps nested arrays and objects inside an element', () => {
+    const text = '{"transitions":[{"grid":[[1,2],[3]],"inner":{"list":[{"b":1}]}}]}';
+    expect(parse([text]).items).toEqual([{ grid: [[1, 2], [3]], inner: { list: [{ b: 1 }] } }]);
+  });
+
+  it('ignores other arrays, including ones before the named array', () => {
+    const text = '{"notes":[{"n":1}],"meta":{"list":[{"deep":true}]},"transitions":[{"a":1}]}';
+    expect(parse([text]).items).toEqual([{ a: 1 }]);
+  });
+
+  it('skips leading text and code fences', () => {
+    const text = 'Here you go:\n```json\n{"transitions":[{"a":1}]}\n```\nAnything else?';
+    expect(parse([text])).toEqual({ items: [{ a: 1 }], invalid: [], complete: true });
+  });
+
+  it('gives the same result however the text is split', () => {
+    const text = '```json\n{"transitions":[{"title":"a \\"{\\" b","n":[1,[2]]},{"a":2}]}\n```';
+    expect(parse(characters(text))).toEqual(parse([text]));
+    expect(parse([text.slice(0, 23), text.slice(23, 24), text.slice(24)])).toEqual(parse([text]));
+  });
+
+  it('keeps complete elements of a truncated document', () => {
+    expect(parse(['{"transitions":[{"a":1},{"a":2},{"a":'])).toEqual({ items: [{ a: 1 }, { a: 2 }], invalid: [], complete: false });
+  });
+
+  it('reports elements that are not valid JSON and carries on', () => {
+    const result = parse(['{"transitions":[{"a":1,},{"a":2}]}']);
+    expect(result.items).toEqual([{ a: 2 }]);
+    expect(result.invalid).toEqual(['{"a":1,}']);
+    expect(result.complete).toBe(true);
+  });
+
+  it('stops at the end of the root object', () => {
+    expect(parse(['{"transitions":[{"a":1}]} {"transitions":[{"a":2}]}']).items).toEqual([{ a: 1 }]);
+  });
+});
+
+describe('parseRootObject', () => {
+  it('reads the object out of a fenced, chatty reply', () => {
+    const text = 'Sure:\n```json\n{"verdict":"confirmed","note":"a } in {text}"}\n```\nAnything else?';
+    expect(parseRootObject(text)).toEqual({ verdict: 'confirmed', note: 'a } in {text}' });
+  });
+
+  it('throws when the object is missing or cut off', () => {
+    expect(() => parseRootObject('I cannot tell.')).toThrow(SyntaxError);
+    expect(() => parseRootObject('{"verdict":"confirmed"')).toThrow(SyntaxError);
+  });
+});
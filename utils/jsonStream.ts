@@ -0,0 +1,134 @@
+// --- Incremental JSON Array Parser ---
+// Feeds on a JSON document chunk by chunk and emits each element of one array
+// (e.g. the `transitions` array) as soon as that element's closing brace arrives.
+// Text before the root object (markdown fences, chatter) is skipped.
+
+interface Container {
+  type: 'object' | 'array';
+  key: string | null; // Key this container is stored under in its parent object
+}
+
+export interface ArrayItemStreamParser {
+  push: (chunk: string) => void;
+  isComplete: () => boolean; // True once the root object has been closed
+}
+
+export const createArrayItemStreamParser = (
+  arrayKey: string,
+  onItem: (item: any) => void,
+  onInvalidItem?: (text: string, error: unknown) => void
+): ArrayItemStreamParser => {
+  const stack: Container[] = [];
+  let started = false;
+  let complete = false;
+
+  // String scanning state
+  let inString = false;
+  let escaped = false;
+  let stringBuffer = '';
+  let lastString = '';
+  let pendingKey: string | null = null;
+
+  // Raw text of the array element currently being read
+  let capture: { depth: number; text: string } | null = null;
+
+  const pushChar = (c: string) => {
+    if (complete) return;
+    if (!started) {
+      if (c === '{') {
+        started = true;
+        stack.push({ type: 'object', key: null });
+      }
+      return;
+    }
+
+    if (capture) capture.text += c;
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        stringBuffer += c;
+      } else if (c === '\\') {
+        escaped = true;
+        stringBuffer += c;
+      } else if (c === '"') {
+        inString = false;
+        lastString = stringBuffer;
+      } else {
+        stringBuffer += c;
+      }
+      return;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (c) {
+      case '"':
+        inString = true;
+        stringBuffer = '';
+        break;
+      case ':':
+        if (top.type === 'object') pendingKey = lastString;
+        break;
+      case ',':
+        if (top.type === 'object') pendingKey = null;
+        break;
+      case '{':
+      case '[': {
+        if (!capture && c === '{' && top.type === 'array' && top.key === arrayKey) {
+          capture = { depth: stack.length + 1, text: '{' };
+        }
+        stack.push({ type: c === '{' ? 'object' : 'array', key: top.type === 'object' ? pendingKey : null });
+        pendingKey = null;
+        break;
+      }
+      case '}':
+      case ']': {
+        stack.pop();
+        if (capture && stack.length < capture.depth) {
+          const text = capture.text;
+          capture = null;
+          try {
+            onItem(JSON.parse(text));
+          } catch (e) {
+            onInvalidItem?.(text, e);
+          }
+        }
+        if (stack.length === 0) complete = true;
+        break;
+      }
+    }
+  };
+
+  return {
+    push: (chunk: string) => {
+      for (const c of chunk) pushChar(c);
+    },
+    isComplete: () => complete,
+  };
+};
+
+// --- Whole Replies ---
+
+// The root object of a finished reply, skipping the same surrounding text
+// (markdown fences, chatter). Throws when there is no complete object.
+export const parseRootObject = (text: string): any => {
+  const start = text.indexOf('{');
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; start !== -1 && i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      depth++;
+    } else if ((c === '}' || c === ']') && --depth === 0) {
+      return JSON.parse(text.slice(start, i + 1));
+    }
+  }
+  throw new SyntaxError('No complete JSON object in the reply');
+};
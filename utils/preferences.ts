@@ -0,0 +1,21 @@
+// --- Preferences ---
+// Small per-browser settings in localStorage. Missing storage (Node, private mode,
+// blocked cookies) just means nothing is remembered.
+
+const PREFIX = 'slide-sync.';
+
+export const readPreference = (key: string): string | null => {
+  try {
+    return globalThis.localStorage?.getItem(PREFIX + key) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const writePreference = (key: string, value: string) => {
+  try {
+    globalThis.localStorage?.setItem(PREFIX + key, value);
+  } catch {
+    // Not persisted; the value still applies to this session
+  }
+};
@@ -0,0 +1,49 @@
+import { abortError, isAbortError } from './abort';
+
+// --- Retries With Backoff ---
+// Exponential backoff with full jitter: each wait is random in [0, base * 2^attempt],
+// capped, so parallel clients that failed together do not retry together.
+
+export interface RetryInfo {
+  attempt: number;  // 1-based number of the retry about to run
+  retries: number;  // Maximum number of retries
+  delayMs: number;
+  error: unknown;   // The failure being retried
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const retryWithBackoff = async <T,>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 4, baseDelayMs = 2000, maxDelayMs = 30000, shouldRetry = () => true, onRetry, signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted || attempt >= retries || !shouldRetry(e)) throw e;
+      const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+      onRetry?.({ attempt: attempt + 1, retries, delayMs, error: e });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { formatClock, formatTimeMs, formatTimePrecise, formatTimecode } from './time';
+
+describe('formatTimePrecise', () => {
+  it('writes minutes, seconds and tenths', () => {
+    expect(formatTimePrecise(0)).toBe('00:00.0');
+    expect(formatTimePrecise(65.24)).toBe('01:05.2');
+  });
+
+  it('rounds to the tenth, carrying into the minutes', () => {
+    expect(formatTimePrecise(59.96)).toBe('01:00.0');
+    expect(formatTimePrecise(119.95)).toBe('02:00.0');
+  });
+});
+
+describe('formatTimeMs', () => {
+  it('writes minutes, seconds and milliseconds', () => {
+    expect(formatTimeMs(0)).toBe('00:00.000');
+    expect(formatTimeMs(65.25)).toBe('01:05.250');
+  });
+
+  it('rounds to the millisecond, carrying into the minutes', () => {
+    expect(formatTimeMs(119.9996)).toBe('02:00.000');
+  });
+});
+
+describe('formatTimecode', () => {
+  it('writes hours, minutes, seconds and milliseconds', () => {
+    expect(formatTimecode(3661.5)).toBe('01:01:01.500');
+    expect(formatTimecode(0)).toBe('00:00:00.000');
+  });
+
+  it('uses the given separator before the milliseconds', () => {
+    expect(formatTimecode(65.25, ',')).toBe('00:01:05,250');
+  });
+
+  it('rounds to the millisecond, carrying into the seconds', () => {
+    expect(formatTimecode(1.9996)).toBe('00:00:02.000');
+    expect(formatTimecode(59.9999)).toBe('00:01:00.000');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatTimecode(-3)).toBe('00:00:00.000');
+  });
+});
+
+describe('formatClock', () => {
+  it('writes MM:SS below an hour, truncating fractions', () => {
+    expect(formatClock(0)).toBe('00:00');
+    expect(formatClock(59.9)).toBe('00:59');
+    expect(formatClock(605)).toBe('10:05');
+  });
+
+  it('writes H:MM:SS from an hour on', () => {
+    expect(formatClock(3600)).toBe('1:00:00');
+    expect(formatClock(36125)).toBe('10:02:05');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatClock(-5)).toBe('00:00');
+  });
+});
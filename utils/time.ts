@@ -0,0 +1,57 @@
+export const formatTime = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+// MM:SS.s — frame labels need sub-second precision once sampling is non-uniform
+// Rounded to the tenth before splitting, so 59.96 carries into the minute
+export const formatTimePrecise = (seconds: number): string => {
+  const tenths = Math.round(seconds * 10);
+  const m = Math.floor(tenths / 600);
+  const s = (tenths - m * 600) / 10;
+  return `${m.toString().padStart(2, '0')}:${s.toFixed(1).padStart(4, '0')}`;
+};
+
+// MM:SS.mmm — refined transition times
+export const formatTimeMs = (seconds: number): string => {
+  const totalMs = Math.round(seconds * 1000);
+  const m = Math.floor(totalMs / 60000);
+  const s = (totalMs - m * 60000) / 1000;
+  return `${m.toString().padStart(2, '0')}:${s.toFixed(3).padStart(6, '0')}`;
+};
+
+// HH:MM:SS.mmm — subtitle and chapter formats need hours and milliseconds.
+// SRT uses ',' before the milliseconds, WebVTT uses '.'.
+export const formatTimecode = (seconds: number, msSeparator: '.' | ',' = '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor(totalMs / 60000) % 60;
+  const s = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${msSeparator}${ms.toString().padStart(3, '0')}`;
+};
+
+// MM:SS below an hour, H:MM:SS above — whole seconds, as YouTube chapter lists expect
+export const formatClock = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total / 60) % 60;
+  const s = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+export const parseTimeToSeconds = (timeStr: string): number => {
+  if (!timeStr) return 0;
+  // Handle MM:SS or HH:MM:SS, with optional fractional seconds
+  const parts = timeStr.split(':').map(part => parseFloat(part.trim()));
+  
+  if (parts.length === 2) {
+    return parts[0] * 60 + parts[1];
+  } else if (parts.length === 3) {
+    return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  }
+  return 0;
+};
@@ -0,0 +1,58 @@
+import { abortError } from './abort';
+import { t } from '../i18n';
+
+// --- Worker Request/Response ---
+// Workers answer every request with `{ id, progress }` updates followed by
+// `{ id, result }` or `{ id, error }`. Aborting terminates the worker, since
+// a busy worker cannot be interrupted from outside.
+
+export interface WorkerClient {
+  call: <T>(payload: object, transfer?: Transferable[], onProgress?: (p: number) => void) => Promise<T>;
+  terminate: () => void;
+}
+
+export const createWorkerClient = (worker: Worker, signal?: AbortSignal): WorkerClient => {
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void; onProgress?: (p: number) => void }>();
+
+  const failAll = (error: Error) => {
+    pending.forEach(p => p.reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = (e: MessageEvent) => {
+    const { id, progress, result, error } = e.data;
+    const request = pending.get(id);
+    if (!request) return;
+    if (progress !== undefined) {
+      request.onProgress?.(progress);
+    } else {
+      pending.delete(id);
+      if (error !== undefined) request.reject(new Error(error));
+      else request.resolve(result);
+    }
+  };
+  worker.onerror = (e) => failAll(new Error(e.message || t('error.worker')));
+
+  const terminate = () => {
+    worker.terminate();
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const onAbort = () => {
+    terminate();
+    failAll(abortError());
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  return {
+    call: (payload, transfer = [], onProgress) => {
+      if (signal?.aborted) return Promise.reject(abortError());
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject, onProgress });
+        worker.postMessage({ id, ...payload }, transfer);
+      });
+    },
+    terminate,
+  };
+};
@@ -0,0 +1,74 @@
+import { SlideMatch, VideoFrameImage } from '../types';
+import { abortError } from '../utils/abort';
+import { formatTime } from '../utils/time';
+import { grayDiff } from './sampling';
+
+// --- Sub-second Transition Refinement ---
+// The matchers only know a transition happened between two sampled frames.
+// This pass re-seeks the video inside that interval and bisects on pixel
+// difference until the cut is pinned down to about one video frame.
+// Decoding is left to `grab`, so the browser and the CLI share the search.
+
+export interface RefineOptions {
+  width?: number;        // Comparison resolution
+  tolerance?: number;    // Stop when the interval is this short (s)
+  minContrast?: number;  // Skip intervals whose endpoints barely differ (no visible cut)
+}
+
+export const REFINE_DEFAULTS: Required<RefineOptions> = { width: 64, tolerance: 1 / 30, minContrast: 0.02 };
+
+// Luma of the video frame at `time`
+export type GrayGrabber = (time: number) => Promise<ArrayLike<number>>;
+
+// Sampled frames on either side of `seconds`, or null at the edges of the video
+const bracket = (frames: VideoFrameImage[], seconds: number): [number, number] | null => {
+  const after = frames.findIndex(f => f.timestamp >= seconds);
+  if (after <= 0) return null;
+  return [frames[after - 1].timestamp, frames[after].timestamp];
+};
+
+export const bisectTransitions = async (
+  grab: GrayGrabber,
+  matches: SlideMatch[],
+  frames: VideoFrameImage[],
+  onProgress: (p: number) => void,
+  signal?: AbortSignal,
+  options: RefineOptions = {}
+): Promise<SlideMatch[]> => {
+  const { tolerance, minContrast } = { ...REFINE_DEFAULTS, ...options };
+
+  const refined: SlideMatch[] = [];
+  for (let i = 0; i < matches.length; i++) {
+    if (signal?.aborted) throw abortError();
+    const match = matches[i];
+    const coarse = match.coarseSeconds ?? match.seconds;
+    const range = bracket(frames, coarse);
+
+    // Human-set times are left alone
+    if (match.verified || !range) {
+      refined.push(match);
+      onProgress(((i + 1) / matches.length) * 100);
+      continue;
+    }
+
+    let [lo, hi] = range;
+    const before = await grab(lo);
+    const after = await grab(hi);
+
+    if (grayDiff(before, after) >= minContrast) {
+      // Invariant: `lo` still shows the old picture, `hi` already shows the new one
+      while (hi - lo > tolerance) {
+        const mid = (lo + hi) / 2;
+        const probe = await grab(mid);
+        if (grayDiff(probe, after) <= grayDiff(probe, before)) hi = mid;
+        else lo = mid;
+      }
+      const seconds = Math.round(hi * 1000) / 1000;
+      refined.push({ ...match, seconds, coarseSeconds: coarse, timestamp: formatTime(seconds) });
+    } else {
+      refined.push(match);
+    }
+    onProgress(((i + 1) / matches.length) * 100);
+  }
+  return refined;
+};
@@ -0,0 +1,194 @@
+import { VideoFrameImage, VideoPart } from '../types';
+import { formatTime } from '../utils/time';
+import { abortError } from '../utils/abort';
+import { WorkerClient, createWorkerClient } from '../utils/workerRpc';
+import {
+  FRAME_QUALITY, FRAME_WIDTH, SCAN_WIDTH, SamplingOptions, ScanPoint, VERIFY_QUALITY,
+  detectCuts, grayDiff, planSampleTimes, scanInterval
+} from './sampling';
+import { Quad, isFullFrame, regionSize, sourceWidthFor, warpGray } from './region';
+import { FrameGrabber } from '../pipeline/verify';
+import { t } from '../i18n';
+
+// --- Video Frame Extraction (browser) ---
+
+export const loadVideo = (file: File): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.src = URL.createObjectURL(file);
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error(t('error.videoLoad')));
+  });
+};
+
+// Length from the metadata alone, to lay out the parts of a talk before extraction
+export const readVideoDuration = async (file: File): Promise<number> => {
+  const video = await loadVideo(file);
+  URL.revokeObjectURL(video.src);
+  if (!Number.isFinite(video.duration)) throw new Error(t('error.videoDuration'));
+  return video.duration;
+};
+
+export const seek = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error(t('error.videoPlayback')));
+    video.currentTime = time;
+  });
+};
+
+export const createCanvas = (video: HTMLVideoElement, maxWidth: number) => {
+  const canvas = document.createElement('canvas');
+  const scale = Math.min(1.0, maxWidth / video.videoWidth);
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error(t('error.canvas'));
+  return { canvas, ctx };
+};
+
+// Current video frame as luma (BT.601), at the canvas size
+export const readGray = (video: HTMLVideoElement, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): Float32Array => {
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+// Current frame as luma, corrected to the slide region when one is set
+export const readRegionGray = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  region: Quad | null,
+  width: number
+): Float32Array => {
+  const gray = readGray(video, canvas, ctx);
+  if (isFullFrame(region)) return gray;
+  const size = regionSize(region!, video.videoWidth, video.videoHeight, width);
+  return warpGray(gray, canvas.width, canvas.height, region!, size.width, size.height);
+};
+
+// Source resolution needed so the region (or the whole frame) comes out `width` wide
+export const grabWidth = (video: HTMLVideoElement, region: Quad | null, width: number) =>
+  isFullFrame(region) ? width : sourceWidthFor(region!, video.videoWidth, width);
+
+// Current frame scaled to `width`, ready to be transferred to the frame worker
+const grabBitmap = (video: HTMLVideoElement, width: number): Promise<ImageBitmap> => {
+  const scale = Math.min(1.0, width / video.videoWidth);
+  return createImageBitmap(video, {
+    resizeWidth: Math.max(1, Math.round(video.videoWidth * scale)),
+    resizeHeight: Math.max(1, Math.round(video.videoHeight * scale)),
+  });
+};
+
+// Worker request for one frame `width` wide, cropped to the region
+const frameRequest = (video: HTMLVideoElement, region: Quad | null, width: number) => ({
+  sourceWidth: grabWidth(video, region, width),
+  region: isFullFrame(region) ? undefined : { quad: region!, ...regionSize(region!, video.videoWidth, video.videoHeight, width) },
+});
+
+// Pass 1: cheap low-res scan, mean abs luma difference between consecutive samples
+const scanVideo = async (
+  video: HTMLVideoElement,
+  worker: WorkerClient,
+  options: SamplingOptions,
+  region: Quad | null,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal
+): Promise<ScanPoint[]> => {
+  const duration = video.duration;
+  const interval = scanInterval(duration, options);
+  const { sourceWidth, region: crop } = frameRequest(video, region, SCAN_WIDTH);
+
+  const points: ScanPoint[] = [];
+  let previous: Float32Array | null = null;
+
+  for (let time = 0; time <= duration; time += interval) {
+    if (signal?.aborted) throw abortError();
+    await seek(video, time);
+    const bitmap = await grabBitmap(video, sourceWidth);
+    const gray = await worker.call<Float32Array>({ type: 'gray', bitmap, region: crop }, [bitmap]);
+    points.push({ time, diff: previous ? grayDiff(gray, previous) : 0 });
+    previous = gray;
+
+    onProgress((time / duration) * 100);
+  }
+  return points;
+};
+
+export interface VideoExtraction {
+  frames: VideoFrameImage[];
+  duration: number; // Seconds
+  parts?: VideoPart[]; // Set on the combined extraction of a multi-part talk, see ./parts
+}
+
+export const extractVideoFrames = async (
+  file: File,
+  options: SamplingOptions,
+  onProgress: (p: number) => void,
+  signal?: AbortSignal,
+  region: Quad | null = null // Slide area; frames are cropped and perspective-corrected to it
+): Promise<VideoExtraction> => {
+  const video = await loadVideo(file);
+  const worker = createWorkerClient(new Worker(new URL('../workers/frame.worker.ts', import.meta.url), { type: 'module' }), signal);
+
+  try {
+    const duration = video.duration;
+    if (!Number.isFinite(duration)) {
+      throw new Error(t('error.videoDuration'));
+    }
+
+    // Pass 1 (0-40%): find candidate cut points
+    const scan = await scanVideo(video, worker, options, region, (p) => onProgress(p * 0.4), signal);
+    const times = planSampleTimes(duration, detectCuts(scan, options), options);
+
+    // Pass 2 (40-100%): extract the planned frames
+    const frames: VideoFrameImage[] = [];
+    const { sourceWidth, region: crop } = frameRequest(video, region, FRAME_WIDTH);
+    for (let i = 0; i < times.length; i++) {
+      if (signal?.aborted) throw abortError();
+      await seek(video, times[i]);
+      const bitmap = await grabBitmap(video, sourceWidth);
+      frames.push({
+        timestamp: times[i],
+        timeString: formatTime(times[i]),
+        dataUrl: await worker.call<string>({ type: 'jpeg', bitmap, quality: FRAME_QUALITY, region: crop }, [bitmap])
+      });
+      onProgress(40 + ((i + 1) / times.length) * 60);
+    }
+    return { frames, duration };
+  } finally {
+    worker.terminate();
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+// Single sharp frames on demand, for the verification pass
+export const openFrameGrabber = async (
+  file: File,
+  width: number,
+  region: Quad | null = null,
+  signal?: AbortSignal
+): Promise<FrameGrabber> => {
+  const video = await loadVideo(file);
+  const worker = createWorkerClient(new Worker(new URL('../workers/frame.worker.ts', import.meta.url), { type: 'module' }), signal);
+  const { sourceWidth, region: crop } = frameRequest(video, region, width);
+  return {
+    grab: async (time: number) => {
+      if (time > video.duration) return '';
+      await seek(video, time);
+      const bitmap = await grabBitmap(video, sourceWidth);
+      return worker.call<string>({ type: 'jpeg', bitmap, quality: VERIFY_QUALITY, region: crop }, [bitmap]);
+    },
+    close: () => {
+      worker.terminate();
+      URL.revokeObjectURL(video.src);
+    },
+  };
+};
@@ -0,0 +1,128 @@
+import { SlideMatch, VideoFrameImage, VideoPart } from '../types';
+import { VideoExtraction } from './frames';
+import { FrameGrabber } from '../pipeline/verify';
+import { Transcriber, TranscriptSegment } from '../transcripts/types';
+import { normalizeSegments } from '../postprocess/segments';
+import { formatTime } from '../utils/time';
+import { t } from '../i18n';
+
+// --- Multi-part Recordings ---
+// A talk that arrives as several files (camera card splits, morning and afternoon
+// sessions) plays back to back on one combined timeline. Each part is extracted,
+// seeked and transcribed on its own; everything else works in combined seconds,
+// and this module maps between the two.
+
+type Progress = (p: number) => void;
+
+// Parts in order, each starting where the previous one ends
+export const layoutParts = (files: { fileName: string; duration: number }[]): VideoPart[] => {
+  let offset = 0;
+  return files.map((file, i) => {
+    const part = { part: i + 1, fileName: file.fileName, offset, duration: file.duration };
+    offset += file.duration;
+    return part;
+  });
+};
+
+export const partsDuration = (parts: VideoPart[]) =>
+  parts.length > 0 ? parts[parts.length - 1].offset + parts[parts.length - 1].duration : 0;
+
+export const isMultiPart = (parts?: VideoPart[] | null): parts is VideoPart[] => !!parts && parts.length > 1;
+
+// Part playing at `seconds` and the time inside it; a boundary belongs to the part starting there
+export const partAt = (parts: VideoPart[], seconds: number): { part: VideoPart; local: number } => {
+  let index = 0;
+  while (index + 1 < parts.length && parts[index + 1].offset <= seconds) index++;
+  const part = parts[index];
+  return { part, local: Math.min(Math.max(0, seconds - part.offset), part.duration) };
+};
+
+export const formatPartTime = (parts: VideoPart[], seconds: number) => {
+  const { part, local } = partAt(parts, seconds);
+  return t('parts.at', { part: part.part, time: formatTime(local) });
+};
+
+// --- Extraction ---
+
+// Frames of every part on the combined timeline
+export const combineExtractions = (parts: VideoPart[], extractions: VideoExtraction[]): VideoExtraction => {
+  const frames: VideoFrameImage[] = parts.flatMap((part, i) => extractions[i].frames.map(frame => {
+    const timestamp = frame.timestamp + part.offset;
+    return { ...frame, timestamp, timeString: formatTime(timestamp) };
+  }));
+  return { frames, duration: partsDuration(parts), parts };
+};
+
+// One part after another (each decode already keeps the machine busy), progress weighted by length
+export const extractParts = async (
+  parts: VideoPart[],
+  extract: (part: VideoPart, onProgress: Progress, signal?: AbortSignal) => Promise<VideoExtraction>,
+  onProgress: Progress,
+  signal?: AbortSignal
+): Promise<VideoExtraction> => {
+  const total = partsDuration(parts);
+  const extractions: VideoExtraction[] = [];
+  for (const part of parts) {
+    extractions.push(await extract(part, (p) => onProgress(((part.offset + (part.duration * p) / 100) / total) * 100), signal));
+  }
+  return combineExtractions(parts, extractions);
+};
+
+// --- Seeking ---
+
+// A grab in combined seconds, sent to the grabber of the part that holds it
+export const routeByPart = <T,>(parts: VideoPart[], grabbers: ((time: number) => Promise<T>)[]) =>
+  (time: number): Promise<T> => {
+    const { part, local } = partAt(parts, time);
+    return grabbers[part.part - 1](local);
+  };
+
+export const combineFrameGrabbers = (parts: VideoPart[], grabbers: FrameGrabber[]): FrameGrabber => ({
+  grab: routeByPart(parts, grabbers.map(g => g.grab)),
+  close: () => grabbers.forEach(g => g.close()),
+});
+
+// --- Transcripts ---
+
+// Each part transcribed in turn, its lines moved to the combined timeline
+export const sequenceTranscribers = (parts: VideoPart[], transcribers: Transcriber[]): Transcriber => ({
+  kind: transcribers[0].kind,
+  label: transcribers[0].label,
+  transcribe: async (onProgress, signal) => {
+    const segments: TranscriptSegment[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      const lines = await transcribers[i].transcribe((p) => onProgress(((i + p / 100) / parts.length) * 100), signal);
+      segments.push(...lines.map(line => ({ ...line, start: line.start + parts[i].offset, end: line.end + parts[i].offset })));
+    }
+    return segments;
+  },
+});
+
+export const transcriptForPart = (segments: TranscriptSegment[], part: VideoPart): TranscriptSegment[] => {
+  const end = part.offset + part.duration;
+  return segments
+    .filter(s => s.end > part.offset && s.start < end)
+    .map(s => ({ ...s, start: Math.max(s.start, part.offset) - part.offset, end: Math.min(s.end, end) - part.offset }));
+};
+
+// --- Results ---
+
+// Segments shown during `part`, clipped to it, in its own seconds. A slide that
+// stays up across the cut opens the next part at 0.
+export const matchesForPart = (matches: SlideMatch[], part: VideoPart, duration: number): SlideMatch[] => {
+  const end = part.offset + part.duration;
+  return normalizeSegments(matches, duration)
+    .filter(m => m.endSeconds! > part.offset && m.seconds < end)
+    .map(m => {
+      const seconds = Math.max(m.seconds, part.offset) - part.offset;
+      const { coarseSeconds, ...match } = m;
+      return {
+        ...match,
+        seconds,
+        timestamp: formatTime(seconds),
+        endSeconds: Math.min(m.endSeconds!, end) - part.offset,
+        // The sampled estimate only means something where the transition itself happened
+        ...(coarseSeconds !== undefined && m.seconds >= part.offset ? { coarseSeconds: coarseSeconds - part.offset } : {}),
+      };
+    });
+};
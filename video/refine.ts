@@ -0,0 +1,35 @@
+import { SlideMatch, VideoFrameImage, VideoPart } from '../types';
+import { RefineOptions, REFINE_DEFAULTS, bisectTransitions } from './bisect';
+import { createCanvas, grabWidth, loadVideo, readRegionGray, seek } from './frames';
+import { routeByPart } from './parts';
+import { Quad } from './region';
+
+// --- Sub-second Transition Refinement (browser) ---
+// Seeks a hidden <video> element per part for the bisection in ./bisect.
+
+export const refineTransitions = async (
+  files: File[], // One per part
+  parts: VideoPart[],
+  matches: SlideMatch[],
+  frames: VideoFrameImage[],
+  onProgress: (p: number) => void,
+  signal?: AbortSignal,
+  options: RefineOptions = {},
+  region: Quad | null = null
+): Promise<SlideMatch[]> => {
+  const videos = await Promise.all(files.map(loadVideo));
+
+  try {
+    const width = options.width ?? REFINE_DEFAULTS.width;
+    const grabbers = videos.map(video => {
+      const { canvas, ctx } = createCanvas(video, grabWidth(video, region, width));
+      return async (time: number) => {
+        await seek(video, time);
+        return readRegionGray(video, canvas, ctx, region, width);
+      };
+    });
+    return await bisectTransitions(routeByPart(parts, grabbers), matches, frames, onProgress, signal, options);
+  } finally {
+    videos.forEach(video => URL.revokeObjectURL(video.src));
+  }
+};
@@ -0,0 +1,177 @@
+// --- Slide Region ---
+// Camera shots of a projector and picture-in-picture layouts show the slide in
+// part of the frame only. A quad (corners in video coordinates, 0..1) marks the
+// slide; frames are cropped and perspective-corrected to it before matching.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+export const isFullFrame = (quad: Quad | null | undefined) =>
+  !quad || quad.every((p, i) => Math.abs(p.x - FULL_FRAME[i].x) < 1e-3 && Math.abs(p.y - FULL_FRAME[i].y) < 1e-3);
+
+const dist = (a: Point, b: Point, width: number, height: number) =>
+  Math.hypot((a.x - b.x) * width, (a.y - b.y) * height);
+
+// Output size for a region, `maxWidth` wide, with the slide's own aspect ratio
+// (mean of opposite sides, measured in source pixels)
+export const regionSize = (quad: Quad, videoWidth: number, videoHeight: number, maxWidth: number) => {
+  const [tl, tr, br, bl] = quad;
+  const w = (dist(tl, tr, videoWidth, videoHeight) + dist(bl, br, videoWidth, videoHeight)) / 2;
+  const h = (dist(tl, bl, videoWidth, videoHeight) + dist(tr, br, videoWidth, videoHeight)) / 2;
+  const width = Math.max(1, Math.round(Math.min(maxWidth, w)));
+  return { width, height: Math.max(1, Math.round((width * h) / Math.max(1, w))) };
+};
+
+// Source width at which the region spans about `outWidth` pixels (never upscaled)
+export const sourceWidthFor = (quad: Quad, videoWidth: number, outWidth: number) => {
+  const xs = quad.map(p => p.x);
+  const span = Math.max(0.01, Math.max(...xs) - Math.min(...xs));
+  return Math.min(videoWidth, Math.ceil(outWidth / span));
+};
+
+// Unit square -> quad projective map (Heckbert's closed form)
+export const squareToQuad = (quad: Quad) => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  let g = 0;
+  let h = 0;
+  const det = dx1 * dy2 - dx2 * dy1;
+  if ((Math.abs(dx3) > 1e-9 || Math.abs(dy3) > 1e-9) && Math.abs(det) > 1e-12) {
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+  }
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+// Bilinear resampling of a `channels`-interleaved buffer into the rectified region
+const warp = <T extends Uint8ClampedArray | Float32Array>(
+  src: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number,
+  quad: Quad,
+  outWidth: number,
+  outHeight: number,
+  out: T
+): T => {
+  const map = squareToQuad(quad);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const p = map((x + 0.5) / outWidth, (y + 0.5) / outHeight);
+      const sx = Math.min(width - 1, Math.max(0, p.x * width - 0.5));
+      const sy = Math.min(height - 1, Math.max(0, p.y * height - 0.5));
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(width - 1, x0 + 1), y1 = Math.min(height - 1, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const o = (y * outWidth + x) * channels;
+      for (let c = 0; c < channels; c++) {
+        const top = src[(y0 * width + x0) * channels + c] * (1 - fx) + src[(y0 * width + x1) * channels + c] * fx;
+        const bottom = src[(y1 * width + x0) * channels + c] * (1 - fx) + src[(y1 * width + x1) * channels + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return out;
+};
+
+export const warpRgba = (src: Uint8ClampedArray, width: number, height: number, quad: Quad, outWidth: number, outHeight: number) =>
+  warp(src, width, height, 4, quad, outWidth, outHeight, new Uint8ClampedArray(outWidth * outHeight * 4));
+
+export const warpGray = (src: ArrayLike<number>, width: number, height: number, quad: Quad, outWidth: number, outHeight: number) =>
+  warp(src, width, height, 1, quad, outWidth, outHeight, new Float32Array(outWidth * outHeight));
+
+// --- Automatic Detection ---
+// The slide is usually the largest bright, roughly convex blob: projected light
+// in a camera shot, or the slide pane of a composite layout.
+
+const MIN_AREA = 0.08; // Of the frame; anything smaller is more likely a window or a lamp
+const MIN_FILL = 0.8;  // Blob pixels / quad area, rejects irregular shapes
+
+// Otsu's threshold over a luma buffer
+const otsu = (gray: ArrayLike<number>) => {
+  const hist = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) hist[Math.max(0, Math.min(255, Math.round(gray[i])))]++;
+  let sum = 0;
+  for (let t = 0; t < 256; t++) sum += t * hist[t];
+  let sumB = 0, weightB = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightB += hist[t];
+    if (weightB === 0) continue;
+    const weightF = gray.length - weightB;
+    if (weightF === 0) break;
+    sumB += t * hist[t];
+    const between = weightB * weightF * (sumB / weightB - (sum - sumB) / weightF) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const quadArea = (q: Point[]) =>
+  Math.abs(q.reduce((acc, p, i) => acc + p.x * q[(i + 1) % 4].y - q[(i + 1) % 4].x * p.y, 0)) / 2;
+
+// Quad around the dominant bright region of a luma frame, or null when nothing
+// slide-like stands out (or the slide already fills the frame)
+export const detectSlideRegion = (gray: ArrayLike<number>, width: number, height: number): Quad | null => {
+  const threshold = otsu(gray);
+  const label = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let bestPixels: number[] = [];
+
+  for (let start = 0; start < label.length; start++) {
+    if (label[start] !== -1 || gray[start] <= threshold) continue;
+    // Breadth-first flood fill of one 4-connected bright component
+    let head = 0, tail = 0;
+    queue[tail++] = start;
+    label[start] = start;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width, y = (i - x) / width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && label[n] === -1 && gray[n] > threshold) {
+          label[n] = start;
+          queue[tail++] = n;
+        }
+      }
+    }
+    if (tail > bestPixels.length) bestPixels = Array.from(queue.subarray(0, tail));
+  }
+  if (bestPixels.length < MIN_AREA * width * height) return null;
+
+  // Extreme points along the diagonals are the corners, even under perspective
+  let tl = bestPixels[0], tr = tl, br = tl, bl = tl;
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  for (const i of bestPixels) {
+    if (sum(i) < sum(tl)) tl = i;
+    if (sum(i) > sum(br)) br = i;
+    if (diff(i) > diff(tr)) tr = i;
+    if (diff(i) < diff(bl)) bl = i;
+  }
+  // Pixel edges rather than centres, so the quad encloses the blob
+  const corner = (i: number, dx: number, dy: number): Point => ({
+    x: Math.min(1, Math.max(0, ((i % width) + dx) / width)),
+    y: Math.min(1, Math.max(0, (Math.floor(i / width) + dy) / height)),
+  });
+  const quad: Quad = [corner(tl, 0, 0), corner(tr, 1, 0), corner(br, 1, 1), corner(bl, 0, 1)];
+
+  const area = quadArea(quad) * width * height;
+  if (bestPixels.length / area < MIN_FILL) return null;
+  return isFullFrame(quad) || quadArea(quad) > 0.95 ? null : quad;
+};
@@ -0,0 +1,145 @@
+import { VideoFrameImage } from '../types';
+
+// --- Adaptive Sampling Strategy ---
+// Pass 1 scans the video at low resolution and measures frame-to-frame difference.
+// Pass 2 spends the frame budget densely around detected cuts and sparsely elsewhere.
+
+export const SCAN_WIDTH = 32;    // Pass-1 frames only feed the difference metric
+export const FRAME_WIDTH = 256;  // Pass-2 frames are sent to the matcher
+export const FRAME_QUALITY = 0.5; // Low quality JPEG for efficient token usage with high frame count
+export const VERIFY_WIDTH = 768;  // Sharper frames for the second look at uncertain matches
+export const VERIFY_QUALITY = 0.8;
+
+// Gemini bills every image up to 384px on each side as a fixed 258 tokens
+export const TOKENS_PER_FRAME = 258;
+
+export interface SamplingOptions {
+  maxFrames: number;        // Hard cap on frames sent to the matcher
+  tokenBudget?: number;     // Optional cap on frame tokens; tightens maxFrames if lower
+  maxScanPoints: number;    // Cap on pass-1 seeks, so long videos stay cheap
+  minScanInterval: number;  // Seconds between pass-1 samples for short videos
+  cutThreshold: number;     // Normalized mean diff (0..1) that counts as a cut
+  framesPerCut: number;     // Pass-2 frames spent around each cut
+  staticInterval: number;   // Preferred seconds between frames in static stretches
+}
+
+export const DEFAULT_SAMPLING: SamplingOptions = {
+  maxFrames: 500,
+  maxScanPoints: 1500,
+  minScanInterval: 0.5,
+  cutThreshold: 0.06,
+  framesPerCut: 4,
+  staticInterval: 20,
+};
+
+export interface ScanPoint {
+  time: number;
+  diff: number; // Mean abs difference to the previous scan point, 0..1
+}
+
+export interface SceneCut {
+  from: number;  // Last scan time before the change
+  to: number;    // First scan time after the change
+  score: number; // Peak diff across the change
+}
+
+// Mean absolute difference of two luma buffers, 0..1
+export const grayDiff = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff += Math.abs(a[i] - b[i]);
+  return diff / (a.length * 255);
+};
+
+// Frames that pass 2 is allowed to extract
+export const resolveFrameBudget = (options: SamplingOptions): number => {
+  const byTokens = options.tokenBudget ? Math.floor(options.tokenBudget / TOKENS_PER_FRAME) : Infinity;
+  return Math.max(2, Math.min(options.maxFrames, byTokens));
+};
+
+export const scanInterval = (duration: number, options: SamplingOptions): number => {
+  return Math.max(options.minScanInterval, duration / options.maxScanPoints);
+};
+
+// Local maxima above the threshold; a slow fade counts once, at its steepest point
+export const detectCuts = (scan: ScanPoint[], options: SamplingOptions): SceneCut[] => {
+  const cuts: SceneCut[] = [];
+  for (let i = 1; i < scan.length; i++) {
+    const { diff } = scan[i];
+    if (diff < options.cutThreshold) continue;
+    const prev = scan[i - 1].diff;
+    const next = i + 1 < scan.length ? scan[i + 1].diff : 0;
+    if (diff >= prev && diff > next) {
+      cuts.push({ from: scan[i - 1].time, to: scan[i].time, score: diff });
+    }
+  }
+  return cuts;
+};
+
+// Sample times for pass 2, sorted and de-duplicated, never more than the budget
+export const planSampleTimes = (duration: number, cuts: SceneCut[], options: SamplingOptions): number[] => {
+  const budget = resolveFrameBudget(options);
+  const minGap = 0.1;
+
+  // 1. Reserve a quarter of the budget for coverage of static stretches
+  const sparseReserve = Math.min(Math.ceil(duration / options.staticInterval) + 1, Math.floor(budget / 4));
+  const perCut = Math.max(2, options.framesPerCut);
+  const maxCuts = Math.floor((budget - sparseReserve) / perCut);
+
+  // 2. Strongest cuts first when the budget cannot cover all of them
+  const keptCuts = [...cuts].sort((a, b) => b.score - a.score).slice(0, maxCuts);
+
+  const times: number[] = [0];
+  keptCuts.forEach(cut => {
+    // Spread frames across the change and one scan step past it, so the settled slide is captured
+    const span = (cut.to - cut.from) * 2;
+    for (let j = 1; j <= perCut; j++) {
+      times.push(Math.min(duration, cut.from + (span * j) / perCut));
+    }
+  });
+
+  // 3. Whatever is left of the budget goes to an even grid
+  const remaining = budget - times.length;
+  if (remaining > 0) {
+    const interval = Math.max(options.staticInterval, duration / remaining);
+    for (let t = interval; t < duration && times.length < budget; t += interval) {
+      times.push(t);
+    }
+  }
+
+  times.sort((a, b) => a - b);
+  const unique: number[] = [];
+  times.forEach(t => {
+    if (unique.length === 0 || t - unique[unique.length - 1] >= minGap) unique.push(t);
+  });
+  return unique.slice(0, budget);
+};
+
+// --- Interval-Aware Midpoint Correction ---
+
+const nearestFrameIndex = (frames: VideoFrameImage[], seconds: number): number => {
+  let nearest = 0;
+  for (let i = 1; i < frames.length; i++) {
+    if (Math.abs(frames[i].timestamp - seconds) < Math.abs(frames[nearest].timestamp - seconds)) {
+      nearest = i;
+    }
+  }
+  return nearest;
+};
+
+// A slide seen in frame i first appeared somewhere between frame i-1 and frame i,
+// so the best estimate is the midpoint of that (possibly non-uniform) interval.
+export const correctToMidpoint = (frames: VideoFrameImage[], detectedSeconds: number): number => {
+  if (frames.length === 0) return Math.max(0, detectedSeconds);
+
+  const nearest = nearestFrameIndex(frames, detectedSeconds);
+  if (nearest === 0) return frames[0].timestamp;
+  return (frames[nearest - 1].timestamp + frames[nearest].timestamp) / 2;
+};
+
+// Same idea for a segment end: the slide left somewhere between its last frame and the next one
+export const correctEndToMidpoint = (frames: VideoFrameImage[], detectedSeconds: number): number => {
+  if (frames.length === 0) return Math.max(0, detectedSeconds);
+  const last = nearestFrameIndex(frames, detectedSeconds);
+  if (last === frames.length - 1) return frames[last].timestamp;
+  return (frames[last].timestamp + frames[last + 1].timestamp) / 2;
+};
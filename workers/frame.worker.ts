@@ -0,0 +1,79 @@
+import { Quad, warpRgba } from '../video/region';
+
+// --- Frame Encoding Worker ---
+// Receives ImageBitmaps grabbed from the <video> element (seeking has to stay
+// on the main thread) and does the pixel work: slide-region correction, luma for
+// the scan pass, JPEG for the frames sent to the matcher. Runs as a module worker.
+
+const scope = self as unknown as Worker;
+
+// Rectified slide area: the quad in the bitmap, resampled to width x height
+interface RegionRequest {
+  quad: Quad;
+  width: number;
+  height: number;
+}
+
+interface Surface {
+  canvas: OffscreenCanvas;
+  ctx: OffscreenCanvasRenderingContext2D;
+}
+
+// The grabbed frame, and the corrected region when one is set; reused while the size holds
+let source: Surface | null = null;
+let output: Surface | null = null;
+let canvas: OffscreenCanvas | null = null; // Whichever surface holds the result
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+const surface = (current: Surface | null, width: number, height: number): Surface => {
+  if (current && current.canvas.width === width && current.canvas.height === height) return current;
+  const next = new OffscreenCanvas(width, height);
+  return { canvas: next, ctx: next.getContext('2d', { willReadFrequently: true })! };
+};
+
+const draw = (bitmap: ImageBitmap, region?: RegionRequest) => {
+  source = surface(source, bitmap.width, bitmap.height);
+  source.ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  ({ canvas, ctx } = source);
+  if (region) {
+    const { data, width, height } = source.ctx.getImageData(0, 0, source.canvas.width, source.canvas.height);
+    output = surface(output, region.width, region.height);
+    output.ctx.putImageData(new ImageData(warpRgba(data, width, height, region.quad, region.width, region.height), region.width, region.height), 0, 0);
+    ({ canvas, ctx } = output);
+  }
+};
+
+const toGray = (): Float32Array => {
+  const { data } = ctx!.getImageData(0, 0, canvas!.width, canvas!.height);
+  const gray = new Float32Array(canvas!.width * canvas!.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+const toDataUrl = async (quality: number): Promise<string> => {
+  const blob = await canvas!.convertToBlob({ type: 'image/jpeg', quality });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+scope.onmessage = async (e: MessageEvent) => {
+  const { id, type, bitmap, quality, region } = e.data;
+  try {
+    draw(bitmap, region);
+    if (type === 'gray') {
+      const gray = toGray();
+      scope.postMessage({ id, result: gray }, [gray.buffer]);
+    } else {
+      scope.postMessage({ id, result: await toDataUrl(quality) });
+    }
+  } catch (error: any) {
+    scope.postMessage({ id, error: error?.message || String(error) });
+  }
+};
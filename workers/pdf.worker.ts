@@ -0,0 +1,90 @@
+// --- PDF Rasterization Worker ---
+// Renders deck pages to JPEG on OffscreenCanvas, several pages at a time.
+// pdf.js comes from the same CDN build as index.html; loading its worker script
+// here too lets pdf.js parse in this thread instead of spawning a nested worker.
+// Kept free of imports so it runs as a classic worker.
+
+declare const importScripts: (...urls: string[]) => void;
+
+const PDFJS_BASE = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174';
+importScripts(`${PDFJS_BASE}/pdf.min.js`, `${PDFJS_BASE}/pdf.worker.min.js`);
+
+const scope = self as unknown as Worker;
+const pdfjsLib = (self as any).pdfjsLib;
+
+// pdf.js creates scratch canvases (patterns, masks) through this factory
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+  reset(target: any, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+  destroy(target: any) {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+scope.onmessage = async (e: MessageEvent) => {
+  const { id, data, maxWidth, quality, concurrency } = e.data;
+  try {
+    const canvasFactory = new OffscreenCanvasFactory();
+    const pdf = await pdfjsLib.getDocument({
+      data,
+      // Use unpkg for reliable cMap serving to fix font issues
+      cMapUrl: 'https://unpkg.com/pdfjs-dist@3.11.174/cmaps/',
+      cMapPacked: true,
+      canvasFactory,
+      isOffscreenCanvasSupported: true,
+      // No document here to install font faces into; glyphs are drawn as paths
+      disableFontFace: true,
+    }).promise;
+
+    const total: number = pdf.numPages;
+    const pages: { pageNumber: number; dataUrl: string; textRuns: object[]; pageHeight: number }[] = new Array(total);
+    let done = 0;
+    let next = 1;
+
+    const renderPage = async (pageNumber: number) => {
+      const page = await pdf.getPage(pageNumber);
+      // Low-res render for efficiency
+      const base = page.getViewport({ scale: 1.0 });
+      const viewport = page.getViewport({ scale: Math.min(1.0, maxWidth / base.width) });
+      const { canvas, context } = canvasFactory.create(Math.round(viewport.width), Math.round(viewport.height));
+      await page.render({ canvasContext: context, viewport, canvasFactory }).promise;
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+      // Raw text runs; the title heuristic runs on the main thread
+      const { items } = await page.getTextContent();
+      pages[pageNumber - 1] = {
+        pageNumber,
+        dataUrl: await blobToDataUrl(blob),
+        textRuns: items.map((item: any) => ({ str: item.str ?? '', transform: item.transform, height: item.height, hasEOL: item.hasEOL })),
+        pageHeight: base.height,
+      };
+      page.cleanup();
+      scope.postMessage({ id, progress: (++done / total) * 100 });
+    };
+
+    const lane = async () => {
+      while (next <= total) await renderPage(next++);
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, total) }, lane));
+
+    await pdf.destroy();
+    scope.postMessage({ id, result: pages });
+  } catch (error: any) {
+    scope.postMessage({ id, error: error?.message || String(error) });
+  }
+};